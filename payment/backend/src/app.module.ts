@@ -1,10 +1,18 @@
 
 import { Module } from '@nestjs/common';
-import { ConfigModule, ConfigService } from '@nestjs/config';
+import { ConditionalModule, ConfigModule, ConfigService } from '@nestjs/config';
 import { SequelizeModule } from '@nestjs/sequelize';
 import { ThrottlerModule } from '@nestjs/throttler';
 
 import { PaymentModule } from './payment/payment.module';
+import { MetricsModule } from './metrics/metrics.module';
+import { HealthModule } from './health/health.module';
+import { AuthModule } from './auth/auth.module';
+import { AuditModule } from './audit/audit.module';
+import { RedactionModule } from './redaction/redaction.module';
+import { RequestContextModule } from './request-context/request-context.module';
+import { ErrorsModule } from './errors/errors.module';
+import { MigsSimulatorModule } from './migs-simulator/migs-simulator.module';
 import { getDatabaseConfig } from './config/database.config';
 import configuration from './config/configuration';
 
@@ -22,7 +30,18 @@ import configuration from './config/configuration';
     }),
     ThrottlerModule.forRoot(),
 
-    PaymentModule
+    RequestContextModule,
+    ErrorsModule,
+    RedactionModule,
+    AuthModule,
+    AuditModule,
+    MetricsModule,
+    HealthModule,
+    PaymentModule,
+    ConditionalModule.registerWhen(
+      MigsSimulatorModule,
+      (env: NodeJS.ProcessEnv) => env.MIGS_SIMULATOR_ENABLED === 'true'
+    ),
   ],
 })
 export class AppModule {}
@@ -0,0 +1,65 @@
+import { Controller, Get, Query, ValidationPipe } from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+
+import { AuditService } from './audit.service';
+import AuditEvent from './models/audit-event.model';
+import { ListAuditEventsQueryDto } from './dto/audit-event.dto';
+import { AuditEventData, AuditEventListData } from './interfaces/audit.interface';
+import { ListAuditEventsDocs } from './decorators/audit.decorator';
+import { ApiScope } from '../auth/models/api-client.model';
+import { RequireScopes } from '../auth/decorators/auth.decorator';
+import { PaymentApiResponse } from '../payment/interfaces/payment.interface';
+
+/**
+ * AuditController
+ * 
+ * Read access to the audit trail of refunds, cancellations and admin
+ * changes. There is deliberately no way to change or remove events.
+ */
+@ApiTags('Audit')
+@RequireScopes(ApiScope.ADMIN)
+@Controller('api/payments/admin/audit-events')
+export class AuditController {
+  constructor(private readonly auditService: AuditService) {}
+
+  @Get()
+  @ListAuditEventsDocs()
+  async listEvents(
+    @Query(new ValidationPipe({ transform: true })) query: ListAuditEventsQueryDto
+  ): Promise<PaymentApiResponse<AuditEventListData>> {
+    const { events, total } = await this.auditService.listEvents(query);
+
+    return {
+      success: true,
+      data: {
+        items: events.map((event) => this.toEventData(event)),
+        total,
+        limit: query.limit!,
+        offset: query.offset!,
+      },
+      message: 'Audit events retrieved successfully',
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  private toEventData(event: AuditEvent): AuditEventData {
+    const { dataValues } = event;
+
+    return {
+      eventId: dataValues.id,
+      operation: dataValues.operation,
+      outcome: dataValues.outcome,
+      actorId: dataValues.actorId,
+      actorName: dataValues.actorName,
+      clientIp: dataValues.clientIp,
+      requestId: dataValues.requestId,
+      paymentId: dataValues.paymentId,
+      targetType: dataValues.targetType,
+      targetId: dataValues.targetId,
+      before: dataValues.before,
+      after: dataValues.after,
+      metadata: dataValues.metadata,
+      createdAt: dataValues.createdAt,
+    };
+  }
+}
@@ -0,0 +1,19 @@
+import { Global, Module } from '@nestjs/common';
+import { SequelizeModule } from '@nestjs/sequelize';
+
+import AuditEvent from './models/audit-event.model';
+import { AuditService } from './audit.service';
+import { AuditController } from './audit.controller';
+
+/**
+ * Audit trail of sensitive operations. Global so that payment and admin
+ * code can record events without importing the module.
+ */
+@Global()
+@Module({
+  imports: [SequelizeModule.forFeature([AuditEvent])],
+  controllers: [AuditController],
+  providers: [AuditService],
+  exports: [AuditService],
+})
+export class AuditModule {}
@@ -0,0 +1,128 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { Op, Transaction, WhereOptions } from 'sequelize';
+
+import AuditEvent, { AuditOutcome } from './models/audit-event.model';
+import { AuditContext, AuditEventInput } from './interfaces/audit.interface';
+import { ListAuditEventsQueryDto } from './dto/audit-event.dto';
+import PaymentTransaction from '../payment/models/payment-transaction.model';
+
+/**
+ * AuditService
+ * 
+ * Writes and reads the append-only audit_events trail. Money-moving
+ * operations record their event inside the same database transaction as
+ * the change itself, so an operation is never committed without its trail.
+ */
+@Injectable()
+export class AuditService {
+  private readonly logger = new Logger(AuditService.name);
+
+  constructor(
+    @InjectModel(AuditEvent)
+    private readonly auditModel: typeof AuditEvent,
+  ) {}
+
+  /**
+   * Appends an audit event
+   * 
+   * @param context - Actor, client IP and request ID
+   * @param event - Operation, target and snapshots
+   * @param transaction - Optional database transaction
+   */
+  async record(
+    context: AuditContext,
+    event: AuditEventInput,
+    transaction?: Transaction
+  ): Promise<AuditEvent> {
+    return this.auditModel.create({
+      operation: event.operation,
+      outcome: event.outcome ?? AuditOutcome.SUCCESS,
+      actorId: context.actorId,
+      actorName: context.actorName,
+      clientIp: context.clientIp,
+      requestId: context.requestId,
+      paymentId: event.paymentId,
+      targetType: event.targetType,
+      targetId: event.targetId,
+      before: event.before ?? null,
+      after: event.after ?? null,
+      metadata: event.metadata,
+    }, { transaction });
+  }
+
+  /**
+   * Appends the event of a failed operation. Never throws, so the
+   * original error is what reaches the caller.
+   * 
+   * @param context - Actor, client IP and request ID
+   * @param event - Operation, target and snapshots
+   * @param error - Error that ended the operation
+   */
+  async recordFailure(context: AuditContext, event: AuditEventInput, error: Error): Promise<void> {
+    try {
+      await this.record(context, {
+        ...event,
+        outcome: AuditOutcome.FAILURE,
+        metadata: { ...event.metadata, error: error.message },
+      });
+    } catch (auditError) {
+      this.logger.error('Failed to record audit event', {
+        operation: event.operation,
+        paymentId: event.paymentId,
+        error: auditError.message,
+      });
+    }
+  }
+
+  /**
+   * Lists audit events matching the filters, newest first
+   * 
+   * @param filters - Operation, actor, target, request and date filters
+   */
+  async listEvents(filters: ListAuditEventsQueryDto): Promise<{ events: AuditEvent[]; total: number }> {
+    const where: WhereOptions = {};
+
+    for (const field of ['operation', 'outcome', 'actorId', 'paymentId', 'targetType', 'targetId', 'requestId'] as const) {
+      if (filters[field]) {
+        where[field] = filters[field];
+      }
+    }
+
+    if (filters.from || filters.to) {
+      where['createdAt'] = {
+        ...(filters.from && { [Op.gte]: new Date(filters.from) }),
+        ...(filters.to && { [Op.lt]: new Date(filters.to) }),
+      };
+    }
+
+    const { rows, count } = await this.auditModel.findAndCountAll({
+      where,
+      order: [['createdAt', 'DESC']],
+      limit: filters.limit,
+      offset: filters.offset,
+    });
+
+    return { events: rows, total: count };
+  }
+
+  /**
+   * The fields of a payment that money-moving operations change; gateway
+   * payloads and customer details are left out of the trail
+   */
+  static snapshotPayment(payment: PaymentTransaction): Record<string, any> {
+    const { dataValues } = payment;
+
+    return {
+      status: dataValues.status,
+      amount: dataValues.amount,
+      refundedAmount: dataValues.refundedAmount,
+      currency: dataValues.currency,
+      transactionId: dataValues.transactionId,
+      responseCode: dataValues.responseCode,
+      processedAt: dataValues.processedAt,
+      capturedAt: dataValues.capturedAt,
+      voidedAt: dataValues.voidedAt,
+    };
+  }
+}
@@ -0,0 +1,21 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { AuthenticatedRequest } from '../../auth/interfaces/auth.interface';
+import { RequestContext } from '../../request-context/request-context';
+import { AuditContext } from '../interfaces/audit.interface';
+
+/**
+ * Injects the AuditContext of the current request: the API client set by
+ * ApiKeyGuard, the client IP and the request ID.
+ */
+export const AuditActor = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): AuditContext => {
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+
+    return {
+      actorId: request.apiClient?.clientId ?? 'anonymous',
+      actorName: request.apiClient?.name,
+      clientIp: request.ip,
+      requestId: RequestContext.getRequestId(),
+    };
+  },
+);
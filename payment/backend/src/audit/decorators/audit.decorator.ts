@@ -0,0 +1,49 @@
+import { applyDecorators, HttpStatus } from '@nestjs/common';
+import { ApiOperation, ApiProduces, ApiResponse } from '@nestjs/swagger';
+
+export function ListAuditEventsDocs() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'List audit events',
+      description:
+        'Returns the audit trail of refunds, cancellations, captures, voids and admin changes, newest first. Filter by operation, outcome, actor, payment, target, request ID or date range.',
+    }),
+    ApiProduces('application/json'),
+    ApiResponse({
+      status: HttpStatus.OK,
+      description: 'Audit events retrieved successfully',
+      schema: {
+        example: {
+          success: true,
+          data: {
+            items: [
+              {
+                eventId: "5d0c8a3e-1f2b-4c6d-9e8f-7a6b5c4d3e2f",
+                operation: "payment.refund",
+                outcome: "success",
+                actorId: "7c1e2f3a-4b5c-4d6e-8f90-a1b2c3d4e5f6",
+                actorName: "Back office",
+                clientIp: "10.0.4.17",
+                requestId: "req-8f14e45f",
+                paymentId: "123e4567-e89b-12d3-a456-426614174000",
+                before: { status: "success", amount: "100.00", refundedAmount: "0.00", currency: "AED" },
+                after: { status: "partially_refunded", amount: "100.00", refundedAmount: 40, currency: "AED" },
+                metadata: { refundTxnRef: "REF_1705312800000_x1y2z3", requestedAmount: 40, refundedAmount: 40 },
+                createdAt: "2024-01-15T10:00:00.000Z"
+              }
+            ],
+            total: 1,
+            limit: 50,
+            offset: 0
+          },
+          message: "Audit events retrieved successfully",
+          timestamp: "2024-01-15T10:05:00.000Z"
+        }
+      }
+    }),
+    ApiResponse({
+      status: HttpStatus.BAD_REQUEST,
+      description: 'Invalid filter parameters',
+    }),
+  );
+}
@@ -0,0 +1,66 @@
+import { IsOptional, IsEnum, IsString, IsUUID, IsDateString, IsInt, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { AuditOperation, AuditOutcome } from '../models/audit-event.model';
+
+export class ListAuditEventsQueryDto {
+  @ApiProperty({ description: 'Operation', enum: AuditOperation, required: false })
+  @IsOptional()
+  @IsEnum(AuditOperation)
+  operation?: AuditOperation;
+
+  @ApiProperty({ description: 'Outcome', enum: AuditOutcome, required: false })
+  @IsOptional()
+  @IsEnum(AuditOutcome)
+  outcome?: AuditOutcome;
+
+  @ApiProperty({ description: 'API client ID of the actor', required: false })
+  @IsOptional()
+  @IsString()
+  actorId?: string;
+
+  @ApiProperty({ description: 'Target payment ID', required: false })
+  @IsOptional()
+  @IsUUID()
+  paymentId?: string;
+
+  @ApiProperty({ description: 'Target type, e.g. webhook_endpoint', required: false })
+  @IsOptional()
+  @IsString()
+  targetType?: string;
+
+  @ApiProperty({ description: 'Target ID', required: false })
+  @IsOptional()
+  @IsString()
+  targetId?: string;
+
+  @ApiProperty({ description: 'Request ID', required: false })
+  @IsOptional()
+  @IsString()
+  requestId?: string;
+
+  @ApiProperty({ description: 'Recorded on or after (ISO 8601)', required: false })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiProperty({ description: 'Recorded before (ISO 8601)', required: false })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @ApiProperty({ description: 'Maximum number of events to return', required: false, default: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  limit?: number = 50;
+
+  @ApiProperty({ description: 'Number of events to skip', required: false, default: 0 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  offset?: number = 0;
+}
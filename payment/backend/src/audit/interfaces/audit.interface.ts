@@ -0,0 +1,59 @@
+import { AuditOperation, AuditOutcome } from '../models/audit-event.model';
+
+/**
+ * Audit Context Interface
+ * Who made a request and from where; taken from the request by @AuditActor()
+ */
+export interface AuditContext {
+  actorId: string;
+  actorName?: string;
+  clientIp?: string;
+  requestId?: string;
+}
+
+/**
+ * Audit Event Input Interface
+ * One operation to record. Snapshots must already be free of secrets.
+ */
+export interface AuditEventInput {
+  operation: AuditOperation;
+  outcome?: AuditOutcome;
+  paymentId?: string;
+  targetType?: string;
+  targetId?: string;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Audit Event Data Interface
+ * Defines the structure for audit event responses
+ */
+export interface AuditEventData {
+  eventId: string;
+  operation: AuditOperation;
+  outcome: AuditOutcome;
+  actorId: string;
+  actorName?: string;
+  clientIp?: string;
+  requestId?: string;
+  paymentId?: string;
+  targetType?: string;
+  targetId?: string;
+  before?: Record<string, any>;
+  after?: Record<string, any>;
+  metadata?: Record<string, any>;
+  createdAt: Date;
+}
+
+/**
+ * Audit Event List Data Interface
+ * One page of audit events with the total matching the filters
+ */
+export interface AuditEventListData {
+  items: AuditEventData[];
+  total: number;
+  limit: number;
+  offset: number;
+}
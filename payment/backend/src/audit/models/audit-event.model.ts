@@ -0,0 +1,161 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  PrimaryKey,
+  Default,
+  CreatedAt,
+  BeforeUpdate,
+  BeforeDestroy,
+  BeforeBulkUpdate,
+  BeforeBulkDestroy,
+} from 'sequelize-typescript';
+
+export enum AuditOperation {
+  PAYMENT_CANCEL = 'payment.cancel',
+  PAYMENT_CAPTURE = 'payment.capture',
+  PAYMENT_VOID = 'payment.void',
+  PAYMENT_REFUND = 'payment.refund',
+  SYNC_TRIGGER = 'sync.trigger',
+  SYNC_REQUEUE = 'sync.requeue',
+  WEBHOOK_ENDPOINT_CREATE = 'webhook_endpoint.create',
+  WEBHOOK_ENDPOINT_UPDATE = 'webhook_endpoint.update',
+  WEBHOOK_ENDPOINT_DELETE = 'webhook_endpoint.delete',
+  MERCHANT_ACCOUNT_CREATE = 'merchant_account.create',
+  MERCHANT_ACCOUNT_UPDATE = 'merchant_account.update',
+  MERCHANT_SECRET_ROTATE = 'merchant_account.rotate_secret',
+  RECONCILIATION_RUN = 'reconciliation.run',
+  API_CLIENT_CREATE = 'api_client.create',
+  API_CLIENT_REVOKE = 'api_client.revoke',
+}
+
+export enum AuditOutcome {
+  SUCCESS = 'success',
+  FAILURE = 'failure',
+}
+
+/**
+ * Append-only record of a sensitive operation. Rows are never updated or
+ * deleted; the hooks below and a database trigger both refuse it.
+ */
+@Table({
+  tableName: 'audit_events',
+  timestamps: true,
+  updatedAt: false,
+  underscored: true,
+  indexes: [
+    {
+      name: 'audit_events_payment_id',
+      fields: ['payment_id'],
+    },
+    {
+      name: 'audit_events_operation_created_at',
+      fields: ['operation', 'created_at'],
+    },
+    {
+      name: 'audit_events_actor_id_created_at',
+      fields: ['actor_id', 'created_at'],
+    },
+  ],
+})
+export default class AuditEvent extends Model {
+  @PrimaryKey
+  @Default(DataType.UUIDV4)
+  @Column(DataType.UUID)
+  declare id: string;
+
+  @Column({
+    type: DataType.ENUM(...Object.values(AuditOperation)),
+    allowNull: false,
+  })
+  operation: AuditOperation;
+
+  @Column({
+    type: DataType.ENUM(...Object.values(AuditOutcome)),
+    allowNull: false,
+  })
+  outcome: AuditOutcome;
+
+  @Column({
+    type: DataType.STRING(64),
+    allowNull: false,
+    field: 'actor_id',
+  })
+  actorId: string;
+
+  @Column({
+    type: DataType.STRING(255),
+    allowNull: true,
+    field: 'actor_name',
+  })
+  actorName: string;
+
+  @Column({
+    type: DataType.STRING(64),
+    allowNull: true,
+    field: 'client_ip',
+  })
+  clientIp: string;
+
+  @Column({
+    type: DataType.STRING(128),
+    allowNull: true,
+    field: 'request_id',
+  })
+  requestId: string;
+
+  @Column({
+    type: DataType.UUID,
+    allowNull: true,
+    field: 'payment_id',
+  })
+  paymentId: string;
+
+  @Column({
+    type: DataType.STRING(64),
+    allowNull: true,
+    field: 'target_type',
+  })
+  targetType: string;
+
+  @Column({
+    type: DataType.STRING(64),
+    allowNull: true,
+    field: 'target_id',
+  })
+  targetId: string;
+
+  @Column({
+    type: DataType.JSONB,
+    allowNull: true,
+  })
+  before: Record<string, any>;
+
+  @Column({
+    type: DataType.JSONB,
+    allowNull: true,
+  })
+  after: Record<string, any>;
+
+  @Column({
+    type: DataType.JSONB,
+    allowNull: true,
+  })
+  metadata: Record<string, any>;
+
+  @CreatedAt
+  @Column({
+    type: DataType.DATE,
+    field: 'created_at',
+  })
+  declare createdAt: Date;
+
+  @BeforeUpdate
+  @BeforeDestroy
+  @BeforeBulkUpdate
+  @BeforeBulkDestroy
+  static rejectChanges(): never {
+    throw new Error('Audit events are append-only');
+  }
+}
@@ -0,0 +1,112 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Body,
+  Param,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+
+import { ApiClientService } from './api-client.service';
+import ApiClient, { ApiScope } from './models/api-client.model';
+import { CreateApiClientDto } from './dto/api-client.dto';
+import { ApiClientData } from './interfaces/auth.interface';
+import { RequireScopes } from './decorators/auth.decorator';
+import { CreateApiClientDocs, ListApiClientsDocs, RevokeApiClientDocs } from './decorators/api-client.decorator';
+import { PaymentApiResponse } from '../payment/interfaces/payment.interface';
+import { AuditService } from '../audit/audit.service';
+import { AuditOperation } from '../audit/models/audit-event.model';
+import { AuditActor } from '../audit/decorators/audit-actor.decorator';
+import { AuditContext } from '../audit/interfaces/audit.interface';
+
+/**
+ * ApiClientController
+ * 
+ * Admin endpoints for issuing and revoking API keys. The key and signing
+ * secret are only returned once, when the client is created.
+ */
+@ApiTags('API Clients')
+@RequireScopes(ApiScope.ADMIN)
+@Controller('api/payments/admin/api-clients')
+export class ApiClientController {
+  constructor(
+    private readonly apiClientService: ApiClientService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  @Post()
+  @CreateApiClientDocs()
+  async createClient(
+    @Body(ValidationPipe) clientData: CreateApiClientDto,
+    @AuditActor() audit: AuditContext
+  ): Promise<PaymentApiResponse<ApiClientData>> {
+    const { client, apiKey, signingSecret } = await this.apiClientService.createClient(clientData);
+
+    await this.auditService.record(audit, {
+      operation: AuditOperation.API_CLIENT_CREATE,
+      targetType: 'api_client',
+      targetId: client.dataValues.id,
+      after: this.toClientData(client),
+    });
+
+    return {
+      success: true,
+      data: { ...this.toClientData(client), apiKey, signingSecret },
+      message: 'API client created successfully',
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  @Get()
+  @ListApiClientsDocs()
+  async listClients(): Promise<PaymentApiResponse<ApiClientData[]>> {
+    const clients = await this.apiClientService.listClients();
+
+    return {
+      success: true,
+      data: clients.map((client) => this.toClientData(client)),
+      message: 'API clients retrieved successfully',
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  @Post(':clientId/revoke')
+  @RevokeApiClientDocs()
+  async revokeClient(
+    @Param('clientId') clientId: string,
+    @AuditActor() audit: AuditContext
+  ): Promise<PaymentApiResponse<ApiClientData>> {
+    const client = await this.apiClientService.revokeClient(clientId);
+
+    await this.auditService.record(audit, {
+      operation: AuditOperation.API_CLIENT_REVOKE,
+      targetType: 'api_client',
+      targetId: clientId,
+      after: this.toClientData(client),
+    });
+
+    return {
+      success: true,
+      data: this.toClientData(client),
+      message: 'API client revoked successfully',
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  private toClientData(client: ApiClient): ApiClientData {
+    const { dataValues } = client;
+
+    return {
+      clientId: dataValues.id,
+      name: dataValues.name,
+      keyPrefix: dataValues.keyPrefix,
+      scopes: dataValues.scopes,
+      requireSignature: dataValues.requireSignature,
+      isActive: dataValues.isActive,
+      lastUsedAt: dataValues.lastUsedAt,
+      revokedAt: dataValues.revokedAt,
+      createdAt: dataValues.createdAt,
+    };
+  }
+}
@@ -0,0 +1,164 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/sequelize';
+
+import ApiClient, { ApiScope } from './models/api-client.model';
+import { CreateApiClientDto } from './dto/api-client.dto';
+import { ApiClientIdentity } from './interfaces/auth.interface';
+import { ApiKeyUtil } from './utils/api-key.util';
+import { SecretCipherUtil } from '../payment/utils/secret-cipher.util';
+
+/**
+ * An authenticated client together with what is needed to check its
+ * request signature
+ */
+interface ApiClientCredentials {
+  identity: ApiClientIdentity;
+  signingSecret?: string;
+  requireSignature: boolean;
+}
+
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * ApiClientService
+ * 
+ * Issues and verifies per-client API keys. Keys are stored as SHA-256
+ * hashes and looked up by their clear prefix; signing secrets are stored
+ * encrypted with SECRET_ENCRYPTION_KEY. The API_KEY environment variable,
+ * when set, is accepted as an admin key so the first clients can be issued.
+ */
+@Injectable()
+export class ApiClientService {
+  private readonly logger = new Logger(ApiClientService.name);
+  private readonly encryptionKey: Buffer | null;
+  private readonly bootstrapKey?: string;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @InjectModel(ApiClient)
+    private readonly clientModel: typeof ApiClient,
+  ) {
+    const rawKey = this.configService.get<string>('secrets.encryptionKey');
+    this.encryptionKey = rawKey ? SecretCipherUtil.parseKey(rawKey) : null;
+    this.bootstrapKey = this.configService.get<string>('security.apiKey') || undefined;
+  }
+
+  /**
+   * Issues a new API key
+   * 
+   * @param clientData - Client name, scopes and signing requirement
+   * @returns Promise resolving to the client with its key and signing secret in clear
+   */
+  async createClient(
+    clientData: CreateApiClientDto
+  ): Promise<{ client: ApiClient; apiKey: string; signingSecret: string }> {
+    const { key, prefix } = ApiKeyUtil.generate();
+    const signingSecret = ApiKeyUtil.generateSigningSecret();
+
+    const client = await this.clientModel.create({
+      name: clientData.name,
+      keyPrefix: prefix,
+      keyHash: ApiKeyUtil.hash(key),
+      scopes: [...new Set(clientData.scopes)],
+      signingSecret: SecretCipherUtil.encrypt(signingSecret, this.requireEncryptionKey()),
+      requireSignature: clientData.requireSignature ?? false,
+      isActive: true,
+    });
+
+    this.logger.log('API client created', {
+      clientId: client.dataValues.id,
+      name: clientData.name,
+      scopes: clientData.scopes,
+    });
+
+    return { client, apiKey: key, signingSecret };
+  }
+
+  /**
+   * Lists API clients, newest first
+   */
+  async listClients(): Promise<ApiClient[]> {
+    return this.clientModel.findAll({ order: [['createdAt', 'DESC']] });
+  }
+
+  /**
+   * Revokes an API key; requests using it are rejected from then on
+   * 
+   * @param clientId - API client ID
+   * @throws {NotFoundException} If the client does not exist
+   */
+  async revokeClient(clientId: string): Promise<ApiClient> {
+    const client = await this.clientModel.findByPk(clientId);
+    if (!client) {
+      throw new NotFoundException('API client not found');
+    }
+
+    await client.update({ isActive: false, revokedAt: new Date() });
+
+    this.logger.log('API client revoked', { clientId });
+
+    return client;
+  }
+
+  /**
+   * Resolves a presented API key to its client
+   * 
+   * @param apiKey - Key from the X-API-Key header
+   * @returns Promise resolving to the client's credentials, or null if the key is unknown or revoked
+   */
+  async authenticate(apiKey: string): Promise<ApiClientCredentials | null> {
+    if (this.bootstrapKey && ApiKeyUtil.safeEqual(apiKey, this.bootstrapKey)) {
+      return {
+        identity: { clientId: 'bootstrap', name: 'API_KEY', scopes: [ApiScope.ADMIN] },
+        requireSignature: false,
+      };
+    }
+
+    const prefix = ApiKeyUtil.parsePrefix(apiKey);
+    if (!prefix) {
+      return null;
+    }
+
+    const client = await this.clientModel.findOne({ where: { keyPrefix: prefix } });
+    if (!client) {
+      return null;
+    }
+
+    const { dataValues } = client;
+    if (!dataValues.isActive || !ApiKeyUtil.safeEqual(ApiKeyUtil.hash(apiKey), dataValues.keyHash)) {
+      return null;
+    }
+
+    // Only touched once a minute to keep authentication free of writes
+    const lastUsedAt = dataValues.lastUsedAt ? new Date(dataValues.lastUsedAt).getTime() : 0;
+    if (Date.now() - lastUsedAt > LAST_USED_RESOLUTION_MS) {
+      client.update({ lastUsedAt: new Date() }).catch((error) => {
+        this.logger.warn('Failed to record API client usage', { clientId: dataValues.id, error: error.message });
+      });
+    }
+
+    return {
+      identity: { clientId: dataValues.id, name: dataValues.name, scopes: dataValues.scopes },
+      signingSecret: dataValues.signingSecret
+        ? SecretCipherUtil.decrypt(dataValues.signingSecret, this.requireEncryptionKey())
+        : undefined,
+      requireSignature: dataValues.requireSignature,
+    };
+  }
+
+  /**
+   * Checks whether a client holds the given scopes; admin holds every scope
+   */
+  hasScopes(identity: ApiClientIdentity, required: ApiScope[]): boolean {
+    return identity.scopes.includes(ApiScope.ADMIN)
+      || required.every((scope) => identity.scopes.includes(scope));
+  }
+
+  private requireEncryptionKey(): Buffer {
+    if (!this.encryptionKey) {
+      throw new Error('SECRET_ENCRYPTION_KEY is not configured');
+    }
+    return this.encryptionKey;
+  }
+}
@@ -0,0 +1,111 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+
+import { ApiClientService } from './api-client.service';
+import { ApiScope } from './models/api-client.model';
+import { AuthenticatedRequest } from './interfaces/auth.interface';
+import { IS_PUBLIC_KEY, REQUIRED_SCOPES_KEY } from './decorators/auth.decorator';
+import { ApiKeyUtil } from './utils/api-key.util';
+
+export const API_KEY_HEADER = 'x-api-key';
+export const SIGNATURE_HEADER = 'x-signature';
+export const SIGNATURE_TIMESTAMP_HEADER = 'x-signature-timestamp';
+
+/**
+ * ApiKeyGuard
+ * 
+ * Global guard. Every route needs a valid X-API-Key unless marked @Public();
+ * routes marked @RequireScopes() also need the listed scopes. Requests that
+ * carry X-Signature (or come from a client that requires signing) must be
+ * signed with the client's signing secret over
+ * "<X-Signature-Timestamp>.<METHOD>.<path and query>.<raw body>".
+ */
+@Injectable()
+export class ApiKeyGuard implements CanActivate {
+  private readonly logger = new Logger(ApiKeyGuard.name);
+  private readonly enabled: boolean;
+  private readonly signatureToleranceMs: number;
+
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly configService: ConfigService,
+    private readonly apiClientService: ApiClientService,
+  ) {
+    this.enabled = this.configService.get<boolean>('security.authEnabled') ?? true;
+    this.signatureToleranceMs = (this.configService.get<number>('security.signatureToleranceSeconds') || 300) * 1000;
+  }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    if (!this.enabled) {
+      return true;
+    }
+
+    const targets = [context.getHandler(), context.getClass()];
+    if (this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, targets)) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const apiKey = request.header(API_KEY_HEADER);
+
+    if (!apiKey) {
+      throw new UnauthorizedException('API key required');
+    }
+
+    const credentials = await this.apiClientService.authenticate(apiKey);
+    if (!credentials) {
+      this.logger.warn('Rejected request with invalid API key', { path: request.path, ip: request.ip });
+      throw new UnauthorizedException('Invalid API key');
+    }
+
+    const signature = request.header(SIGNATURE_HEADER);
+    if (signature || credentials.requireSignature) {
+      this.verifySignature(request, signature, credentials.signingSecret);
+    }
+
+    const requiredScopes = this.reflector.getAllAndOverride<ApiScope[]>(REQUIRED_SCOPES_KEY, targets) ?? [];
+    if (!this.apiClientService.hasScopes(credentials.identity, requiredScopes)) {
+      throw new ForbiddenException(`API key lacks required scope: ${requiredScopes.join(', ')}`);
+    }
+
+    request.apiClient = credentials.identity;
+    return true;
+  }
+
+  private verifySignature(
+    request: AuthenticatedRequest,
+    signature: string | undefined,
+    signingSecret: string | undefined
+  ): void {
+    const timestamp = request.header(SIGNATURE_TIMESTAMP_HEADER);
+
+    if (!signature || !timestamp || !signingSecret) {
+      throw new UnauthorizedException('Signed request required');
+    }
+
+    const signedAt = Number(timestamp) * 1000;
+    if (!Number.isFinite(signedAt) || Math.abs(Date.now() - signedAt) > this.signatureToleranceMs) {
+      throw new UnauthorizedException('Request signature expired');
+    }
+
+    const expected = ApiKeyUtil.signRequest(
+      signingSecret,
+      timestamp,
+      request.method,
+      request.originalUrl,
+      request.rawBody?.toString('utf8') ?? ''
+    );
+
+    if (!ApiKeyUtil.safeEqual(signature, expected)) {
+      throw new UnauthorizedException('Invalid request signature');
+    }
+  }
+}
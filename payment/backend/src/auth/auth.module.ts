@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { APP_GUARD } from '@nestjs/core';
+import { SequelizeModule } from '@nestjs/sequelize';
+
+import ApiClient from './models/api-client.model';
+import { ApiClientService } from './api-client.service';
+import { ApiClientController } from './api-client.controller';
+import { ApiKeyGuard } from './api-key.guard';
+
+@Module({
+  imports: [
+    ConfigModule,
+    SequelizeModule.forFeature([ApiClient]),
+  ],
+  controllers: [ApiClientController],
+  providers: [
+    ApiClientService,
+    ApiKeyGuard,
+    { provide: APP_GUARD, useExisting: ApiKeyGuard },
+  ],
+  exports: [ApiClientService],
+})
+export class AuthModule {}
@@ -0,0 +1,56 @@
+import { NextFunction, Request, Response } from 'express';
+import { ConfigService } from '@nestjs/config';
+
+import { ApiClientService } from './api-client.service';
+import { ApiScope } from './models/api-client.model';
+import { API_KEY_HEADER } from './api-key.guard';
+
+/**
+ * Builds the Express middleware protecting the Bull board
+ * 
+ * The board is mounted outside Nest, so ApiKeyGuard never sees it. An admin
+ * API key is accepted in X-API-Key or, so the board can be opened in a
+ * browser, as the password of HTTP Basic authentication.
+ * 
+ * @param apiClientService - Service resolving API keys
+ * @param configService - Reads security.authEnabled
+ */
+export function bullBoardAuth(apiClientService: ApiClientService, configService: ConfigService) {
+  const enabled = configService.get<boolean>('security.authEnabled') ?? true;
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!enabled) {
+      return next();
+    }
+
+    const apiKey = req.header(API_KEY_HEADER) || readBasicPassword(req.header('authorization'));
+
+    const reject = () => {
+      res.setHeader('WWW-Authenticate', 'Basic realm="Bull board"');
+      res.status(401).json({ statusCode: 401, message: 'Admin API key required' });
+    };
+
+    if (!apiKey) {
+      return reject();
+    }
+
+    apiClientService.authenticate(apiKey)
+      .then((credentials) => {
+        if (!credentials || !apiClientService.hasScopes(credentials.identity, [ApiScope.ADMIN])) {
+          return reject();
+        }
+        next();
+      })
+      .catch(next);
+  };
+}
+
+function readBasicPassword(authorization?: string): string | undefined {
+  if (!authorization?.startsWith('Basic ')) {
+    return undefined;
+  }
+
+  const decoded = Buffer.from(authorization.slice(6), 'base64').toString('utf8');
+  const separator = decoded.indexOf(':');
+  return separator >= 0 ? decoded.slice(separator + 1) || undefined : undefined;
+}
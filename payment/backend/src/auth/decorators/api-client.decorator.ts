@@ -0,0 +1,121 @@
+import { applyDecorators, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiBody, ApiConsumes, ApiOperation, ApiParam, ApiProduces, ApiResponse } from '@nestjs/swagger';
+import { CreateApiClientDto } from '../dto/api-client.dto';
+
+const apiClientExample = {
+  clientId: "7c1e2f3a-4b5c-4d6e-8f90-a1b2c3d4e5f6",
+  name: "Checkout frontend",
+  keyPrefix: "3f9a1c7e2b4d",
+  scopes: ["create", "read"],
+  requireSignature: false,
+  isActive: true,
+  lastUsedAt: "2024-01-15T10:30:00.000Z",
+  createdAt: "2024-01-15T10:00:00.000Z"
+};
+
+const adminKeyRequired = [
+  ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Missing or invalid API key',
+  }),
+  ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'API key lacks the admin scope',
+  }),
+];
+
+export function CreateApiClientDocs() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Issue an API key',
+      description: 'Creates an API client with the given scopes. The API key and signing secret are returned once and cannot be retrieved again.',
+    }),
+    ApiConsumes('application/json'),
+    ApiProduces('application/json'),
+    ApiBody({ type: CreateApiClientDto }),
+    ApiResponse({
+      status: HttpStatus.CREATED,
+      description: 'API client created successfully',
+      schema: {
+        example: {
+          success: true,
+          data: {
+            clientId: apiClientExample.clientId,
+            name: apiClientExample.name,
+            keyPrefix: apiClientExample.keyPrefix,
+            scopes: apiClientExample.scopes,
+            requireSignature: false,
+            isActive: true,
+            createdAt: apiClientExample.createdAt,
+            apiKey: "migs_3f9a1c7e2b4d_Vb8kQ2xN0pLr7sT1uW4yZ6aC9eG3hJ5m",
+            signingSecret: "c2lnbmluZy1zZWNyZXQtZXhhbXBsZS12YWx1ZQ"
+          },
+          message: "API client created successfully",
+          timestamp: "2024-01-15T10:00:00.000Z"
+        }
+      }
+    }),
+    ApiResponse({
+      status: HttpStatus.BAD_REQUEST,
+      description: 'Invalid name or scopes',
+    }),
+    ...adminKeyRequired,
+  );
+}
+
+export function ListApiClientsDocs() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'List API clients',
+      description: 'Returns every API client, newest first. Keys and signing secrets are never included.',
+    }),
+    ApiProduces('application/json'),
+    ApiResponse({
+      status: HttpStatus.OK,
+      description: 'API clients retrieved successfully',
+      schema: {
+        example: {
+          success: true,
+          data: [apiClientExample],
+          message: "API clients retrieved successfully",
+          timestamp: "2024-01-15T10:00:00.000Z"
+        }
+      }
+    }),
+    ...adminKeyRequired,
+  );
+}
+
+export function RevokeApiClientDocs() {
+  return applyDecorators(
+    HttpCode(HttpStatus.OK),
+    ApiOperation({
+      summary: 'Revoke an API key',
+      description: 'Deactivates the API client. Requests made with its key are rejected from then on.',
+    }),
+    ApiParam({
+      name: 'clientId',
+      description: 'Unique identifier of the API client',
+      type: String,
+      example: '7c1e2f3a-4b5c-4d6e-8f90-a1b2c3d4e5f6',
+    }),
+    ApiProduces('application/json'),
+    ApiResponse({
+      status: HttpStatus.OK,
+      description: 'API client revoked successfully',
+      schema: {
+        example: {
+          success: true,
+          data: { ...apiClientExample, isActive: false, revokedAt: "2024-01-16T09:00:00.000Z" },
+          message: "API client revoked successfully",
+          timestamp: "2024-01-16T09:00:00.000Z"
+        }
+      }
+    }),
+    ApiResponse({
+      status: HttpStatus.NOT_FOUND,
+      description: 'API client not found',
+    }),
+    ...adminKeyRequired,
+  );
+}
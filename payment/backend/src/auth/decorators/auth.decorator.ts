@@ -0,0 +1,24 @@
+import { applyDecorators, SetMetadata } from '@nestjs/common';
+import { ApiSecurity } from '@nestjs/swagger';
+import { ApiScope } from '../models/api-client.model';
+
+export const IS_PUBLIC_KEY = 'auth:isPublic';
+export const REQUIRED_SCOPES_KEY = 'auth:requiredScopes';
+
+/**
+ * Let a route through without an API key. Used for gateway callbacks,
+ * health probes and the metrics scrape.
+ */
+export function Public() {
+  return SetMetadata(IS_PUBLIC_KEY, true);
+}
+
+/**
+ * Require an API key holding every listed scope. The admin scope grants all.
+ */
+export function RequireScopes(...scopes: ApiScope[]) {
+  return applyDecorators(
+    SetMetadata(REQUIRED_SCOPES_KEY, scopes),
+    ApiSecurity('api-key'),
+  );
+}
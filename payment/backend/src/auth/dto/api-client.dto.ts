@@ -0,0 +1,25 @@
+import { IsString, IsOptional, IsArray, ArrayNotEmpty, IsEnum, IsBoolean, MinLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { ApiScope } from '../models/api-client.model';
+
+export class CreateApiClientDto {
+  @ApiProperty({ description: 'Name of the calling system', example: 'booking-service' })
+  @IsString()
+  @MinLength(2)
+  name: string;
+
+  @ApiProperty({ description: 'Scopes granted to the key', enum: ApiScope, isArray: true })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsEnum(ApiScope, { each: true })
+  scopes: ApiScope[];
+
+  @ApiProperty({
+    description: 'Reject requests from this client that are not signed with its signing secret',
+    required: false,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  requireSignature?: boolean;
+}
@@ -0,0 +1,40 @@
+import { Request } from 'express';
+import { ApiScope } from '../models/api-client.model';
+
+/**
+ * API Client Identity Interface
+ * The authenticated caller attached to the request by ApiKeyGuard
+ */
+export interface ApiClientIdentity {
+  clientId: string;
+  name: string;
+  scopes: ApiScope[];
+}
+
+/**
+ * Authenticated Request Interface
+ * Express request after ApiKeyGuard; rawBody is kept for request signing
+ */
+export interface AuthenticatedRequest extends Request {
+  apiClient?: ApiClientIdentity;
+  rawBody?: Buffer;
+}
+
+/**
+ * API Client Data Interface
+ * Defines the structure for API client responses. apiKey and signingSecret
+ * are only returned when the client is created.
+ */
+export interface ApiClientData {
+  clientId: string;
+  name: string;
+  keyPrefix: string;
+  scopes: ApiScope[];
+  requireSignature: boolean;
+  isActive: boolean;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+  apiKey?: string;
+  signingSecret?: string;
+}
@@ -0,0 +1,116 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  PrimaryKey,
+  Default,
+  CreatedAt,
+  UpdatedAt,
+} from 'sequelize-typescript';
+
+export enum ApiScope {
+  CREATE = 'create',
+  REFUND = 'refund',
+  READ = 'read',
+  ADMIN = 'admin',
+}
+
+@Table({
+  tableName: 'api_clients',
+  timestamps: true,
+  underscored: true,
+  indexes: [
+    {
+      name: 'api_clients_key_prefix',
+      fields: ['key_prefix'],
+      unique: true,
+    },
+  ],
+})
+export default class ApiClient extends Model {
+  @PrimaryKey
+  @Default(DataType.UUIDV4)
+  @Column(DataType.UUID)
+  declare id: string;
+
+  @Column({
+    type: DataType.STRING,
+    allowNull: false,
+  })
+  name: string;
+
+  // Public part of the key, used to find the client before comparing hashes
+  @Column({
+    type: DataType.STRING(16),
+    allowNull: false,
+    field: 'key_prefix',
+  })
+  keyPrefix: string;
+
+  // SHA-256 of the full API key; the key itself is only shown once
+  @Column({
+    type: DataType.STRING(64),
+    allowNull: false,
+    field: 'key_hash',
+  })
+  keyHash: string;
+
+  @Column({
+    type: DataType.JSONB,
+    allowNull: false,
+  })
+  scopes: ApiScope[];
+
+  // Encrypted with SECRET_ENCRYPTION_KEY, see SecretCipherUtil
+  @Column({
+    type: DataType.TEXT,
+    allowNull: true,
+    field: 'signing_secret',
+  })
+  signingSecret: string;
+
+  @Default(false)
+  @Column({
+    type: DataType.BOOLEAN,
+    allowNull: false,
+    field: 'require_signature',
+  })
+  requireSignature: boolean;
+
+  @Default(true)
+  @Column({
+    type: DataType.BOOLEAN,
+    allowNull: false,
+    field: 'is_active',
+  })
+  isActive: boolean;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+    field: 'last_used_at',
+  })
+  lastUsedAt: Date;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+    field: 'revoked_at',
+  })
+  revokedAt: Date;
+
+  @CreatedAt
+  @Column({
+    type: DataType.DATE,
+    field: 'created_at',
+  })
+  declare createdAt: Date;
+
+  @UpdatedAt
+  @Column({
+    type: DataType.DATE,
+    field: 'updated_at',
+  })
+  declare updatedAt: Date;
+}
@@ -0,0 +1,64 @@
+import * as crypto from 'crypto';
+
+const KEY_PREFIX = 'migs';
+
+export class ApiKeyUtil {
+  /**
+   * Generate a new API key - "migs_<prefix>_<secret>". The prefix is stored
+   * in clear to look the client up; only the hash of the whole key is kept.
+   */
+  public static generate(): { key: string; prefix: string } {
+    const prefix = crypto.randomBytes(6).toString('hex');
+    const secret = crypto.randomBytes(24).toString('base64url');
+
+    return { key: `${KEY_PREFIX}_${prefix}_${secret}`, prefix };
+  }
+
+  /**
+   * Extract the lookup prefix from a presented key, or null if malformed
+   */
+  public static parsePrefix(key: string): string | null {
+    const match = /^migs_([0-9a-f]{12})_[A-Za-z0-9_-]+$/.exec(key);
+    return match ? match[1] : null;
+  }
+
+  /**
+   * SHA-256 of a key, hex encoded
+   */
+  public static hash(key: string): string {
+    return crypto.createHash('sha256').update(key, 'utf8').digest('hex');
+  }
+
+  /**
+   * Constant-time comparison of two hex digests or other secrets
+   */
+  public static safeEqual(a: string, b: string): boolean {
+    const left = Buffer.from(a, 'utf8');
+    const right = Buffer.from(b, 'utf8');
+
+    return left.length === right.length && crypto.timingSafeEqual(left, right);
+  }
+
+  /**
+   * Request signature - HMAC-SHA256 over "<timestamp>.<METHOD>.<path>.<body>"
+   */
+  public static signRequest(
+    secret: string,
+    timestamp: string,
+    method: string,
+    path: string,
+    body: string
+  ): string {
+    return crypto
+      .createHmac('sha256', secret)
+      .update(`${timestamp}.${method.toUpperCase()}.${path}.${body}`, 'utf8')
+      .digest('hex');
+  }
+
+  /**
+   * Generate a signing secret for a client
+   */
+  public static generateSigningSecret(): string {
+    return crypto.randomBytes(32).toString('hex');
+  }
+}
@@ -24,14 +24,74 @@ export default () => {
       gatewayUrl: process.env.MIGS_GATEWAY_URL,
       gatewayQueryUrl: process.env.MIGS_GATEWAY_QUERY_URL,
       currency: process.env.MIGS_CURRENCY || 'AED',
+      // ISO 4217 codes the default merchant accepts besides MIGS_CURRENCY
+      allowedCurrencies: (process.env.MIGS_ALLOWED_CURRENCIES || '').split(',').map((code) => code.trim().toUpperCase()).filter(Boolean),
       returnUrl: process.env.MIGS_RETURN_URL,
     },
 
+    gateway: {
+      timeoutMs: parseInt(process.env.MIGS_TIMEOUT_MS || '30000', 10),
+      // Per vpc_Command overrides of timeoutMs
+      commandTimeoutsMs: {
+        queryDR: parseInt(process.env.MIGS_QUERYDR_TIMEOUT_MS || '10000', 10),
+        refund: parseInt(process.env.MIGS_REFUND_TIMEOUT_MS || '30000', 10),
+        capture: parseInt(process.env.MIGS_CAPTURE_TIMEOUT_MS || '30000', 10),
+        voidAuthorisation: parseInt(process.env.MIGS_VOID_TIMEOUT_MS || '30000', 10),
+      },
+      maxRetries: parseInt(process.env.MIGS_MAX_RETRIES || '2', 10),
+      retryBaseDelayMs: parseInt(process.env.MIGS_RETRY_BASE_DELAY_MS || '250', 10),
+      retryMaxDelayMs: parseInt(process.env.MIGS_RETRY_MAX_DELAY_MS || '2000', 10),
+      breakerFailureThreshold: parseInt(process.env.MIGS_BREAKER_FAILURE_THRESHOLD || '5', 10),
+      breakerResetMs: parseInt(process.env.MIGS_BREAKER_RESET_MS || '30000', 10),
+    },
+
     security: {
       apiKey: process.env.API_KEY,
+      authEnabled: process.env.AUTH_ENABLED !== 'false',
+      signatureToleranceSeconds: parseInt(process.env.SIGNATURE_TOLERANCE_SECONDS || '300', 10),
       corsOrigin: process.env.CORS_ORIGIN || 'http://localhost:5173',
     },
 
+    webhooks: {
+      maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8', 10),
+      backoffDelayMs: parseInt(process.env.WEBHOOK_BACKOFF_DELAY_MS || '30000', 10),
+      timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000', 10),
+    },
+
+    payments: {
+      pendingTtlMinutes: parseInt(process.env.PAYMENT_PENDING_TTL_MINUTES || '30', 10),
+      expiryCheckCron: process.env.PAYMENT_EXPIRY_CHECK_CRON || '* * * * *',
+      expiryBatchSize: parseInt(process.env.PAYMENT_EXPIRY_BATCH_SIZE || '50', 10),
+      expiryQueryGraceMinutes: parseInt(process.env.PAYMENT_EXPIRY_QUERY_GRACE_MINUTES || '60', 10),
+    },
+
+    sync: {
+      batchSize: parseInt(process.env.PAYMENT_SYNC_BATCH_SIZE || '50', 10),
+      minAgeMinutes: parseInt(process.env.PAYMENT_SYNC_MIN_AGE_MINUTES || '5', 10),
+      maxAttempts: parseInt(process.env.PAYMENT_SYNC_MAX_ATTEMPTS || '5', 10),
+      backoffBaseMinutes: parseInt(process.env.PAYMENT_SYNC_BACKOFF_BASE_MINUTES || '5', 10),
+      backoffMaxMinutes: parseInt(process.env.PAYMENT_SYNC_BACKOFF_MAX_MINUTES || '240', 10),
+    },
+
+    idempotency: {
+      ttlHours: parseInt(process.env.IDEMPOTENCY_TTL_HOURS || '24', 10),
+    },
+
+    secrets: {
+      encryptionKey: process.env.SECRET_ENCRYPTION_KEY,
+      rotationWindowHours: parseInt(process.env.SECRET_ROTATION_WINDOW_HOURS || '24', 10),
+    },
+
+    redaction: {
+      rules: (process.env.REDACTION_RULES || '').split(',').map((rule) => rule.trim()).filter(Boolean),
+      extraFields: (process.env.REDACTION_EXTRA_FIELDS || '').split(',').map((field) => field.trim()).filter(Boolean),
+    },
+
+    health: {
+      timeoutMs: parseInt(process.env.HEALTH_CHECK_TIMEOUT_MS || '2000', 10),
+      gatewayProbe: process.env.HEALTH_GATEWAY_PROBE === 'true',
+    },
+
     redis: {
       host: process.env.REDIS_HOST,
       port: process.env.REDIS_PORT
@@ -1,5 +1,8 @@
 import { SequelizeModuleOptions } from '@nestjs/sequelize';
 import { ConfigService } from '@nestjs/config';
+import { Logger } from '@nestjs/common';
+
+const sqlLogger = new Logger('Sequelize');
 
 export const getDatabaseConfig = (configService: ConfigService): SequelizeModuleOptions => ({
   dialect: 'postgres',
@@ -11,7 +14,7 @@ export const getDatabaseConfig = (configService: ConfigService): SequelizeModule
   models: [__dirname + '/../**/*.model{.ts,.js}'],
   autoLoadModels: true,
   synchronize: configService.get('NODE_ENV') === 'development',
-  logging: configService.get('DB_LOGGING') === 'true' ? console.log : false,
+  logging: configService.get('DB_LOGGING') === 'true' ? (sql: string) => sqlLogger.debug(sql) : false,
   define: {
     underscored: true,
     timestamps: true,
@@ -0,0 +1,81 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export async function up(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.createTable('payment_refunds', {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    payment_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'payment_transactions',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    refund_txn_ref: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      unique: true,
+    },
+    amount: {
+      type: DataTypes.DECIMAL(12, 3),
+      allowNull: false,
+    },
+    currency: {
+      type: DataTypes.STRING(3),
+      allowNull: false,
+    },
+    reason: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    status: {
+      type: DataTypes.ENUM('pending', 'success', 'failed'),
+      allowNull: false,
+      defaultValue: 'pending',
+    },
+    response_code: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    response_message: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    gateway_transaction_no: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    gateway_response: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+    },
+    requested_by: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    processed_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+  });
+
+  // Create indexes
+  await queryInterface.addIndex('payment_refunds', ['payment_id']);
+}
+
+export async function down(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.dropTable('payment_refunds');
+}
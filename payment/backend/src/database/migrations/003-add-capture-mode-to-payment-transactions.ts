@@ -0,0 +1,29 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export async function up(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.sequelize.query(
+    `ALTER TYPE "enum_payment_transactions_status" ADD VALUE IF NOT EXISTS 'authorized'`
+  );
+
+  await queryInterface.addColumn('payment_transactions', 'capture_mode', {
+    type: DataTypes.ENUM('auto', 'manual'),
+    allowNull: false,
+    defaultValue: 'auto',
+  });
+  await queryInterface.addColumn('payment_transactions', 'captured_at', {
+    type: DataTypes.DATE,
+    allowNull: true,
+  });
+  await queryInterface.addColumn('payment_transactions', 'voided_at', {
+    type: DataTypes.DATE,
+    allowNull: true,
+  });
+}
+
+export async function down(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.removeColumn('payment_transactions', 'voided_at');
+  await queryInterface.removeColumn('payment_transactions', 'captured_at');
+  await queryInterface.removeColumn('payment_transactions', 'capture_mode');
+  await queryInterface.sequelize.query(`DROP TYPE IF EXISTS "enum_payment_transactions_capture_mode"`);
+  // Postgres cannot drop a single enum value; 'authorized' stays on the status type
+}
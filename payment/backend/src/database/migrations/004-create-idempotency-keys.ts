@@ -0,0 +1,52 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export async function up(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.createTable('idempotency_keys', {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    idempotency_key: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    scope: {
+      type: DataTypes.ENUM('create_payment', 'refund_payment'),
+      allowNull: false,
+    },
+    request_hash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+    },
+    status: {
+      type: DataTypes.ENUM('in_progress', 'completed'),
+      allowNull: false,
+      defaultValue: 'in_progress',
+    },
+    response_body: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+    },
+    expires_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+  });
+
+  // Create indexes
+  await queryInterface.addIndex('idempotency_keys', ['idempotency_key', 'scope'], { unique: true });
+  await queryInterface.addIndex('idempotency_keys', ['expires_at']);
+}
+
+export async function down(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.dropTable('idempotency_keys');
+}
@@ -0,0 +1,120 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export async function up(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.createTable('webhook_endpoints', {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    url: {
+      type: DataTypes.STRING(2048),
+      allowNull: false,
+    },
+    description: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    secret: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    events: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+    },
+    is_active: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+  });
+
+  await queryInterface.createTable('webhook_deliveries', {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    endpoint_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'webhook_endpoints',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    event_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+    },
+    event_type: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    payment_id: {
+      type: DataTypes.UUID,
+      allowNull: true,
+    },
+    payload: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+    },
+    status: {
+      type: DataTypes.ENUM('pending', 'delivered', 'failed'),
+      allowNull: false,
+      defaultValue: 'pending',
+    },
+    attempts: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    response_status: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    response_body: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    last_error: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    last_attempt_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    delivered_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+  });
+
+  // Create indexes
+  await queryInterface.addIndex('webhook_deliveries', ['endpoint_id']);
+  await queryInterface.addIndex('webhook_deliveries', ['payment_id']);
+}
+
+export async function down(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.dropTable('webhook_deliveries');
+  await queryInterface.dropTable('webhook_endpoints');
+}
@@ -0,0 +1,51 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export async function up(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.createTable('payment_status_history', {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    payment_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'payment_transactions',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    from_status: {
+      type: DataTypes.STRING(32),
+      allowNull: true,
+    },
+    to_status: {
+      type: DataTypes.STRING(32),
+      allowNull: false,
+    },
+    source: {
+      type: DataTypes.ENUM('api', 'callback', 'sync', 'admin', 'refund'),
+      allowNull: false,
+    },
+    reason: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    metadata: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+  });
+
+  // Create indexes
+  await queryInterface.addIndex('payment_status_history', ['payment_id']);
+}
+
+export async function down(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.dropTable('payment_status_history');
+}
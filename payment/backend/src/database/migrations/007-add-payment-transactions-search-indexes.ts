@@ -0,0 +1,20 @@
+import { QueryInterface } from 'sequelize';
+
+export async function up(queryInterface: QueryInterface): Promise<void> {
+  // Keyset pagination for GET /payments orders by (created_at, id)
+  await queryInterface.addIndex('payment_transactions', ['created_at', 'id'], {
+    name: 'payment_transactions_created_at_id',
+  });
+  await queryInterface.addIndex('payment_transactions', ['status', 'created_at'], {
+    name: 'payment_transactions_status_created_at',
+  });
+  await queryInterface.addIndex('payment_transactions', ['customer_email'], {
+    name: 'payment_transactions_customer_email',
+  });
+}
+
+export async function down(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.removeIndex('payment_transactions', 'payment_transactions_customer_email');
+  await queryInterface.removeIndex('payment_transactions', 'payment_transactions_status_created_at');
+  await queryInterface.removeIndex('payment_transactions', 'payment_transactions_created_at_id');
+}
@@ -0,0 +1,147 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export async function up(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.createTable('reconciliation_runs', {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    file_name: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    settlement_date: {
+      type: DataTypes.DATEONLY,
+      allowNull: true,
+    },
+    batch_numbers: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: [],
+    },
+    status: {
+      type: DataTypes.ENUM('completed', 'failed'),
+      allowNull: false,
+    },
+    total_rows: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    matched_count: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    mismatch_count: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    summary: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+    },
+    error_message: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    started_by: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+  });
+
+  await queryInterface.createTable('reconciliation_items', {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    run_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'reconciliation_runs',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    payment_id: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'payment_transactions',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    },
+    result: {
+      type: DataTypes.ENUM('matched', 'missing_locally', 'missing_at_gateway', 'amount_mismatch', 'status_mismatch'),
+      allowNull: false,
+    },
+    row_number: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    merchant_txn_ref: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    transaction_id: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    receipt_no: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    batch_no: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    local_amount: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: true,
+    },
+    gateway_amount: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: true,
+    },
+    local_status: {
+      type: DataTypes.STRING(32),
+      allowNull: true,
+    },
+    gateway_status: {
+      type: DataTypes.STRING(64),
+      allowNull: true,
+    },
+    raw_row: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+  });
+
+  // Create indexes
+  await queryInterface.addIndex('reconciliation_runs', ['created_at']);
+  await queryInterface.addIndex('reconciliation_items', ['run_id', 'result']);
+  await queryInterface.addIndex('reconciliation_items', ['payment_id']);
+}
+
+export async function down(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.dropTable('reconciliation_items');
+  await queryInterface.dropTable('reconciliation_runs');
+}
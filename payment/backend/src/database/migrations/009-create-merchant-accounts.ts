@@ -0,0 +1,71 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export async function up(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.createTable('merchant_accounts', {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    code: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      unique: true,
+    },
+    name: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    merchant_id: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    access_code: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    secure_secret: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    currency: {
+      type: DataTypes.STRING(3),
+      allowNull: false,
+    },
+    return_url: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+    },
+    is_active: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+  });
+
+  // Transactions without a merchant account use the MIGS_* environment credentials
+  await queryInterface.addColumn('payment_transactions', 'merchant_account_id', {
+    type: DataTypes.UUID,
+    allowNull: true,
+    references: {
+      model: 'merchant_accounts',
+      key: 'id',
+    },
+    onDelete: 'RESTRICT',
+  });
+
+  await queryInterface.addIndex('payment_transactions', ['merchant_account_id']);
+}
+
+export async function down(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.removeColumn('payment_transactions', 'merchant_account_id');
+  await queryInterface.dropTable('merchant_accounts');
+}
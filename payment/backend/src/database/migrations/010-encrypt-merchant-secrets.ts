@@ -0,0 +1,93 @@
+import { QueryInterface, DataTypes, QueryTypes } from 'sequelize';
+import { SecretCipherUtil } from '../../payment/utils/secret-cipher.util';
+
+export async function up(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.changeColumn('merchant_accounts', 'secure_secret', {
+    type: DataTypes.TEXT,
+    allowNull: false,
+  });
+  await queryInterface.addColumn('merchant_accounts', 'previous_secure_secret', {
+    type: DataTypes.TEXT,
+    allowNull: true,
+  });
+  await queryInterface.addColumn('merchant_accounts', 'previous_secret_expires_at', {
+    type: DataTypes.DATE,
+    allowNull: true,
+  });
+  await queryInterface.addColumn('merchant_accounts', 'secret_rotated_at', {
+    type: DataTypes.DATE,
+    allowNull: true,
+  });
+
+  // Encrypt secrets stored in plain text before this migration
+  const accounts = await queryInterface.sequelize.query<{ id: string; secure_secret: string }>(
+    `SELECT id, secure_secret FROM merchant_accounts WHERE secure_secret NOT LIKE 'enc:%'`,
+    { type: QueryTypes.SELECT }
+  );
+
+  if (accounts.length > 0) {
+    if (!process.env.SECRET_ENCRYPTION_KEY) {
+      throw new Error('SECRET_ENCRYPTION_KEY is required to encrypt existing merchant secrets');
+    }
+
+    const key = SecretCipherUtil.parseKey(process.env.SECRET_ENCRYPTION_KEY);
+    for (const account of accounts) {
+      await queryInterface.sequelize.query(
+        `UPDATE merchant_accounts SET secure_secret = :secret WHERE id = :id`,
+        { replacements: { id: account.id, secret: SecretCipherUtil.encrypt(account.secure_secret, key) } }
+      );
+    }
+  }
+
+  await queryInterface.createTable('merchant_secret_rotations', {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    merchant_account_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'merchant_accounts',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    previous_secret_fingerprint: {
+      type: DataTypes.STRING(12),
+      allowNull: false,
+    },
+    new_secret_fingerprint: {
+      type: DataTypes.STRING(12),
+      allowNull: false,
+    },
+    previous_secret_expires_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    rotated_by: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    reason: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+  });
+
+  // Create indexes
+  await queryInterface.addIndex('merchant_secret_rotations', ['merchant_account_id']);
+}
+
+export async function down(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.dropTable('merchant_secret_rotations');
+  await queryInterface.removeColumn('merchant_accounts', 'secret_rotated_at');
+  await queryInterface.removeColumn('merchant_accounts', 'previous_secret_expires_at');
+  await queryInterface.removeColumn('merchant_accounts', 'previous_secure_secret');
+  // Secrets stay encrypted; decrypt them manually before rolling back further
+}
@@ -0,0 +1,14 @@
+import { QueryInterface } from 'sequelize';
+
+export async function up(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.sequelize.query(
+    `ALTER TYPE "enum_payment_status_history_source" ADD VALUE IF NOT EXISTS 'notify'`
+  );
+}
+
+export async function down(queryInterface: QueryInterface): Promise<void> {
+  // Postgres cannot drop a value from an enum type; move rows back to 'callback'
+  await queryInterface.sequelize.query(
+    `UPDATE payment_status_history SET source = 'callback' WHERE source = 'notify'`
+  );
+}
@@ -0,0 +1,38 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export async function up(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.sequelize.query(
+    `ALTER TYPE "enum_payment_transactions_status" ADD VALUE IF NOT EXISTS 'expired'`
+  );
+  await queryInterface.sequelize.query(
+    `ALTER TYPE "enum_payment_status_history_source" ADD VALUE IF NOT EXISTS 'expiry'`
+  );
+
+  await queryInterface.addColumn('payment_transactions', 'expires_at', {
+    type: DataTypes.DATE,
+    allowNull: true,
+  });
+  await queryInterface.addColumn('payment_transactions', 'expired_at', {
+    type: DataTypes.DATE,
+    allowNull: true,
+  });
+
+  await queryInterface.addIndex('payment_transactions', ['status', 'expires_at'], {
+    name: 'payment_transactions_status_expires_at',
+  });
+
+  // Payments already pending get the default TTL from their creation time
+  await queryInterface.sequelize.query(
+    `UPDATE payment_transactions
+     SET expires_at = created_at + make_interval(mins => :ttlMinutes)
+     WHERE status = 'pending' AND expires_at IS NULL`,
+    { replacements: { ttlMinutes: parseInt(process.env.PAYMENT_PENDING_TTL_MINUTES || '30', 10) } }
+  );
+}
+
+export async function down(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.removeIndex('payment_transactions', 'payment_transactions_status_expires_at');
+  await queryInterface.removeColumn('payment_transactions', 'expired_at');
+  await queryInterface.removeColumn('payment_transactions', 'expires_at');
+  // Postgres cannot drop a single enum value; 'expired' and 'expiry' stay on their types
+}
@@ -0,0 +1,37 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export async function up(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.addColumn('payment_transactions', 'sync_attempts', {
+    type: DataTypes.INTEGER,
+    allowNull: false,
+    defaultValue: 0,
+  });
+  await queryInterface.addColumn('payment_transactions', 'next_sync_at', {
+    type: DataTypes.DATE,
+    allowNull: true,
+  });
+  await queryInterface.addColumn('payment_transactions', 'last_sync_error', {
+    type: DataTypes.TEXT,
+    allowNull: true,
+  });
+  await queryInterface.addColumn('payment_transactions', 'sync_dead_lettered_at', {
+    type: DataTypes.DATE,
+    allowNull: true,
+  });
+
+  await queryInterface.addIndex('payment_transactions', ['status', 'next_sync_at'], {
+    name: 'payment_transactions_status_next_sync_at',
+  });
+  await queryInterface.addIndex('payment_transactions', ['sync_dead_lettered_at'], {
+    name: 'payment_transactions_sync_dead_lettered_at',
+  });
+}
+
+export async function down(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.removeIndex('payment_transactions', 'payment_transactions_sync_dead_lettered_at');
+  await queryInterface.removeIndex('payment_transactions', 'payment_transactions_status_next_sync_at');
+  await queryInterface.removeColumn('payment_transactions', 'sync_dead_lettered_at');
+  await queryInterface.removeColumn('payment_transactions', 'last_sync_error');
+  await queryInterface.removeColumn('payment_transactions', 'next_sync_at');
+  await queryInterface.removeColumn('payment_transactions', 'sync_attempts');
+}
@@ -0,0 +1,66 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export async function up(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.createTable('api_clients', {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    name: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    key_prefix: {
+      type: DataTypes.STRING(16),
+      allowNull: false,
+    },
+    key_hash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+    },
+    scopes: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+    },
+    signing_secret: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    require_signature: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+    },
+    is_active: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+    },
+    last_used_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    revoked_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+  });
+
+  await queryInterface.addIndex('api_clients', ['key_prefix'], {
+    name: 'api_clients_key_prefix',
+    unique: true,
+  });
+}
+
+export async function down(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.dropTable('api_clients');
+}
@@ -0,0 +1,111 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export async function up(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.createTable('audit_events', {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    operation: {
+      type: DataTypes.ENUM(
+        'payment.cancel',
+        'payment.capture',
+        'payment.void',
+        'payment.refund',
+        'sync.trigger',
+        'sync.requeue',
+        'webhook_endpoint.create',
+        'webhook_endpoint.update',
+        'webhook_endpoint.delete',
+        'merchant_account.create',
+        'merchant_account.update',
+        'merchant_account.rotate_secret',
+        'reconciliation.run',
+        'api_client.create',
+        'api_client.revoke',
+      ),
+      allowNull: false,
+    },
+    outcome: {
+      type: DataTypes.ENUM('success', 'failure'),
+      allowNull: false,
+    },
+    actor_id: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+    },
+    actor_name: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    client_ip: {
+      type: DataTypes.STRING(64),
+      allowNull: true,
+    },
+    request_id: {
+      type: DataTypes.STRING(128),
+      allowNull: true,
+    },
+    // No foreign key: the trail has to outlive the payment rows it describes
+    payment_id: {
+      type: DataTypes.UUID,
+      allowNull: true,
+    },
+    target_type: {
+      type: DataTypes.STRING(64),
+      allowNull: true,
+    },
+    target_id: {
+      type: DataTypes.STRING(64),
+      allowNull: true,
+    },
+    before: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+    },
+    after: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+    },
+    metadata: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+  });
+
+  await queryInterface.addIndex('audit_events', ['payment_id'], {
+    name: 'audit_events_payment_id',
+  });
+  await queryInterface.addIndex('audit_events', ['operation', 'created_at'], {
+    name: 'audit_events_operation_created_at',
+  });
+  await queryInterface.addIndex('audit_events', ['actor_id', 'created_at'], {
+    name: 'audit_events_actor_id_created_at',
+  });
+
+  // Enforce append-only at the database so raw SQL cannot rewrite the trail either
+  await queryInterface.sequelize.query(`
+    CREATE FUNCTION audit_events_reject_change() RETURNS trigger AS $$
+    BEGIN
+      RAISE EXCEPTION 'audit_events is append-only';
+    END;
+    $$ LANGUAGE plpgsql;
+  `);
+  await queryInterface.sequelize.query(`
+    CREATE TRIGGER audit_events_append_only
+    BEFORE UPDATE OR DELETE OR TRUNCATE ON audit_events
+    FOR EACH STATEMENT EXECUTE FUNCTION audit_events_reject_change();
+  `);
+}
+
+export async function down(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.dropTable('audit_events');
+  await queryInterface.sequelize.query('DROP FUNCTION IF EXISTS audit_events_reject_change()');
+  await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_audit_events_operation"');
+  await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_audit_events_outcome"');
+}
@@ -0,0 +1,29 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+// Three decimals for currencies such as KWD and BHD, whose minor unit is a thousandth;
+// payment_refunds.amount is created with three decimals
+const AMOUNT_COLUMNS: Array<[table: string, column: string, allowNull: boolean]> = [
+  ['payment_transactions', 'amount', false],
+  ['payment_transactions', 'refunded_amount', false],
+  ['reconciliation_items', 'local_amount', true],
+  ['reconciliation_items', 'gateway_amount', true],
+];
+
+export async function up(queryInterface: QueryInterface): Promise<void> {
+  for (const [table, column, allowNull] of AMOUNT_COLUMNS) {
+    await queryInterface.changeColumn(table, column, {
+      type: DataTypes.DECIMAL(12, 3),
+      allowNull,
+    });
+  }
+}
+
+// Rounds any three-decimal amounts back to two decimals
+export async function down(queryInterface: QueryInterface): Promise<void> {
+  for (const [table, column, allowNull] of AMOUNT_COLUMNS) {
+    await queryInterface.changeColumn(table, column, {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull,
+    });
+  }
+}
@@ -0,0 +1,13 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export async function up(queryInterface: QueryInterface): Promise<void> {
+  // Empty means the merchant only accepts its default currency
+  await queryInterface.addColumn('merchant_accounts', 'allowed_currencies', {
+    type: DataTypes.ARRAY(DataTypes.STRING(3)),
+    allowNull: true,
+  });
+}
+
+export async function down(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.removeColumn('merchant_accounts', 'allowed_currencies');
+}
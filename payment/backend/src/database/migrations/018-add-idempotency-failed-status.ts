@@ -0,0 +1,14 @@
+import { QueryInterface } from 'sequelize';
+
+export async function up(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.sequelize.query(
+    `ALTER TYPE "enum_idempotency_keys_status" ADD VALUE IF NOT EXISTS 'failed'`
+  );
+}
+
+export async function down(queryInterface: QueryInterface): Promise<void> {
+  // Postgres cannot drop a value from an enum type; failed keys are dropped so clients may retry
+  await queryInterface.sequelize.query(
+    `DELETE FROM idempotency_keys WHERE status = 'failed'`
+  );
+}
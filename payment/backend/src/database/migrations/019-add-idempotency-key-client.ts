@@ -0,0 +1,46 @@
+import { QueryInterface, DataTypes, QueryTypes } from 'sequelize';
+
+// Client id of the legacy API_KEY, the only way to authenticate before per-client keys
+const BOOTSTRAP_CLIENT_ID = 'bootstrap';
+
+export async function up(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.addColumn('idempotency_keys', 'client_id', {
+    type: DataTypes.STRING(64),
+    allowNull: true,
+  });
+
+  // Keep existing keys, failed and in-flight refunds included, under the bootstrap client
+  await queryInterface.sequelize.query(
+    `UPDATE idempotency_keys SET client_id = :clientId WHERE client_id IS NULL`,
+    { replacements: { clientId: BOOTSTRAP_CLIENT_ID } }
+  );
+
+  await queryInterface.changeColumn('idempotency_keys', 'client_id', {
+    type: DataTypes.STRING(64),
+    allowNull: false,
+  });
+
+  await queryInterface.removeIndex('idempotency_keys', ['idempotency_key', 'scope']);
+  await queryInterface.addIndex('idempotency_keys', ['idempotency_key', 'scope', 'client_id'], {
+    name: 'idempotency_keys_key_scope_client',
+    unique: true,
+  });
+}
+
+export async function down(queryInterface: QueryInterface): Promise<void> {
+  // Two clients may hold the same key, which the old unique index rejects
+  const [{ count }] = await queryInterface.sequelize.query<{ count: string }>(
+    `SELECT COUNT(*) AS count FROM (
+       SELECT 1 FROM idempotency_keys GROUP BY idempotency_key, scope HAVING COUNT(*) > 1
+     ) AS shared_keys`,
+    { type: QueryTypes.SELECT }
+  );
+
+  if (Number(count) > 0) {
+    throw new Error(`${count} idempotency keys are shared by several API clients; resolve them before reverting`);
+  }
+
+  await queryInterface.removeIndex('idempotency_keys', 'idempotency_keys_key_scope_client');
+  await queryInterface.removeColumn('idempotency_keys', 'client_id');
+  await queryInterface.addIndex('idempotency_keys', ['idempotency_key', 'scope'], { unique: true });
+}
@@ -0,0 +1,17 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export async function up(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.addColumn('payment_refunds', 'applied_at', {
+    type: DataTypes.DATE,
+    allowNull: true,
+  });
+
+  // Approved refunds recorded so far were added to refundedAmount in the same step
+  await queryInterface.sequelize.query(
+    `UPDATE payment_refunds SET applied_at = COALESCE(processed_at, updated_at) WHERE status = 'success'`
+  );
+}
+
+export async function down(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.removeColumn('payment_refunds', 'applied_at');
+}
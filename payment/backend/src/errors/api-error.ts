@@ -0,0 +1,34 @@
+import { HttpException } from '@nestjs/common';
+import { ERROR_CATALOGUE, ErrorCode } from './error-catalogue';
+
+export interface ApiErrorOptions {
+  /** Client-safe message; the catalogue message when omitted */
+  message?: string;
+  /** Structured details returned to the client */
+  details?: unknown;
+  /** Underlying error, logged but never returned */
+  cause?: unknown;
+}
+
+/**
+ * ApiError
+ * 
+ * An error from the catalogue. Extends HttpException so that Nest and
+ * existing instanceof checks treat it like any other HTTP exception.
+ */
+export class ApiError extends HttpException {
+  readonly code: ErrorCode;
+  readonly retryable: boolean;
+  readonly details?: unknown;
+
+  constructor(code: ErrorCode, options: ApiErrorOptions = {}) {
+    const definition = ERROR_CATALOGUE[code];
+    const message = options.message ?? definition.message;
+
+    super(message, definition.status, { cause: options.cause });
+    this.name = 'ApiError';
+    this.code = code;
+    this.retryable = definition.retryable;
+    this.details = options.details;
+  }
+}
@@ -0,0 +1,81 @@
+import { ArgumentsHost, BadRequestException, ForbiddenException, HttpStatus, ServiceUnavailableException } from '@nestjs/common';
+import { ApiError } from './api-error';
+import { ApiExceptionFilter } from './api-exception.filter';
+import { ErrorCode } from './error-catalogue';
+import { RequestContext } from '../request-context/request-context';
+
+describe('ApiExceptionFilter', () => {
+  const filter = new ApiExceptionFilter();
+
+  const hostFor = (response: Record<string, any>) => ({
+    switchToHttp: () => ({
+      getRequest: () => ({ method: 'POST', originalUrl: '/api/payments/refund' }),
+      getResponse: () => response,
+    }),
+  }) as unknown as ArgumentsHost;
+
+  const mockResponse = () => {
+    const response: Record<string, any> = { headersSent: false };
+    response.status = jest.fn().mockReturnValue(response);
+    response.json = jest.fn().mockReturnValue(response);
+    return response;
+  };
+
+  beforeAll(() => {
+    jest.spyOn(filter['logger'], 'error').mockImplementation();
+    jest.spyOn(filter['logger'], 'warn').mockImplementation();
+  });
+
+  it('returns catalogue errors with their code, retryability and details', () => {
+    const response = mockResponse();
+    const error = new ApiError(ErrorCode.REFUND_EXCEEDS_AVAILABLE, { details: { availableAmount: 40 } });
+
+    RequestContext.run('req-1', () => filter.catch(error, hostFor(response)));
+
+    expect(response.status).toHaveBeenCalledWith(HttpStatus.BAD_REQUEST);
+    expect(response.json).toHaveBeenCalledWith(expect.objectContaining({
+      success: false,
+      message: 'Refund amount exceeds the amount available for refund',
+      error: { code: 'REFUND_EXCEEDS_AVAILABLE', retryable: false, details: { availableAmount: 40 } },
+      requestId: 'req-1',
+    }));
+  });
+
+  it('keeps the cause of a catalogue error out of the response', () => {
+    const error = new ApiError(ErrorCode.GATEWAY_TIMEOUT, { cause: new Error('timeout of 30000ms exceeded') });
+
+    expect(ApiExceptionFilter.resolve(error)).toEqual({
+      status: HttpStatus.GATEWAY_TIMEOUT,
+      message: 'The payment gateway did not respond in time',
+      error: { code: 'GATEWAY_TIMEOUT', retryable: true, details: undefined },
+    });
+  });
+
+  it('maps validation failures and plain HTTP exceptions to generic codes', () => {
+    const validation = ApiExceptionFilter.resolve(new BadRequestException(['amount must be a positive number']));
+    const forbidden = ApiExceptionFilter.resolve(new ForbiddenException('API key lacks required scope: refund'));
+
+    expect(validation.error).toEqual({
+      code: 'VALIDATION_FAILED',
+      retryable: false,
+      details: ['amount must be a positive number'],
+    });
+    expect(forbidden).toMatchObject({
+      status: HttpStatus.FORBIDDEN,
+      message: 'API key lacks required scope: refund',
+      error: { code: 'FORBIDDEN' },
+    });
+  });
+
+  it('hides the message of server errors', () => {
+    const unavailable = ApiExceptionFilter.resolve(new ServiceUnavailableException('Redis at 10.0.0.4 refused'));
+    const unexpected = ApiExceptionFilter.resolve(new TypeError("Cannot read properties of undefined (reading 'amount')"));
+
+    expect(unavailable).toMatchObject({ status: 503, message: 'The service is temporarily unavailable' });
+    expect(unexpected).toEqual({
+      status: HttpStatus.INTERNAL_SERVER_ERROR,
+      message: 'An unexpected error occurred',
+      error: { code: 'INTERNAL_ERROR', retryable: false },
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { ArgumentsHost, Catch, ExceptionFilter, HttpException, Logger } from '@nestjs/common';
+import { Request, Response } from 'express';
+import { ApiErrorData, PaymentApiResponse } from '../payment/interfaces/payment.interface';
+import { RequestContext } from '../request-context/request-context';
+import { ApiError } from './api-error';
+import { ERROR_CATALOGUE, ErrorCode, errorCodeForStatus } from './error-catalogue';
+
+interface ResolvedError {
+  status: number;
+  message: string;
+  error: ApiErrorData;
+}
+
+/**
+ * Turns every exception thrown by a route into the error envelope:
+ * PaymentApiResponse with success false, a catalogue code, retryability
+ * and the request ID. The original exception and its cause are only logged.
+ */
+@Catch()
+export class ApiExceptionFilter implements ExceptionFilter {
+  private readonly logger = new Logger(ApiExceptionFilter.name);
+
+  catch(exception: unknown, host: ArgumentsHost): void {
+    const context = host.switchToHttp();
+    const request = context.getRequest<Request>();
+    const response = context.getResponse<Response>();
+    const { status, message, error } = ApiExceptionFilter.resolve(exception);
+
+    const logContext = {
+      code: error.code,
+      status,
+      method: request.method,
+      path: request.originalUrl,
+      error: exception,
+      cause: exception instanceof Error ? exception.cause : undefined,
+    };
+
+    if (status >= 500) {
+      this.logger.error(`Request failed: ${message}`, logContext);
+    } else {
+      this.logger.warn(`Request rejected: ${message}`, logContext);
+    }
+
+    // A streamed response (e.g. an export) cannot be replaced by an error body
+    if (response.headersSent) {
+      response.destroy();
+      return;
+    }
+
+    const body: PaymentApiResponse<never> = {
+      success: false,
+      message,
+      error,
+      timestamp: new Date().toISOString(),
+      requestId: RequestContext.getRequestId(),
+    };
+
+    response.status(status).json(body);
+  }
+
+  /**
+   * Maps an exception to its HTTP status, client-safe message and catalogue
+   * entry. Messages of unexpected errors are never passed through.
+   */
+  static resolve(exception: unknown): ResolvedError {
+    if (exception instanceof ApiError) {
+      return {
+        status: exception.getStatus(),
+        message: exception.message,
+        error: { code: exception.code, retryable: exception.retryable, details: exception.details },
+      };
+    }
+
+    if (exception instanceof HttpException) {
+      const status = exception.getStatus();
+      const body = exception.getResponse();
+      // ValidationPipe reports its constraint messages as an array
+      const validationMessages = typeof body === 'object' && body !== null && 'message' in body && Array.isArray(body.message)
+        ? (body.message as string[])
+        : null;
+
+      const code = validationMessages ? ErrorCode.VALIDATION_FAILED : errorCodeForStatus(status);
+      const definition = ERROR_CATALOGUE[code];
+
+      return {
+        status,
+        // Messages of 4xx exceptions are written for clients; 5xx ones may carry internals
+        message: status < 500 && !validationMessages ? exception.message : definition.message,
+        error: {
+          code,
+          retryable: definition.retryable,
+          details: validationMessages ?? undefined,
+        },
+      };
+    }
+
+    const definition = ERROR_CATALOGUE[ErrorCode.INTERNAL_ERROR];
+    return {
+      status: definition.status,
+      message: definition.message,
+      error: { code: ErrorCode.INTERNAL_ERROR, retryable: definition.retryable },
+    };
+  }
+}
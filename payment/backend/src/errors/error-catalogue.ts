@@ -0,0 +1,165 @@
+import { HttpStatus } from '@nestjs/common';
+
+/**
+ * Stable error codes returned in the error envelope. Clients branch on these,
+ * so existing codes are never renamed or given a different meaning.
+ */
+export enum ErrorCode {
+  VALIDATION_FAILED = 'VALIDATION_FAILED',
+  BAD_REQUEST = 'BAD_REQUEST',
+  UNAUTHORIZED = 'UNAUTHORIZED',
+  FORBIDDEN = 'FORBIDDEN',
+  NOT_FOUND = 'NOT_FOUND',
+  CONFLICT = 'CONFLICT',
+  RATE_LIMITED = 'RATE_LIMITED',
+  PAYMENT_NOT_FOUND = 'PAYMENT_NOT_FOUND',
+  INVALID_PAYMENT_STATE = 'INVALID_PAYMENT_STATE',
+  REFUND_EXCEEDS_AVAILABLE = 'REFUND_EXCEEDS_AVAILABLE',
+  INVALID_AMOUNT = 'INVALID_AMOUNT',
+  CURRENCY_NOT_ALLOWED = 'CURRENCY_NOT_ALLOWED',
+  GATEWAY_DECLINED = 'GATEWAY_DECLINED',
+  HASH_MISMATCH = 'HASH_MISMATCH',
+  GATEWAY_TIMEOUT = 'GATEWAY_TIMEOUT',
+  GATEWAY_UNAVAILABLE = 'GATEWAY_UNAVAILABLE',
+  GATEWAY_INVALID_RESPONSE = 'GATEWAY_INVALID_RESPONSE',
+  GATEWAY_CIRCUIT_OPEN = 'GATEWAY_CIRCUIT_OPEN',
+  SERVICE_UNAVAILABLE = 'SERVICE_UNAVAILABLE',
+  INTERNAL_ERROR = 'INTERNAL_ERROR',
+}
+
+export interface ErrorDefinition {
+  status: HttpStatus;
+  /** Whether repeating the same request may succeed */
+  retryable: boolean;
+  /** Message that is safe to show to API clients */
+  message: string;
+}
+
+export const ERROR_CATALOGUE: Record<ErrorCode, ErrorDefinition> = {
+  [ErrorCode.VALIDATION_FAILED]: {
+    status: HttpStatus.BAD_REQUEST,
+    retryable: false,
+    message: 'Request validation failed',
+  },
+  [ErrorCode.BAD_REQUEST]: {
+    status: HttpStatus.BAD_REQUEST,
+    retryable: false,
+    message: 'The request is invalid',
+  },
+  [ErrorCode.UNAUTHORIZED]: {
+    status: HttpStatus.UNAUTHORIZED,
+    retryable: false,
+    message: 'Authentication required',
+  },
+  [ErrorCode.FORBIDDEN]: {
+    status: HttpStatus.FORBIDDEN,
+    retryable: false,
+    message: 'Operation not allowed for this API key',
+  },
+  [ErrorCode.NOT_FOUND]: {
+    status: HttpStatus.NOT_FOUND,
+    retryable: false,
+    message: 'Resource not found',
+  },
+  [ErrorCode.CONFLICT]: {
+    status: HttpStatus.CONFLICT,
+    retryable: false,
+    message: 'The request conflicts with the current state of the resource',
+  },
+  [ErrorCode.RATE_LIMITED]: {
+    status: HttpStatus.TOO_MANY_REQUESTS,
+    retryable: true,
+    message: 'Too many requests',
+  },
+  [ErrorCode.PAYMENT_NOT_FOUND]: {
+    status: HttpStatus.NOT_FOUND,
+    retryable: false,
+    message: 'Payment not found',
+  },
+  [ErrorCode.INVALID_PAYMENT_STATE]: {
+    status: HttpStatus.BAD_REQUEST,
+    retryable: false,
+    message: 'The payment does not allow this operation in its current status',
+  },
+  [ErrorCode.REFUND_EXCEEDS_AVAILABLE]: {
+    status: HttpStatus.BAD_REQUEST,
+    retryable: false,
+    message: 'Refund amount exceeds the amount available for refund',
+  },
+  [ErrorCode.INVALID_AMOUNT]: {
+    status: HttpStatus.BAD_REQUEST,
+    retryable: false,
+    message: 'The amount is not valid for its currency',
+  },
+  [ErrorCode.CURRENCY_NOT_ALLOWED]: {
+    status: HttpStatus.BAD_REQUEST,
+    retryable: false,
+    message: 'The currency is not enabled for this merchant',
+  },
+  [ErrorCode.GATEWAY_DECLINED]: {
+    status: HttpStatus.BAD_REQUEST,
+    retryable: false,
+    message: 'The payment gateway declined the operation',
+  },
+  [ErrorCode.HASH_MISMATCH]: {
+    status: HttpStatus.BAD_REQUEST,
+    retryable: false,
+    message: 'Secure hash verification failed',
+  },
+  [ErrorCode.GATEWAY_TIMEOUT]: {
+    status: HttpStatus.GATEWAY_TIMEOUT,
+    retryable: true,
+    message: 'The payment gateway did not respond in time',
+  },
+  [ErrorCode.GATEWAY_UNAVAILABLE]: {
+    status: HttpStatus.SERVICE_UNAVAILABLE,
+    retryable: true,
+    message: 'The payment gateway is unavailable',
+  },
+  [ErrorCode.GATEWAY_INVALID_RESPONSE]: {
+    status: HttpStatus.BAD_GATEWAY,
+    retryable: true,
+    message: 'The payment gateway returned an invalid response',
+  },
+  [ErrorCode.GATEWAY_CIRCUIT_OPEN]: {
+    status: HttpStatus.SERVICE_UNAVAILABLE,
+    retryable: true,
+    message: 'The payment gateway is failing; requests are paused briefly',
+  },
+  [ErrorCode.SERVICE_UNAVAILABLE]: {
+    status: HttpStatus.SERVICE_UNAVAILABLE,
+    retryable: true,
+    message: 'The service is temporarily unavailable',
+  },
+  [ErrorCode.INTERNAL_ERROR]: {
+    status: HttpStatus.INTERNAL_SERVER_ERROR,
+    retryable: false,
+    message: 'An unexpected error occurred',
+  },
+};
+
+/**
+ * Code used for Nest HTTP exceptions that were not raised as an ApiError
+ */
+export function errorCodeForStatus(status: number): ErrorCode {
+  switch (status) {
+    case HttpStatus.BAD_REQUEST:
+      return ErrorCode.BAD_REQUEST;
+    case HttpStatus.UNAUTHORIZED:
+      return ErrorCode.UNAUTHORIZED;
+    case HttpStatus.FORBIDDEN:
+      return ErrorCode.FORBIDDEN;
+    case HttpStatus.NOT_FOUND:
+      return ErrorCode.NOT_FOUND;
+    case HttpStatus.CONFLICT:
+      return ErrorCode.CONFLICT;
+    case HttpStatus.TOO_MANY_REQUESTS:
+      return ErrorCode.RATE_LIMITED;
+    case HttpStatus.GATEWAY_TIMEOUT:
+      return ErrorCode.GATEWAY_TIMEOUT;
+    case HttpStatus.SERVICE_UNAVAILABLE:
+      return ErrorCode.SERVICE_UNAVAILABLE;
+    default:
+      return status < 500 ? ErrorCode.BAD_REQUEST : ErrorCode.INTERNAL_ERROR;
+  }
+}
@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { APP_FILTER } from '@nestjs/core';
+import { ApiExceptionFilter } from './api-exception.filter';
+
+/**
+ * Installs ApiExceptionFilter for every route
+ */
+@Module({
+  providers: [
+    {
+      provide: APP_FILTER,
+      useClass: ApiExceptionFilter,
+    },
+  ],
+})
+export class ErrorsModule {}
@@ -0,0 +1,58 @@
+import { applyDecorators, HttpStatus } from '@nestjs/common';
+import { ApiOperation, ApiProduces, ApiResponse } from '@nestjs/swagger';
+
+export function LivenessCheckDocs() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Liveness probe',
+      description: 'Returns 200 while the process is able to serve requests. Dependencies are not checked.',
+    }),
+    ApiProduces('application/json'),
+    ApiResponse({
+      status: HttpStatus.OK,
+      description: 'Process is alive',
+      schema: {
+        example: {
+          status: "healthy",
+          service: "MIGS Payment Gateway",
+          timestamp: "2024-01-15T10:55:00.000Z",
+          version: "1.0.0",
+          environment: "production"
+        }
+      }
+    })
+  );
+}
+
+export function ReadinessCheckDocs() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Readiness probe',
+      description: 'Checks the database, Redis, the gateway circuit breaker and optionally gateway reachability, reporting status and latency per component. An unreachable gateway or open circuit reports "degraded" but stays ready.',
+    }),
+    ApiProduces('application/json'),
+    ApiResponse({
+      status: HttpStatus.OK,
+      description: 'Service is ready to take traffic',
+      schema: {
+        example: {
+          status: "healthy",
+          service: "MIGS Payment Gateway",
+          timestamp: "2024-01-15T10:55:00.000Z",
+          version: "1.0.0",
+          environment: "production",
+          components: {
+            database: { status: "up", latencyMs: 3 },
+            redis: { status: "up", latencyMs: 1 },
+            gateway: { status: "up", latencyMs: 42 },
+            gatewayCircuit: { status: "up", details: { state: "closed", consecutiveFailures: 0 } }
+          }
+        }
+      }
+    }),
+    ApiResponse({
+      status: HttpStatus.SERVICE_UNAVAILABLE,
+      description: 'Database or Redis is unavailable',
+    })
+  );
+}
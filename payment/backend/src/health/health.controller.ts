@@ -0,0 +1,56 @@
+import { Controller, Get } from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+
+import { HealthService } from './health.service';
+import { HealthCheckResponse } from '../payment/interfaces/payment.interface';
+import { LivenessCheckDocs, ReadinessCheckDocs } from './decorators/health.decorator';
+import { Public } from '../auth/decorators/auth.decorator';
+import { ApiError } from '../errors/api-error';
+import { ErrorCode } from '../errors/error-catalogue';
+
+/**
+ * HealthController
+ * 
+ * Liveness and readiness probes for the orchestrator.
+ */
+@ApiTags('Health')
+@Public()
+@Controller('health')
+export class HealthController {
+  constructor(private readonly healthService: HealthService) {}
+
+  /**
+   * Liveness probe
+   * 
+   * Answers as long as the process can serve requests; never checks
+   * dependencies so that an outage of Postgres or Redis does not get the
+   * instance restarted.
+   * 
+   * @returns Liveness status
+   */
+  @Get('live')
+  @LivenessCheckDocs()
+  live(): HealthCheckResponse {
+    return this.healthService.checkLiveness();
+  }
+
+  /**
+   * Readiness probe
+   * 
+   * Responds 503 with the per-component result in error.details when a
+   * required dependency is down, so the instance is taken out of rotation.
+   * 
+   * @returns Promise resolving to per-component readiness
+   */
+  @Get('ready')
+  @ReadinessCheckDocs()
+  async ready(): Promise<HealthCheckResponse> {
+    const result = await this.healthService.checkReadiness();
+
+    if (result.status === 'unhealthy') {
+      throw new ApiError(ErrorCode.SERVICE_UNAVAILABLE, { details: result });
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { HealthController } from './health.controller';
+import { HealthService } from './health.service';
+
+/**
+ * Liveness and readiness endpoints. The Redis check uses the payment status
+ * sync queue and the circuit check the MigsGatewayClient registered by
+ * PaymentModule. HealthService is exported for the legacy
+ * /api/payments/health endpoint.
+ */
+@Module({
+  imports: [ConfigModule],
+  controllers: [HealthController],
+  providers: [HealthService],
+  exports: [HealthService],
+})
+export class HealthModule {}
@@ -0,0 +1,177 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ModuleRef } from '@nestjs/core';
+import { getQueueToken } from '@nestjs/bull';
+import { Sequelize } from 'sequelize-typescript';
+import { Queue } from 'bull';
+import { promises as dns } from 'dns';
+import * as net from 'net';
+import { HealthCheckResponse, HealthComponentStatus } from '../payment/interfaces/payment.interface';
+import { MigsGatewayClient } from '../payment/migs-gateway.client';
+import { CircuitState } from '../payment/utils/circuit-breaker.util';
+
+/**
+ * HealthService
+ * 
+ * Liveness only says the process answers; readiness checks the database,
+ * Redis (through the payment status sync queue), the gateway client's
+ * circuit breaker and, when enabled, that the MIGS gateway host resolves
+ * and accepts TCP connections.
+ */
+@Injectable()
+export class HealthService {
+  private readonly logger = new Logger(HealthService.name);
+  private readonly timeoutMs: number;
+  private readonly gatewayProbe: boolean;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly sequelize: Sequelize,
+    private readonly moduleRef: ModuleRef,
+  ) {
+    this.timeoutMs = this.configService.get<number>('health.timeoutMs') || 2000;
+    this.gatewayProbe = this.configService.get<boolean>('health.gatewayProbe') ?? false;
+  }
+
+  /**
+   * Builds the liveness response
+   */
+  checkLiveness(): HealthCheckResponse {
+    return this.buildResponse('healthy');
+  }
+
+  /**
+   * Checks every dependency the service needs to take traffic
+   * 
+   * The service is unhealthy when the database or Redis is down. An
+   * unreachable gateway or an open circuit breaker only degrades it, since
+   * every instance would fail alike and taking them all out of rotation
+   * helps nobody.
+   * 
+   * @returns Promise resolving to per-component readiness
+   */
+  async checkReadiness(): Promise<HealthCheckResponse> {
+    const [database, redis, gateway] = await Promise.all([
+      this.runCheck(() => this.sequelize.authenticate()),
+      this.runCheck(() => this.pingRedis()),
+      this.gatewayProbe
+        ? this.runCheck(() => this.probeGateway())
+        : Promise.resolve<HealthComponentStatus>({ status: 'skipped' }),
+    ]);
+    const gatewayCircuit = this.checkGatewayCircuit();
+
+    const status = database.status === 'down' || redis.status === 'down'
+      ? 'unhealthy'
+      : gateway.status === 'down' || gatewayCircuit.status === 'down' ? 'degraded' : 'healthy';
+
+    if (status !== 'healthy') {
+      this.logger.warn('Readiness check failed', {
+        status,
+        database: database.error,
+        redis: redis.error,
+        gateway: gateway.error,
+        gatewayCircuit: gatewayCircuit.details?.state,
+      });
+    }
+
+    return this.buildResponse(status, { database, redis, gateway, gatewayCircuit });
+  }
+
+  private buildResponse(
+    status: string,
+    components?: Record<string, HealthComponentStatus>
+  ): HealthCheckResponse {
+    return {
+      status,
+      service: 'MIGS Payment Gateway',
+      timestamp: new Date().toISOString(),
+      version: process.env.APP_VERSION || '1.0.0',
+      environment: process.env.NODE_ENV || 'development',
+      components,
+    };
+  }
+
+  /**
+   * Runs one check under the configured timeout and measures its latency
+   * 
+   * @private
+   * @param check - Check that rejects when the component is unavailable
+   */
+  private async runCheck(check: () => Promise<unknown>): Promise<HealthComponentStatus> {
+    const startedAt = Date.now();
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+      await Promise.race([
+        check(),
+        new Promise((_, reject) => {
+          timer = setTimeout(() => reject(new Error(`Timed out after ${this.timeoutMs}ms`)), this.timeoutMs);
+        }),
+      ]);
+
+      return { status: 'up', latencyMs: Date.now() - startedAt };
+    } catch (error) {
+      return { status: 'down', latencyMs: Date.now() - startedAt, error: error.message };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Reports the gateway client's circuit breaker; an open circuit counts
+   * as down, a half-open one as up since it is already letting a trial
+   * request through
+   * 
+   * @private
+   */
+  private checkGatewayCircuit(): HealthComponentStatus {
+    const client = this.moduleRef.get(MigsGatewayClient, { strict: false });
+    const circuit = client.getCircuitState();
+
+    return {
+      status: circuit.state === CircuitState.OPEN ? 'down' : 'up',
+      details: circuit,
+    };
+  }
+
+  private async pingRedis(): Promise<void> {
+    const queue = this.moduleRef.get<Queue>(getQueueToken('payment-status-sync'), { strict: false });
+    await queue.client.ping();
+  }
+
+  /**
+   * Resolves the gateway host and opens (then closes) a TCP connection;
+   * no request is sent to the gateway
+   * 
+   * @private
+   */
+  private async probeGateway(): Promise<void> {
+    const gatewayUrl = this.configService.get<string>('MIGS_GATEWAY_QUERY_URL')
+      || this.configService.get<string>('MIGS_GATEWAY_URL');
+
+    if (!gatewayUrl) {
+      throw new Error('Gateway URL is not configured');
+    }
+
+    const url = new URL(gatewayUrl);
+    const port = Number(url.port) || (url.protocol === 'http:' ? 80 : 443);
+    const { address } = await dns.lookup(url.hostname);
+
+    await new Promise<void>((resolve, reject) => {
+      const socket = net.connect({ host: address, port });
+      socket.setTimeout(this.timeoutMs);
+      socket.once('connect', () => {
+        socket.end();
+        resolve();
+      });
+      socket.once('timeout', () => {
+        socket.destroy();
+        reject(new Error(`TCP connection to ${url.hostname}:${port} timed out`));
+      });
+      socket.once('error', (error) => {
+        socket.destroy();
+        reject(error);
+      });
+    });
+  }
+}
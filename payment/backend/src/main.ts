@@ -1,11 +1,15 @@
 import { NestFactory } from '@nestjs/core';
-import { ValidationPipe } from '@nestjs/common';
+import { Logger, ValidationPipe } from '@nestjs/common';
 import { createBullBoard } from '@bull-board/api';
 import { BullAdapter } from '@bull-board/api/bullAdapter';
 import { ExpressAdapter } from '@bull-board/express';
 import { Queue } from 'bull';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
+import { ConfigService } from '@nestjs/config';
 import { AppModule } from './app.module';
+import { ApiClientService } from './auth/api-client.service';
+import { bullBoardAuth } from './auth/bull-board-auth.middleware';
+import { RedactingLogger } from './redaction/redacting-logger.service';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -16,19 +20,27 @@ async function bootstrap() {
     cert: fs.readFileSync(path.join(__dirname, '..', 'cert', 'cert.pem')),
   };
 
-  const app = await NestFactory.create(AppModule, { httpsOptions });
+  // rawBody keeps the request body as sent, for signed requests. Logs are
+  // buffered until the redacting logger is in place.
+  const app = await NestFactory.create(AppModule, { httpsOptions, rawBody: true, bufferLogs: true });
+  app.useLogger(app.get(RedactingLogger));
 
   const paymentStatusQueue = app.get<Queue>('BullQueue_payment-status-sync');
+  const merchantWebhooksQueue = app.get<Queue>('BullQueue_merchant-webhooks');
 
   const serverAdapter = new ExpressAdapter();
   serverAdapter.setBasePath('/admin/queues');
 
   createBullBoard({
-    queues: [new BullAdapter(paymentStatusQueue)],
+    queues: [new BullAdapter(paymentStatusQueue), new BullAdapter(merchantWebhooksQueue)],
     serverAdapter,
   });
 
-  app.use('/admin/queues', serverAdapter.getRouter());
+  app.use(
+    '/admin/queues',
+    bullBoardAuth(app.get(ApiClientService), app.get(ConfigService)),
+    serverAdapter.getRouter()
+  );
 
   // Enable CORS
   app.enableCors({
@@ -43,6 +55,7 @@ async function bootstrap() {
     .setTitle('MIGS Payment Gateway API')
     .setDescription('Payment gateway integration with MIGS')
     .setVersion('1.0')
+    .addApiKey({ type: 'apiKey', name: 'X-API-Key', in: 'header' }, 'api-key')
     .build();
 
   const document = SwaggerModule.createDocument(app, config);
@@ -50,6 +63,6 @@ async function bootstrap() {
 
   const port = process.env.PORT || 3001;
   await app.listen(port);
-  console.log(`Backend running on https://localhost:${port}`);
+  new Logger('Bootstrap').log(`Backend running on https://localhost:${port}`);
 }
 bootstrap();
@@ -0,0 +1,24 @@
+import { Controller, Get, Res } from '@nestjs/common';
+import { ApiExcludeController } from '@nestjs/swagger';
+import { Response } from 'express';
+
+import { MetricsService } from './metrics.service';
+import { Public } from '../auth/decorators/auth.decorator';
+
+/**
+ * MetricsController
+ * 
+ * Prometheus scrape endpoint, served outside the payments API.
+ */
+@ApiExcludeController()
+@Public()
+@Controller('metrics')
+export class MetricsController {
+  constructor(private readonly metricsService: MetricsService) {}
+
+  @Get()
+  async getMetrics(@Res() res: Response): Promise<void> {
+    const metrics = await this.metricsService.getMetrics();
+    res.set('Content-Type', this.metricsService.contentType).send(metrics);
+  }
+}
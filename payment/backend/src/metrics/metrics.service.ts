@@ -0,0 +1,126 @@
+import { Injectable } from '@nestjs/common';
+import { Queue } from 'bull';
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+import { SyncJobResult } from '../payment/interfaces/payment.interface';
+
+const QUEUE_STATES = ['waiting', 'active', 'completed', 'failed', 'delayed', 'paused'] as const;
+
+/**
+ * MetricsService
+ * 
+ * Owns the Prometheus registry of the backend. Services record events
+ * through the methods below; queue gauges are read from Redis on scrape.
+ */
+@Injectable()
+export class MetricsService {
+  private readonly registry = new Registry();
+  private readonly queues = new Map<string, Queue>();
+
+  private readonly statusTransitions = new Counter({
+    name: 'migs_payment_status_transitions_total',
+    help: 'Payment status transitions by previous status, new status and source',
+    labelNames: ['from', 'to', 'source'],
+    registers: [this.registry],
+  });
+
+  private readonly gatewayRequestDuration = new Histogram({
+    name: 'migs_gateway_request_duration_seconds',
+    help: 'Latency of server-to-server MIGS requests by vpc_Command',
+    labelNames: ['command', 'outcome'],
+    buckets: [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+    registers: [this.registry],
+  });
+
+  private readonly hashVerificationFailures = new Counter({
+    name: 'migs_hash_verification_failures_total',
+    help: 'Gateway responses rejected because their secure hash did not verify',
+    labelNames: ['source'],
+    registers: [this.registry],
+  });
+
+  private readonly syncRuns = new Counter({
+    name: 'migs_status_sync_runs_total',
+    help: 'Completed payment status sync jobs',
+    registers: [this.registry],
+  });
+
+  private readonly syncTransactions = new Counter({
+    name: 'migs_status_sync_transactions_total',
+    help: 'Transactions handled by the payment status sync by result',
+    labelNames: ['result'],
+    registers: [this.registry],
+  });
+
+  private readonly syncDuration = new Histogram({
+    name: 'migs_status_sync_duration_seconds',
+    help: 'Processing time of payment status sync jobs',
+    buckets: [1, 5, 15, 30, 60, 120, 300],
+    registers: [this.registry],
+  });
+
+  constructor() {
+    collectDefaultMetrics({ register: this.registry });
+
+    const queues = this.queues;
+    new Gauge({
+      name: 'migs_queue_jobs',
+      help: 'Bull jobs per queue and state',
+      labelNames: ['queue', 'state'],
+      registers: [this.registry],
+      async collect() {
+        for (const [name, queue] of queues) {
+          const counts = await queue.getJobCounts();
+          const paused = await queue.getPausedCount();
+          const values = { ...counts, paused };
+
+          for (const state of QUEUE_STATES) {
+            this.set({ queue: name, state }, values[state] ?? 0);
+          }
+        }
+      },
+    });
+  }
+
+  get contentType(): string {
+    return this.registry.contentType;
+  }
+
+  /**
+   * Render every metric in Prometheus text format
+   */
+  async getMetrics(): Promise<string> {
+    return this.registry.metrics();
+  }
+
+  /**
+   * Include a Bull queue in the queue gauges
+   */
+  registerQueue(queue: Queue): void {
+    this.queues.set(queue.name, queue);
+  }
+
+  recordStatusTransition(from: string | null, to: string, source: string): void {
+    this.statusTransitions.inc({ from: from ?? 'none', to, source });
+  }
+
+  /**
+   * Start timing a gateway request; call the returned function with the
+   * outcome once the request has finished
+   */
+  startGatewayTimer(command: string | undefined): (outcome: 'success' | 'error') => void {
+    const end = this.gatewayRequestDuration.startTimer({ command: command || 'unknown' });
+    return (outcome) => end({ outcome });
+  }
+
+  recordHashVerificationFailure(source: string): void {
+    this.hashVerificationFailures.inc({ source });
+  }
+
+  recordSyncJobResult(result: SyncJobResult): void {
+    this.syncRuns.inc();
+    this.syncTransactions.inc({ result: 'updated' }, result.updatedCount);
+    this.syncTransactions.inc({ result: 'skipped' }, result.skippedCount);
+    this.syncTransactions.inc({ result: 'error' }, result.errorCount);
+    this.syncDuration.observe(result.processingTime / 1000);
+  }
+}
@@ -0,0 +1,46 @@
+import { IsString, IsOptional, IsEnum, IsInt, Min, Max, Matches } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export enum SimulatorScenario {
+  APPROVE = 'approve',
+  DECLINE = 'decline',
+  TIMEOUT = 'timeout',
+  BAD_HASH = 'bad_hash',
+  PARTIAL_REFUND = 'partial_refund',
+}
+
+export class SetSimulatorScenarioDto {
+  @ApiProperty({ description: 'Gateway behaviour to simulate', enum: SimulatorScenario })
+  @IsEnum(SimulatorScenario)
+  scenario: SimulatorScenario;
+
+  @ApiProperty({
+    description: 'Only apply to this vpc_MerchTxnRef (or the payment it refunds/captures); applies to every request when omitted',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  merchTxnRef?: string;
+
+  @ApiProperty({ description: 'vpc_TxnResponseCode returned by the decline scenario', required: false, default: '2' })
+  @IsOptional()
+  @IsString()
+  @Matches(/^[0-9A-Z]$/)
+  responseCode?: string;
+
+  @ApiProperty({ description: 'Delay before the timeout scenario answers, in milliseconds', required: false })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(300000)
+  delayMs?: number;
+
+  @ApiProperty({
+    description: 'Amount in minor units actually refunded by the partial_refund scenario; half of the request when omitted',
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  partialRefundAmount?: number;
+}
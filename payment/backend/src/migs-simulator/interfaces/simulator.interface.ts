@@ -0,0 +1,41 @@
+import { SimulatorScenario } from '../dto/simulator-scenario.dto';
+
+/**
+ * Simulator Scenario Config Interface
+ * Behaviour applied to the next hosted-page or Direct Payment request
+ */
+export interface SimulatorScenarioConfig {
+  scenario: SimulatorScenario;
+  responseCode?: string;
+  delayMs?: number;
+  partialRefundAmount?: number;
+}
+
+/**
+ * Simulated Transaction Interface
+ * Gateway-side ledger entry kept by the simulator; amounts are in minor units
+ */
+export interface SimulatedTransaction {
+  merchTxnRef: string;
+  merchant: string;
+  command: string;
+  transactionNo: string;
+  orderInfo: string;
+  amount: number;
+  capturedAmount: number;
+  refundedAmount: number;
+  responseCode: string;
+  message: string;
+  authorizeId: string;
+  receiptNo: string;
+  batchNo: string;
+}
+
+/**
+ * Hosted Payment Result Interface
+ * Where the simulated hosted page sends the cardholder, if anywhere
+ */
+export interface HostedPaymentResult {
+  redirectUrl: string | null;
+  error?: string;
+}
@@ -0,0 +1,112 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  Res,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ApiExcludeController } from '@nestjs/swagger';
+import { Response } from 'express';
+
+import { MigsSimulatorService } from './migs-simulator.service';
+import { SetSimulatorScenarioDto } from './dto/simulator-scenario.dto';
+import { PaymentApiResponse } from '../payment/interfaces/payment.interface';
+import { SimulatedTransaction, SimulatorScenarioConfig } from './interfaces/simulator.interface';
+import { Public } from '../auth/decorators/auth.decorator';
+
+/**
+ * MigsSimulatorController
+ * 
+ * Local replacements for the MIGS VPC endpoints. Point MIGS_GATEWAY_URL at
+ * /simulator/vpcpay and MIGS_GATEWAY_QUERY_URL at /simulator/vpcdps.
+ */
+@ApiExcludeController()
+@Public()
+@Controller('simulator')
+export class MigsSimulatorController {
+  constructor(private readonly simulatorService: MigsSimulatorService) {}
+
+  /**
+   * Hosted payment page - redirects the cardholder back with a signed response
+   */
+  @Get('vpcpay')
+  hostedPayment(
+    @Query() params: Record<string, string>,
+    @Res() res: Response
+  ): void {
+    const result = this.simulatorService.processHostedPayment(params);
+
+    if (result.error) {
+      res.status(HttpStatus.BAD_REQUEST).type('text/html').send(`<h1>Payment Server Error</h1><p>${result.error}</p>`);
+      return;
+    }
+
+    if (!result.redirectUrl) {
+      res.status(HttpStatus.OK).type('text/html').send('<h1>Waiting for cardholder</h1>');
+      return;
+    }
+
+    res.redirect(HttpStatus.FOUND, result.redirectUrl);
+  }
+
+  /**
+   * Direct Payment / AMA endpoint used by makeApiCall
+   */
+  @Post('vpcdps')
+  @HttpCode(HttpStatus.OK)
+  async directPayment(
+    @Body() params: Record<string, string>,
+    @Res() res: Response
+  ): Promise<void> {
+    const body = await this.simulatorService.processDirectRequest(params);
+    res.type('text/plain').send(body);
+  }
+
+  @Post('scenarios')
+  setScenario(
+    @Body(ValidationPipe) scenarioData: SetSimulatorScenarioDto
+  ): PaymentApiResponse<SimulatorScenarioConfig> {
+    return {
+      success: true,
+      data: this.simulatorService.setScenario(scenarioData),
+      message: 'Simulator scenario set',
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  @Delete('scenarios')
+  reset(): PaymentApiResponse<void> {
+    this.simulatorService.reset();
+
+    return {
+      success: true,
+      message: 'Simulator reset',
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  @Get('transactions/:merchTxnRef')
+  getTransaction(
+    @Param('merchTxnRef') merchTxnRef: string
+  ): PaymentApiResponse<SimulatedTransaction> {
+    const transaction = this.simulatorService.getTransaction(merchTxnRef);
+
+    if (!transaction) {
+      throw new NotFoundException(`Simulated transaction not found: ${merchTxnRef}`);
+    }
+
+    return {
+      success: true,
+      data: transaction,
+      message: 'Simulated transaction retrieved',
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
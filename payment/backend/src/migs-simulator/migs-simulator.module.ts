@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { MigsSimulatorController } from './migs-simulator.controller';
+import { MigsSimulatorService } from './migs-simulator.service';
+
+/**
+ * Local MIGS gateway simulator for development and e2e tests. Loaded by
+ * AppModule only when MIGS_SIMULATOR_ENABLED=true.
+ */
+@Module({
+  imports: [ConfigModule],
+  controllers: [MigsSimulatorController],
+  providers: [MigsSimulatorService],
+  exports: [MigsSimulatorService],
+})
+export class MigsSimulatorModule {}
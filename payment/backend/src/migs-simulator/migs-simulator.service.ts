@@ -0,0 +1,375 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+
+import { MigsHashUtil, VpcSecureHashType } from '../payment/utils/hash.util';
+import { SetSimulatorScenarioDto, SimulatorScenario } from './dto/simulator-scenario.dto';
+import {
+  HostedPaymentResult,
+  SimulatedTransaction,
+  SimulatorScenarioConfig,
+} from './interfaces/simulator.interface';
+
+const DEFAULT_DECLINE_CODE = '2';
+const DEFAULT_TIMEOUT_DELAY_MS = 35000;
+
+/**
+ * Messages MIGS returns for the response codes the simulator produces
+ */
+const RESPONSE_MESSAGES: Record<string, string> = {
+  '0': 'Approved',
+  '1': 'Unspecified Failure',
+  '2': 'Card Declined',
+  '3': 'Timed Out',
+  '4': 'Expired Card',
+  '5': 'Insufficient Funds',
+  '6': 'Error Communicating with Bank',
+  '7': 'Payment Server System Error',
+  'F': '3D Secure Authentication Failed',
+};
+
+/**
+ * MigsSimulatorService
+ * 
+ * In-memory stand-in for the MIGS Virtual Payment Client. Emulates the
+ * hosted payment page (MIGS_GATEWAY_URL) and the Direct Payment / AMA
+ * endpoint (MIGS_GATEWAY_QUERY_URL), signing every response with
+ * MigsHashUtil so PaymentService can be exercised end to end offline.
+ * Never enable it in production.
+ */
+@Injectable()
+export class MigsSimulatorService {
+  private readonly logger = new Logger(MigsSimulatorService.name);
+  private readonly hashType = VpcSecureHashType.SHA256;
+  private readonly secureSecret: string;
+  private readonly timeoutDelayMs: number;
+
+  private readonly transactions = new Map<string, SimulatedTransaction>();
+  private readonly scenarioOverrides = new Map<string, SimulatorScenarioConfig>();
+  private defaultScenario: SimulatorScenarioConfig = { scenario: SimulatorScenario.APPROVE };
+  private sequence = 0;
+
+  constructor(private readonly configService: ConfigService) {
+    this.secureSecret = this.configService.get<string>('MIGS_SIMULATOR_SECURE_SECRET')
+      || this.configService.get<string>('MIGS_SECURE_SECRET')!;
+    this.timeoutDelayMs = parseInt(
+      this.configService.get<string>('MIGS_SIMULATOR_TIMEOUT_DELAY_MS') || String(DEFAULT_TIMEOUT_DELAY_MS),
+      10
+    );
+
+    if (!this.secureSecret) {
+      throw new Error('MIGS simulator requires MIGS_SIMULATOR_SECURE_SECRET or MIGS_SECURE_SECRET');
+    }
+
+    this.logger.warn('MIGS gateway simulator is enabled - do not use in production');
+  }
+
+  /**
+   * Sets the scenario for every request, or for a single merchant transaction reference
+   * 
+   * @param scenarioData - Scenario and its options
+   */
+  setScenario(scenarioData: SetSimulatorScenarioDto): SimulatorScenarioConfig {
+    const { merchTxnRef, ...config } = scenarioData;
+
+    if (merchTxnRef) {
+      this.scenarioOverrides.set(merchTxnRef, config);
+    } else {
+      this.defaultScenario = config;
+    }
+
+    this.logger.log('Simulator scenario set', { merchTxnRef, ...config });
+
+    return config;
+  }
+
+  /**
+   * Restores the approve scenario and forgets all simulated transactions
+   */
+  reset(): void {
+    this.defaultScenario = { scenario: SimulatorScenario.APPROVE };
+    this.scenarioOverrides.clear();
+    this.transactions.clear();
+  }
+
+  /**
+   * Looks up a simulated transaction by merchant transaction reference
+   */
+  getTransaction(merchTxnRef: string): SimulatedTransaction | undefined {
+    return this.transactions.get(merchTxnRef);
+  }
+
+  /**
+   * Emulates the hosted payment page: the cardholder "pays" and is sent back
+   * to vpc_ReturnURL with a signed response. The timeout scenario leaves the
+   * cardholder on the page, so no callback is ever made.
+   * 
+   * @param params - vpc_* parameters from the payment URL
+   * @returns Redirect target, or null when the cardholder never returns
+   */
+  processHostedPayment(params: Record<string, string>): HostedPaymentResult {
+    if (!MigsHashUtil.verifySecureHash(params, this.secureSecret, this.hashType)) {
+      return { redirectUrl: null, error: 'Invalid vpc_SecureHash on payment request' };
+    }
+
+    const config = this.resolveScenario(params.vpc_MerchTxnRef);
+
+    if (config.scenario === SimulatorScenario.TIMEOUT) {
+      this.logger.log('Simulating abandoned hosted payment', { merchTxnRef: params.vpc_MerchTxnRef });
+      return { redirectUrl: null };
+    }
+
+    const responseCode = config.scenario === SimulatorScenario.DECLINE
+      ? config.responseCode || DEFAULT_DECLINE_CODE
+      : '0';
+    const approved = responseCode === '0';
+    const amount = parseInt(params.vpc_Amount, 10);
+
+    const transaction: SimulatedTransaction = {
+      merchTxnRef: params.vpc_MerchTxnRef,
+      merchant: params.vpc_Merchant,
+      command: params.vpc_Command,
+      transactionNo: this.nextTransactionNo(),
+      orderInfo: params.vpc_OrderInfo,
+      amount,
+      capturedAmount: approved && params.vpc_Command === 'pay' ? amount : 0,
+      refundedAmount: 0,
+      responseCode,
+      message: RESPONSE_MESSAGES[responseCode] || 'Transaction Declined',
+      authorizeId: approved ? this.randomDigits(6) : '',
+      receiptNo: this.randomDigits(12),
+      batchNo: new Date().toISOString().slice(0, 10).replace(/-/g, ''),
+    };
+    this.transactions.set(transaction.merchTxnRef, transaction);
+
+    const response = this.sign({
+      vpc_Version: '1',
+      vpc_Command: params.vpc_Command,
+      vpc_Locale: params.vpc_Locale || 'en',
+      vpc_Merchant: params.vpc_Merchant,
+      vpc_MerchTxnRef: transaction.merchTxnRef,
+      vpc_OrderInfo: transaction.orderInfo,
+      vpc_Amount: String(amount),
+      vpc_TxnResponseCode: responseCode,
+      vpc_Message: transaction.message,
+      vpc_TransactionNo: transaction.transactionNo,
+      vpc_ReceiptNo: transaction.receiptNo,
+      vpc_BatchNo: transaction.batchNo,
+      vpc_AuthorizeId: transaction.authorizeId,
+      vpc_AcqResponseCode: approved ? '00' : '05',
+      vpc_Card: 'MC',
+    }, config.scenario === SimulatorScenario.BAD_HASH);
+
+    const query = new URLSearchParams(response).toString();
+    const separator = params.vpc_ReturnURL.includes('?') ? '&' : '?';
+
+    return { redirectUrl: `${params.vpc_ReturnURL}${separator}${query}` };
+  }
+
+  /**
+   * Emulates the Direct Payment / AMA endpoint for queryDR, refund, capture
+   * and voidAuthorisation
+   * 
+   * @param params - Form fields posted by makeApiCall
+   * @returns Signed URL-encoded response body
+   */
+  async processDirectRequest(params: Record<string, string>): Promise<string> {
+    if (!MigsHashUtil.verifySecureHash(params, this.secureSecret, this.hashType)) {
+      return new URLSearchParams({
+        vpc_TxnResponseCode: '7',
+        vpc_Message: 'Invalid vpc_SecureHash on request',
+      }).toString();
+    }
+
+    const original = params.vpc_TransNo
+      ? [...this.transactions.values()].find((transaction) => transaction.transactionNo === params.vpc_TransNo)
+      : this.transactions.get(params.vpc_MerchTxnRef);
+    const config = this.resolveScenario(original?.merchTxnRef ?? params.vpc_MerchTxnRef);
+
+    if (config.scenario === SimulatorScenario.TIMEOUT) {
+      const delayMs = config.delayMs ?? this.timeoutDelayMs;
+      this.logger.log('Simulating gateway timeout', { command: params.vpc_Command, delayMs });
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+
+    let response: Record<string, string>;
+    switch (params.vpc_Command) {
+      case 'queryDR':
+        response = this.queryDR(params, original);
+        break;
+      case 'refund':
+        response = this.refund(params, original, config);
+        this.recordRefund(params, original, response);
+        break;
+      case 'capture':
+      case 'voidAuthorisation':
+        response = this.settleAuthorisation(params, original, config);
+        break;
+      default:
+        response = {
+          vpc_Command: params.vpc_Command,
+          vpc_TxnResponseCode: '7',
+          vpc_Message: `Unsupported command: ${params.vpc_Command}`,
+        };
+    }
+
+    return new URLSearchParams(
+      this.sign({ vpc_Version: '1', vpc_Merchant: params.vpc_Merchant, ...response }, config.scenario === SimulatorScenario.BAD_HASH)
+    ).toString();
+  }
+
+  private queryDR(params: Record<string, string>, transaction?: SimulatedTransaction): Record<string, string> {
+    if (!transaction) {
+      return {
+        vpc_Command: 'queryDR',
+        vpc_MerchTxnRef: params.vpc_MerchTxnRef,
+        vpc_DRExists: 'N',
+        vpc_FoundMultipleDRs: 'N',
+      };
+    }
+
+    return {
+      vpc_Command: 'queryDR',
+      vpc_DRExists: 'Y',
+      vpc_FoundMultipleDRs: 'N',
+      vpc_MerchTxnRef: transaction.merchTxnRef,
+      vpc_OrderInfo: transaction.orderInfo,
+      vpc_Amount: String(transaction.amount),
+      vpc_CapturedAmount: String(transaction.capturedAmount),
+      vpc_RefundedAmount: String(transaction.refundedAmount),
+      vpc_TxnResponseCode: transaction.responseCode,
+      vpc_Message: transaction.message,
+      vpc_TransactionNo: transaction.transactionNo,
+      vpc_ReceiptNo: transaction.receiptNo,
+      vpc_BatchNo: transaction.batchNo,
+      vpc_AuthorizeId: transaction.authorizeId,
+    };
+  }
+
+  private refund(
+    params: Record<string, string>,
+    transaction: SimulatedTransaction | undefined,
+    config: SimulatorScenarioConfig
+  ): Record<string, string> {
+    const requested = parseInt(params.vpc_Amount, 10);
+    const base = {
+      vpc_Command: 'refund',
+      vpc_MerchTxnRef: params.vpc_MerchTxnRef,
+      vpc_TransactionNo: this.nextTransactionNo(),
+    };
+
+    if (!transaction || transaction.capturedAmount === 0) {
+      return { ...base, vpc_Amount: String(requested), vpc_TxnResponseCode: '7', vpc_Message: 'No captured transaction to refund' };
+    }
+
+    if (config.scenario === SimulatorScenario.DECLINE) {
+      const responseCode = config.responseCode || DEFAULT_DECLINE_CODE;
+      return { ...base, vpc_Amount: String(requested), vpc_TxnResponseCode: responseCode, vpc_Message: RESPONSE_MESSAGES[responseCode] || 'Refund Declined' };
+    }
+
+    const available = transaction.capturedAmount - transaction.refundedAmount;
+    if (requested > available) {
+      return { ...base, vpc_Amount: String(requested), vpc_TxnResponseCode: '2', vpc_Message: 'Refund amount exceeds the available balance' };
+    }
+
+    const refunded = config.scenario === SimulatorScenario.PARTIAL_REFUND
+      ? Math.min(requested, config.partialRefundAmount ?? Math.floor(requested / 2))
+      : requested;
+    transaction.refundedAmount += refunded;
+
+    return {
+      ...base,
+      vpc_Amount: String(refunded),
+      vpc_RefundedAmount: String(transaction.refundedAmount),
+      vpc_TxnResponseCode: '0',
+      vpc_Message: 'Approved',
+      vpc_ReceiptNo: this.randomDigits(12),
+      vpc_BatchNo: transaction.batchNo,
+    };
+  }
+
+  /**
+   * Keeps the refund's result as a DR of its own, so that a queryDR on the
+   * refund's vpc_MerchTxnRef finds it like on the real gateway
+   */
+  private recordRefund(
+    params: Record<string, string>,
+    transaction: SimulatedTransaction | undefined,
+    response: Record<string, string>
+  ): void {
+    const approved = response.vpc_TxnResponseCode === '0';
+
+    this.transactions.set(params.vpc_MerchTxnRef, {
+      merchTxnRef: params.vpc_MerchTxnRef,
+      merchant: params.vpc_Merchant,
+      command: 'refund',
+      transactionNo: response.vpc_TransactionNo,
+      orderInfo: transaction?.orderInfo ?? '',
+      amount: parseInt(response.vpc_Amount, 10),
+      capturedAmount: 0,
+      refundedAmount: approved ? parseInt(response.vpc_Amount, 10) : 0,
+      responseCode: response.vpc_TxnResponseCode,
+      message: response.vpc_Message,
+      authorizeId: '',
+      receiptNo: response.vpc_ReceiptNo ?? '',
+      batchNo: response.vpc_BatchNo ?? '',
+    });
+  }
+
+  private settleAuthorisation(
+    params: Record<string, string>,
+    transaction: SimulatedTransaction | undefined,
+    config: SimulatorScenarioConfig
+  ): Record<string, string> {
+    const base = {
+      vpc_Command: params.vpc_Command,
+      vpc_MerchTxnRef: params.vpc_MerchTxnRef,
+      vpc_Amount: params.vpc_Amount,
+      vpc_TransactionNo: this.nextTransactionNo(),
+    };
+
+    if (!transaction || transaction.command !== 'authorise' || transaction.capturedAmount > 0) {
+      return { ...base, vpc_TxnResponseCode: '7', vpc_Message: 'No open authorisation for this transaction' };
+    }
+
+    if (config.scenario === SimulatorScenario.DECLINE) {
+      const responseCode = config.responseCode || DEFAULT_DECLINE_CODE;
+      return { ...base, vpc_TxnResponseCode: responseCode, vpc_Message: RESPONSE_MESSAGES[responseCode] || 'Declined' };
+    }
+
+    if (params.vpc_Command === 'capture') {
+      transaction.capturedAmount = parseInt(params.vpc_Amount, 10);
+    } else {
+      transaction.responseCode = '0';
+      transaction.message = 'Authorisation voided';
+    }
+
+    return { ...base, vpc_TxnResponseCode: '0', vpc_Message: 'Approved' };
+  }
+
+  /**
+   * Adds vpc_SecureHash; the bad_hash scenario signs with a random secret instead
+   */
+  private sign(response: Record<string, string>, corrupt: boolean): Record<string, string> {
+    const secret = corrupt ? crypto.randomBytes(16).toString('hex') : this.secureSecret;
+
+    return {
+      ...response,
+      vpc_SecureHash: MigsHashUtil.generateSecureHash(response, secret, this.hashType),
+      vpc_SecureHashType: this.hashType,
+    };
+  }
+
+  private resolveScenario(merchTxnRef?: string): SimulatorScenarioConfig {
+    return (merchTxnRef && this.scenarioOverrides.get(merchTxnRef)) || this.defaultScenario;
+  }
+
+  private nextTransactionNo(): string {
+    this.sequence += 1;
+    return String(1000000 + this.sequence);
+  }
+
+  private randomDigits(length: number): string {
+    return Array.from({ length }, () => crypto.randomInt(0, 10)).join('');
+  }
+}
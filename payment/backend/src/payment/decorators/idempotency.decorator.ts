@@ -0,0 +1,20 @@
+import { applyDecorators, SetMetadata, UseInterceptors } from '@nestjs/common';
+import { ApiConflictResponse, ApiHeader } from '@nestjs/swagger';
+import { IdempotencyScope } from '../models/idempotency-key.model';
+import { IDEMPOTENCY_SCOPE_KEY, IdempotencyInterceptor } from '../interceptors/idempotency.interceptor';
+import { IDEMPOTENCY_KEY_HEADER } from '../idempotency.service';
+
+export function Idempotent(scope: IdempotencyScope) {
+  return applyDecorators(
+    SetMetadata(IDEMPOTENCY_SCOPE_KEY, scope),
+    UseInterceptors(IdempotencyInterceptor),
+    ApiHeader({
+      name: IDEMPOTENCY_KEY_HEADER,
+      description: 'Unique key for safely retrying this request. A retry with the same key replays the original response, or the original error if the request failed after it may have reached the gateway.',
+      required: false,
+    }),
+    ApiConflictResponse({
+      description: 'Idempotency-Key reused with a different request body, or the original request is still in flight',
+    }),
+  );
+}
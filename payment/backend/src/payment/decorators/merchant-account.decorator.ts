@@ -0,0 +1,162 @@
+import { applyDecorators, HttpStatus } from '@nestjs/common';
+import { ApiBody, ApiConsumes, ApiOperation, ApiParam, ApiProduces, ApiResponse } from '@nestjs/swagger';
+import { CreateMerchantAccountDto, RotateMerchantSecretDto, UpdateMerchantAccountDto } from '../dto/merchant-account.dto';
+
+const merchantAccountIdParam = ApiParam({
+  name: 'merchantAccountId',
+  description: 'Unique identifier of the merchant account',
+  type: String,
+  example: '2b9c4d1e-6f7a-4b8c-9d0e-1f2a3b4c5d6e',
+});
+
+const merchantAccountNotFound = ApiResponse({
+  status: HttpStatus.NOT_FOUND,
+  description: 'Merchant account not found',
+});
+
+const merchantAccountExample = {
+  merchantAccountId: "2b9c4d1e-6f7a-4b8c-9d0e-1f2a3b4c5d6e",
+  code: "brand-a",
+  name: "Brand A",
+  merchantId: "TESTBRANDA01",
+  currency: "AED",
+  allowedCurrencies: ["AED", "USD"],
+  returnUrl: "https://brand-a.example.com/api/payments/callback",
+  isActive: true,
+  createdAt: "2024-01-15T10:00:00.000Z"
+};
+
+export function CreateMerchantAccountDocs() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Register a merchant account',
+      description: 'Stores the MIGS credentials, default and allowed currencies and return URL of a brand. Payments select it with merchantCode.',
+    }),
+    ApiConsumes('application/json'),
+    ApiProduces('application/json'),
+    ApiBody({ type: CreateMerchantAccountDto }),
+    ApiResponse({
+      status: HttpStatus.CREATED,
+      description: 'Merchant account registered successfully',
+      schema: {
+        example: {
+          success: true,
+          data: merchantAccountExample,
+          message: "Merchant account registered successfully",
+          timestamp: "2024-01-15T10:00:00.000Z"
+        }
+      }
+    }),
+    ApiResponse({
+      status: HttpStatus.BAD_REQUEST,
+      description: 'Invalid merchant account data',
+    }),
+    ApiResponse({
+      status: HttpStatus.CONFLICT,
+      description: 'Merchant code already in use',
+    }),
+  );
+}
+
+export function ListMerchantAccountsDocs() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'List merchant accounts',
+      description: 'Returns all merchant accounts without their access codes or secure secrets.',
+    }),
+    ApiProduces('application/json'),
+    ApiResponse({
+      status: HttpStatus.OK,
+      description: 'Merchant accounts retrieved successfully',
+    }),
+  );
+}
+
+export function GetMerchantAccountDocs() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Get a merchant account',
+      description: 'Returns a merchant account without its access code or secure secret.',
+    }),
+    ApiProduces('application/json'),
+    merchantAccountIdParam,
+    ApiResponse({
+      status: HttpStatus.OK,
+      description: 'Merchant account retrieved successfully',
+    }),
+    merchantAccountNotFound,
+  );
+}
+
+export function UpdateMerchantAccountDocs() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Update a merchant account',
+      description: 'Updates credentials, defaults or the active flag. Inactive merchants cannot be used for new payments; existing payments keep working. The secure secret is changed through a secret rotation.',
+    }),
+    ApiConsumes('application/json'),
+    ApiProduces('application/json'),
+    merchantAccountIdParam,
+    ApiBody({ type: UpdateMerchantAccountDto }),
+    ApiResponse({
+      status: HttpStatus.OK,
+      description: 'Merchant account updated successfully',
+    }),
+    merchantAccountNotFound,
+  );
+}
+
+export function RotateMerchantSecretDocs() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Rotate the secure secret',
+      description: 'Stores a new encrypted secure secret. Callbacks signed with the previous secret keep verifying until the rotation window ends. Every rotation is recorded in the audit log.',
+    }),
+    ApiConsumes('application/json'),
+    ApiProduces('application/json'),
+    merchantAccountIdParam,
+    ApiBody({ type: RotateMerchantSecretDto }),
+    ApiResponse({
+      status: HttpStatus.CREATED,
+      description: 'Secure secret rotated successfully',
+      schema: {
+        example: {
+          success: true,
+          data: {
+            rotationId: "8e7d6c5b-4a39-4281-9f0e-d1c2b3a49586",
+            merchantAccountId: "2b9c4d1e-6f7a-4b8c-9d0e-1f2a3b4c5d6e",
+            previousSecretFingerprint: "3f9a1c0b7d2e",
+            newSecretFingerprint: "a61e5d0c94b8",
+            previousSecretExpiresAt: "2024-01-16T10:00:00.000Z",
+            rotatedBy: "7c1e2f3a-4b5c-4d6e-8f90-a1b2c3d4e5f6",
+            reason: "Scheduled quarterly rotation",
+            createdAt: "2024-01-15T10:00:00.000Z"
+          },
+          message: "Secure secret rotated successfully",
+          timestamp: "2024-01-15T10:00:00.000Z"
+        }
+      }
+    }),
+    ApiResponse({
+      status: HttpStatus.BAD_REQUEST,
+      description: 'Invalid secret or secret unchanged',
+    }),
+    merchantAccountNotFound,
+  );
+}
+
+export function ListSecretRotationsDocs() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'List secret rotations',
+      description: 'Returns the secret rotation audit log of a merchant account. Secrets are identified by fingerprint only.',
+    }),
+    ApiProduces('application/json'),
+    merchantAccountIdParam,
+    ApiResponse({
+      status: HttpStatus.OK,
+      description: 'Secret rotations retrieved successfully',
+    }),
+    merchantAccountNotFound,
+  );
+}
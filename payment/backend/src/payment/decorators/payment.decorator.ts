@@ -1,7 +1,7 @@
 // payment-swagger.decorator.ts
-import { applyDecorators, Header, HttpStatus } from '@nestjs/common';
+import { applyDecorators, Header, HttpCode, HttpStatus } from '@nestjs/common';
 import { ApiOperation, ApiConsumes, ApiProduces, ApiBody, ApiResponse, ApiQuery, ApiParam } from '@nestjs/swagger';
-import { CreatePaymentDto, RefundPaymentDto } from '../dto/payment.dto';
+import { CreatePaymentDto, PaymentResponseDto, RefundPaymentDto } from '../dto/payment.dto';
 
 
 export function CreatePaymentSwaggerDocs() {
@@ -37,7 +37,20 @@ export function CreatePaymentSwaggerDocs() {
     }),
     ApiResponse({
       status: HttpStatus.BAD_REQUEST,
-      description: 'Invalid payment data provided',
+      description: 'Invalid payment data, a currency the merchant does not accept (CURRENCY_NOT_ALLOWED) or an amount with too many decimals for its currency (INVALID_AMOUNT)',
+      schema: {
+        example: {
+          success: false,
+          message: "Currency USD is not enabled for this merchant",
+          error: {
+            code: "CURRENCY_NOT_ALLOWED",
+            retryable: false,
+            details: { currency: "USD", allowedCurrencies: ["AED", "KWD"] }
+          },
+          timestamp: "2024-01-15T10:30:00.000Z",
+          requestId: "req-8f14e45f"
+        }
+      }
     }),
     ApiResponse({
       status: HttpStatus.INTERNAL_SERVER_ERROR,
@@ -76,6 +89,45 @@ export function PaymentCallbackSwaggerDocs() {
   );
 }
 
+export function PaymentNotifySwaggerDocs() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Handle server-to-server notification from MIGS gateway',
+      description: 'Verifies and applies a payment result posted directly by the gateway. Idempotent against the customer redirect callback.',
+    }),
+    HttpCode(HttpStatus.OK),
+    ApiConsumes('application/x-www-form-urlencoded', 'application/json'),
+    ApiProduces('application/json'),
+    ApiBody({ type: PaymentResponseDto }),
+    ApiResponse({
+      status: HttpStatus.OK,
+      description: 'Notification acknowledged',
+      schema: {
+        example: {
+          success: true,
+          data: {
+            acknowledged: true,
+            paymentId: "123e4567-e89b-12d3-a456-426614174000",
+            merchantTxnRef: "TXN_1640995200000_abc123",
+            status: "success",
+            duplicate: false,
+          },
+          message: "Payment notification processed successfully",
+          timestamp: "2024-01-01T12:00:00.000Z",
+        },
+      },
+    }),
+    ApiResponse({
+      status: HttpStatus.BAD_REQUEST,
+      description: 'Invalid notification data or hash verification failed',
+    }),
+    ApiResponse({
+      status: HttpStatus.NOT_FOUND,
+      description: 'Transaction not found',
+    }),
+  );
+}
+
 
 export function CancelPaymentSwaggerDocs() {
   return applyDecorators(
@@ -154,7 +206,291 @@ export function RefundPaymentSwaggerDocs() {
     }),
     ApiResponse({
       status: HttpStatus.BAD_REQUEST,
-      description: 'Payment not eligible for refund or invalid refund amount',
+      description: 'Payment not eligible for refund (INVALID_PAYMENT_STATE), invalid refund amount (REFUND_EXCEEDS_AVAILABLE) or refund declined by the gateway (GATEWAY_DECLINED); a declined attempt stays in the refund ledger as failed',
+      schema: {
+        example: {
+          success: false,
+          message: "Refund amount (150) exceeds available amount (99.99)",
+          error: {
+            code: "REFUND_EXCEEDS_AVAILABLE",
+            retryable: false,
+            details: { requestedAmount: 150, availableAmount: 99.99 }
+          },
+          timestamp: "2024-01-15T10:40:00.000Z",
+          requestId: "req-8f14e45f"
+        }
+      }
+    }),
+  );
+}
+
+
+export function CapturePaymentSwaggerDocs() {
+  return applyDecorators(
+    HttpCode(HttpStatus.OK),
+    ApiOperation({
+      summary: 'Capture an authorised payment',
+      description: 'Issues a MIGS capture command for a manual-capture payment in AUTHORIZED status.',
+    }),
+    ApiProduces('application/json'),
+    ApiParam({
+      name: 'id',
+      description: 'Unique identifier of the authorised payment',
+      type: String,
+      example: '12345',
+    }),
+    ApiResponse({
+      status: HttpStatus.OK,
+      description: 'Payment captured successfully',
+      schema: {
+        example: {
+          success: true,
+          data: {
+            paymentId: "12345",
+            merchantTxnRef: "MIGS_1640995200000_A1B2C3D4",
+            amount: 500.00,
+            currency: "AED",
+            status: "success",
+            capturedAt: "2024-02-01T09:00:00.000Z"
+          },
+          message: "Payment captured successfully",
+          timestamp: "2024-02-01T09:00:00.000Z"
+        }
+      }
+    }),
+    ApiResponse({
+      status: HttpStatus.NOT_FOUND,
+      description: 'Payment not found',
+    }),
+    ApiResponse({
+      status: HttpStatus.BAD_REQUEST,
+      description: 'Payment is not authorised or the gateway declined the capture',
+    }),
+  );
+}
+
+
+export function VoidPaymentSwaggerDocs() {
+  return applyDecorators(
+    HttpCode(HttpStatus.OK),
+    ApiOperation({
+      summary: 'Void an authorised payment',
+      description: 'Issues a MIGS voidAuthorisation command for a manual-capture payment in AUTHORIZED status, releasing the hold.',
+    }),
+    ApiProduces('application/json'),
+    ApiParam({
+      name: 'id',
+      description: 'Unique identifier of the authorised payment',
+      type: String,
+      example: '12345',
+    }),
+    ApiResponse({
+      status: HttpStatus.OK,
+      description: 'Authorisation voided successfully',
+      schema: {
+        example: {
+          success: true,
+          data: {
+            paymentId: "12345",
+            merchantTxnRef: "MIGS_1640995200000_A1B2C3D4",
+            amount: 500.00,
+            currency: "AED",
+            status: "cancelled",
+            voidedAt: "2024-02-01T09:00:00.000Z"
+          },
+          message: "Payment authorisation voided successfully",
+          timestamp: "2024-02-01T09:00:00.000Z"
+        }
+      }
+    }),
+    ApiResponse({
+      status: HttpStatus.NOT_FOUND,
+      description: 'Payment not found',
+    }),
+    ApiResponse({
+      status: HttpStatus.BAD_REQUEST,
+      description: 'Payment is not authorised or the gateway declined the void',
+    }),
+  );
+}
+
+
+export function ListPaymentsSwaggerDocs() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Search payment transactions',
+      description: 'Lists payment transactions newest first with cursor pagination. Pass nextCursor from the previous page as cursor to continue.',
+    }),
+    ApiProduces('application/json'),
+    ApiResponse({
+      status: HttpStatus.OK,
+      description: 'Payments retrieved successfully',
+      schema: {
+        example: {
+          success: true,
+          data: {
+            items: [
+              {
+                paymentId: "12345",
+                merchantTxnRef: "MIGS_1640995200000_A1B2C3D4",
+                transactionId: "TXN123456789",
+                amount: 99.99,
+                currency: "AED",
+                status: "success",
+                responseCode: "0",
+                responseMessage: "Approved",
+                createdAt: "2024-01-15T10:00:00.000Z",
+                processedAt: "2024-01-15T10:05:00.000Z"
+              }
+            ],
+            nextCursor: "eyJjcmVhdGVkQXQiOiIyMDI0LTAxLTE1VDEwOjAwOjAwLjAwMFoiLCJpZCI6IjEyMzQ1In0",
+            hasMore: true
+          },
+          message: "Payments retrieved successfully",
+          timestamp: "2024-01-15T10:45:00.000Z"
+        }
+      }
+    }),
+    ApiResponse({
+      status: HttpStatus.BAD_REQUEST,
+      description: 'Invalid filter or cursor',
+    }),
+  );
+}
+
+
+export function PaymentSummarySwaggerDocs() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Summarise payment transactions',
+      description: 'Returns transaction counts and amount totals per currency, and per status within each currency, for the same filters accepted by the search endpoint. Amounts in different currencies are never added together.',
+    }),
+    ApiProduces('application/json'),
+    ApiResponse({
+      status: HttpStatus.OK,
+      description: 'Payment summary retrieved successfully',
+      schema: {
+        example: {
+          success: true,
+          data: {
+            totalCount: 42,
+            byCurrency: [
+              { currency: "AED", count: 37, totalAmount: 5500.50, totalRefunded: 120.00 },
+              { currency: "KWD", count: 5, totalAmount: 310.750, totalRefunded: 0 }
+            ],
+            byStatus: [
+              { status: "failed", currency: "AED", count: 12, totalAmount: 980.00, totalRefunded: 0 },
+              { status: "success", currency: "AED", count: 25, totalAmount: 4520.50, totalRefunded: 120.00 },
+              { status: "success", currency: "KWD", count: 5, totalAmount: 310.750, totalRefunded: 0 }
+            ]
+          },
+          message: "Payment summary retrieved successfully",
+          timestamp: "2024-01-15T10:45:00.000Z"
+        }
+      }
+    }),
+  );
+}
+
+
+export function ExportPaymentsSwaggerDocs() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Export payment transactions',
+      description: 'Streams matching payment transactions as CSV or XLSX for finance reconciliation. Card numbers are masked.',
+    }),
+    ApiProduces('text/csv', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'),
+    ApiResponse({
+      status: HttpStatus.OK,
+      description: 'Export file streamed successfully',
+    }),
+    ApiResponse({
+      status: HttpStatus.BAD_REQUEST,
+      description: 'Invalid format or filter',
+    }),
+  );
+}
+
+
+export function GetPaymentHistorySwaggerDocs() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Get payment status history',
+      description: 'Returns every status transition recorded for a payment, oldest first, with the source of each change.',
+    }),
+    ApiProduces('application/json'),
+    ApiParam({
+      name: 'id',
+      description: 'Unique identifier of the payment transaction',
+      type: String,
+      example: '12345',
+    }),
+    ApiResponse({
+      status: HttpStatus.OK,
+      description: 'Status history retrieved successfully',
+      schema: {
+        example: {
+          success: true,
+          data: [
+            { fromStatus: null, toStatus: "pending", source: "api", createdAt: "2024-01-15T10:00:00.000Z" },
+            { fromStatus: "pending", toStatus: "success", source: "callback", reason: "Gateway response code 0", createdAt: "2024-01-15T10:05:00.000Z" }
+          ],
+          message: "Status history retrieved successfully",
+          timestamp: "2024-01-15T10:06:00.000Z"
+        }
+      }
+    }),
+    ApiResponse({
+      status: HttpStatus.NOT_FOUND,
+      description: 'Payment not found',
+    }),
+  );
+}
+
+
+export function GetPaymentRefundsSwaggerDocs() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'List refunds for a payment',
+      description: 'Returns every refund attempt recorded against a payment, including declined and failed attempts.',
+    }),
+    ApiProduces('application/json'),
+    ApiParam({
+      name: 'paymentId',
+      description: 'Unique identifier of the payment transaction',
+      type: String,
+      example: '12345',
+    }),
+    ApiResponse({
+      status: HttpStatus.OK,
+      description: 'Refunds retrieved successfully',
+      schema: {
+        example: {
+          success: true,
+          data: [
+            {
+              refundId: "6f1c2a9e-3b7d-4e2a-9c1f-0a8b7c6d5e4f",
+              paymentId: "12345",
+              refundTxnRef: "REF_1640995800000_E5F6A7B8",
+              amount: 25.00,
+              currency: "AED",
+              reason: "Customer request",
+              status: "success",
+              responseCode: "0",
+              responseMessage: "Approved",
+              requestedBy: "3f0e9d1c-7a2b-4c5d-8e6f-9a0b1c2d3e4f",
+              createdAt: "2024-01-15T10:40:00.000Z",
+              processedAt: "2024-01-15T10:40:02.000Z"
+            }
+          ],
+          message: "Refunds retrieved successfully",
+          timestamp: "2024-01-15T10:41:00.000Z"
+        }
+      }
+    }),
+    ApiResponse({
+      status: HttpStatus.NOT_FOUND,
+      description: 'Payment not found',
     }),
   );
 }
@@ -188,6 +524,13 @@ export function GetPaymentStatusSwaggerDocs() {
             status: "success",
             responseCode: "0",
             responseMessage: "Approved",
+            result: {
+              code: "0",
+              status: "success",
+              category: "approved",
+              message: "Your payment was approved.",
+              retryable: false,
+            },
             authCode: "AUTH123",
             receiptNo: "RCP456789",
             createdAt: "2024-01-15T10:00:00.000Z",
@@ -291,27 +634,3 @@ export function QueryPaymentDocs() {
     }),
   );
 }
-
-
-export function ApiServiceHealthCheck() {
-  return applyDecorators(
-    ApiOperation({
-      summary: 'Service health check',
-      description: 'Returns service health status and basic system information for monitoring purposes.',
-    }),
-    ApiProduces('application/json'),
-    ApiResponse({
-      status: HttpStatus.OK,
-      description: 'Service is healthy',
-      schema: {
-        example: {
-          status: "healthy",
-          service: "MIGS Payment Gateway",
-          timestamp: "2024-01-15T10:55:00.000Z",
-          version: "1.0.0",
-          environment: "production"
-        }
-      }
-    })
-  );
-}
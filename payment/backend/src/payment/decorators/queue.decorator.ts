@@ -1,5 +1,5 @@
 import { applyDecorators, HttpCode, HttpStatus } from '@nestjs/common';
-import { ApiOperation, ApiProduces, ApiResponse } from '@nestjs/swagger';
+import { ApiOperation, ApiParam, ApiProduces, ApiResponse } from '@nestjs/swagger';
 
 export function ManualPaymentSyncDocs() {
   return applyDecorators(
@@ -56,6 +56,7 @@ export function PaymentSyncQueueStatusDocs() {
             completed: 45,
             failed: 3,
             delayed: 0,
+            deadLettered: 1,
             paused: false,
           },
           message: 'Queue status retrieved successfully',
@@ -66,3 +67,74 @@ export function PaymentSyncQueueStatusDocs() {
   );
 }
 
+
+
+export function ListSyncDeadLettersDocs() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'List transactions dead-lettered by the status sync',
+      description:
+        'Returns pending transactions whose gateway status query failed too many times and are no longer synced automatically.',
+    }),
+    ApiProduces('application/json'),
+    ApiResponse({
+      status: HttpStatus.OK,
+      description: 'Dead-lettered transactions retrieved successfully',
+      schema: {
+        example: {
+          success: true,
+          data: [
+            {
+              paymentId: '123e4567-e89b-12d3-a456-426614174000',
+              merchantTxnRef: 'TXN_1640995200000_abc123',
+              status: 'pending',
+              syncAttempts: 5,
+              lastSyncError: 'Gateway request timed out',
+              deadLetteredAt: '2024-01-15T12:00:00.000Z',
+              createdAt: '2024-01-15T10:00:00.000Z',
+            },
+          ],
+          message: 'Dead-lettered transactions retrieved successfully',
+          timestamp: '2024-01-15T12:05:00.000Z',
+        },
+      },
+    }),
+  );
+}
+
+
+export function RequeueSyncDeadLetterDocs() {
+  return applyDecorators(
+    HttpCode(HttpStatus.ACCEPTED),
+    ApiOperation({
+      summary: 'Requeue a dead-lettered transaction',
+      description:
+        'Resets the retry counter of a dead-lettered transaction so that the next status sync run queries it again.',
+    }),
+    ApiProduces('application/json'),
+    ApiParam({
+      name: 'paymentId',
+      description: 'Unique identifier of the dead-lettered payment',
+      type: String,
+    }),
+    ApiResponse({
+      status: HttpStatus.ACCEPTED,
+      description: 'Transaction requeued for status sync',
+      schema: {
+        example: {
+          success: true,
+          data: {
+            paymentId: '123e4567-e89b-12d3-a456-426614174000',
+            nextSyncAt: '2024-01-15T12:10:00.000Z',
+          },
+          message: 'Transaction requeued for status sync',
+          timestamp: '2024-01-15T12:10:00.000Z',
+        },
+      },
+    }),
+    ApiResponse({
+      status: HttpStatus.NOT_FOUND,
+      description: 'Dead-lettered transaction not found',
+    }),
+  );
+}
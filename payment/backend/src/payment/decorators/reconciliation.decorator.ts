@@ -0,0 +1,137 @@
+import { applyDecorators, HttpStatus } from '@nestjs/common';
+import { ApiBody, ApiConsumes, ApiOperation, ApiParam, ApiProduces, ApiResponse } from '@nestjs/swagger';
+
+const runIdParam = ApiParam({
+  name: 'runId',
+  description: 'Unique identifier of the reconciliation run',
+  type: String,
+  example: '7d1f2e3a-4b5c-4d6e-8f90-a1b2c3d4e5f6',
+});
+
+const runNotFound = ApiResponse({
+  status: HttpStatus.NOT_FOUND,
+  description: 'Reconciliation run not found',
+});
+
+export function CreateReconciliationRunDocs() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Reconcile a settlement file',
+      description: 'Uploads a MIGS settlement/batch report (CSV) and matches every row against local transactions. Rows missing locally, transactions missing at the gateway, amount differences and status differences are flagged and stored as a reconciliation run.',
+    }),
+    ApiConsumes('multipart/form-data'),
+    ApiProduces('application/json'),
+    ApiBody({
+      schema: {
+        type: 'object',
+        required: ['file'],
+        properties: {
+          file: { type: 'string', format: 'binary', description: 'Settlement report in CSV format' },
+          settlementDate: { type: 'string', example: '2024-01-15', description: 'Settlement date covered by the file' },
+        },
+      },
+    }),
+    ApiResponse({
+      status: HttpStatus.CREATED,
+      description: 'Reconciliation run completed',
+      schema: {
+        example: {
+          success: true,
+          data: {
+            runId: "7d1f2e3a-4b5c-4d6e-8f90-a1b2c3d4e5f6",
+            fileName: "settlement-2024-01-15.csv",
+            settlementDate: "2024-01-15",
+            batchNumbers: ["20240115"],
+            status: "completed",
+            totalRows: 120,
+            matchedCount: 117,
+            mismatchCount: 3,
+            summary: {
+              matched: 117,
+              missing_locally: 1,
+              missing_at_gateway: 1,
+              amount_mismatch: 1,
+              status_mismatch: 0
+            },
+            createdAt: "2024-01-16T06:00:00.000Z"
+          },
+          message: "Reconciliation completed with 3 mismatches",
+          timestamp: "2024-01-16T06:00:00.000Z"
+        }
+      }
+    }),
+    ApiResponse({
+      status: HttpStatus.BAD_REQUEST,
+      description: 'Missing or unparseable settlement file',
+    }),
+  );
+}
+
+export function ListReconciliationRunsDocs() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'List reconciliation runs',
+      description: 'Returns previous reconciliation runs, newest first.',
+    }),
+    ApiProduces('application/json'),
+    ApiResponse({
+      status: HttpStatus.OK,
+      description: 'Reconciliation runs retrieved successfully',
+    }),
+  );
+}
+
+export function GetReconciliationRunDocs() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Get a reconciliation run',
+      description: 'Returns the totals and per-result summary of a reconciliation run.',
+    }),
+    ApiProduces('application/json'),
+    runIdParam,
+    ApiResponse({
+      status: HttpStatus.OK,
+      description: 'Reconciliation run retrieved successfully',
+    }),
+    runNotFound,
+  );
+}
+
+export function ListReconciliationItemsDocs() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'List reconciliation findings',
+      description: 'Returns the individual findings of a reconciliation run, optionally filtered by result.',
+    }),
+    ApiProduces('application/json'),
+    runIdParam,
+    ApiResponse({
+      status: HttpStatus.OK,
+      description: 'Reconciliation findings retrieved successfully',
+      schema: {
+        example: {
+          success: true,
+          data: [
+            {
+              itemId: "5a6b7c8d-9e0f-4a1b-8c2d-3e4f5a6b7c8d",
+              result: "amount_mismatch",
+              paymentId: "3c4d5e6f-7a8b-4c9d-8e0f-1a2b3c4d5e6f",
+              rowNumber: 14,
+              merchantTxnRef: "TXN_1705312200000_ABC123",
+              transactionId: "123456789",
+              receiptNo: "401512345678",
+              batchNo: "20240115",
+              localAmount: 100.00,
+              gatewayAmount: 10.00,
+              localStatus: "success",
+              gatewayStatus: "Approved"
+            }
+          ],
+          message: "Reconciliation findings retrieved successfully",
+          timestamp: "2024-01-16T06:05:00.000Z"
+        }
+      }
+    }),
+    runNotFound,
+  );
+}
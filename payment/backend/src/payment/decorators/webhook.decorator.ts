@@ -0,0 +1,148 @@
+import { applyDecorators, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiBody, ApiConsumes, ApiOperation, ApiParam, ApiProduces, ApiResponse } from '@nestjs/swagger';
+import { CreateWebhookEndpointDto, UpdateWebhookEndpointDto } from '../dto/webhook.dto';
+
+const endpointIdParam = ApiParam({
+  name: 'endpointId',
+  description: 'Unique identifier of the webhook endpoint',
+  type: String,
+  example: '0f8c3a6e-2d4b-4c1a-9e7f-5b6a7c8d9e0f',
+});
+
+const endpointNotFound = ApiResponse({
+  status: HttpStatus.NOT_FOUND,
+  description: 'Webhook endpoint not found',
+});
+
+export function CreateWebhookEndpointDocs() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Register a webhook endpoint',
+      description: 'Registers a merchant URL that receives HMAC-signed payment events. The signing secret is only returned in this response.',
+    }),
+    ApiConsumes('application/json'),
+    ApiProduces('application/json'),
+    ApiBody({ type: CreateWebhookEndpointDto }),
+    ApiResponse({
+      status: HttpStatus.CREATED,
+      description: 'Webhook endpoint registered successfully',
+      schema: {
+        example: {
+          success: true,
+          data: {
+            endpointId: "0f8c3a6e-2d4b-4c1a-9e7f-5b6a7c8d9e0f",
+            url: "https://orders.example.com/hooks/payments",
+            events: ["payment.succeeded", "payment.failed", "payment.refunded"],
+            isActive: true,
+            secret: "9b1e4f...",
+            createdAt: "2024-01-15T10:00:00.000Z"
+          },
+          message: "Webhook endpoint registered successfully",
+          timestamp: "2024-01-15T10:00:00.000Z"
+        }
+      }
+    }),
+    ApiResponse({
+      status: HttpStatus.BAD_REQUEST,
+      description: 'Invalid URL or unknown event type',
+    }),
+  );
+}
+
+export function ListWebhookEndpointsDocs() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'List webhook endpoints',
+      description: 'Returns all registered webhook endpoints without their signing secrets.',
+    }),
+    ApiProduces('application/json'),
+    ApiResponse({
+      status: HttpStatus.OK,
+      description: 'Webhook endpoints retrieved successfully',
+    }),
+  );
+}
+
+export function GetWebhookEndpointDocs() {
+  return applyDecorators(
+    ApiOperation({ summary: 'Get a webhook endpoint' }),
+    ApiProduces('application/json'),
+    endpointIdParam,
+    ApiResponse({
+      status: HttpStatus.OK,
+      description: 'Webhook endpoint retrieved successfully',
+    }),
+    endpointNotFound,
+  );
+}
+
+export function UpdateWebhookEndpointDocs() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Update a webhook endpoint',
+      description: 'Changes the URL, subscribed events, description or active flag of an endpoint.',
+    }),
+    ApiConsumes('application/json'),
+    ApiProduces('application/json'),
+    endpointIdParam,
+    ApiBody({ type: UpdateWebhookEndpointDto }),
+    ApiResponse({
+      status: HttpStatus.OK,
+      description: 'Webhook endpoint updated successfully',
+    }),
+    endpointNotFound,
+  );
+}
+
+export function DeleteWebhookEndpointDocs() {
+  return applyDecorators(
+    HttpCode(HttpStatus.OK),
+    ApiOperation({
+      summary: 'Remove a webhook endpoint',
+      description: 'Removes the endpoint and its delivery log.',
+    }),
+    ApiProduces('application/json'),
+    endpointIdParam,
+    ApiResponse({
+      status: HttpStatus.OK,
+      description: 'Webhook endpoint removed successfully',
+    }),
+    endpointNotFound,
+  );
+}
+
+export function ListWebhookDeliveriesDocs() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'List webhook deliveries',
+      description: 'Returns the most recent delivery attempts for an endpoint, including response status and last error.',
+    }),
+    ApiProduces('application/json'),
+    endpointIdParam,
+    ApiResponse({
+      status: HttpStatus.OK,
+      description: 'Webhook deliveries retrieved successfully',
+      schema: {
+        example: {
+          success: true,
+          data: [
+            {
+              deliveryId: "5c2d7e1a-8b3f-4a6c-9d0e-1f2a3b4c5d6e",
+              eventId: "a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d",
+              eventType: "payment.succeeded",
+              paymentId: "12345",
+              status: "delivered",
+              attempts: 1,
+              responseStatus: 200,
+              deliveredAt: "2024-01-15T10:05:01.000Z",
+              createdAt: "2024-01-15T10:05:00.000Z"
+            }
+          ],
+          message: "Webhook deliveries retrieved successfully",
+          timestamp: "2024-01-15T10:06:00.000Z"
+        }
+      }
+    }),
+    endpointNotFound,
+  );
+}
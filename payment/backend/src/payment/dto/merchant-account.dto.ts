@@ -0,0 +1,121 @@
+import {
+  IsString,
+  IsOptional,
+  IsUrl,
+  IsBoolean,
+  IsInt,
+  IsArray,
+  IsISO4217CurrencyCode,
+  Matches,
+  Length,
+  Min,
+  Max,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CreateMerchantAccountDto {
+  @ApiProperty({ description: 'Unique merchant code used as merchantCode on payment creation', example: 'brand-a' })
+  @IsString()
+  @Matches(/^[a-z0-9][a-z0-9_-]{1,63}$/)
+  code: string;
+
+  @ApiProperty({ description: 'Display name of the brand' })
+  @IsString()
+  name: string;
+
+  @ApiProperty({ description: 'MIGS merchant identifier (vpc_Merchant)' })
+  @IsString()
+  merchantId: string;
+
+  @ApiProperty({ description: 'MIGS access code (vpc_AccessCode)' })
+  @IsString()
+  accessCode: string;
+
+  @ApiProperty({ description: 'Hexadecimal MIGS secure secret' })
+  @IsString()
+  @Matches(/^[0-9A-Fa-f]+$/)
+  secureSecret: string;
+
+  @ApiProperty({ description: 'Default currency code', example: 'AED' })
+  @IsString()
+  @Length(3, 3)
+  currency: string;
+
+  @ApiProperty({
+    description: 'Further ISO 4217 codes payments may be created in; the default currency is always accepted',
+    required: false,
+    example: ['USD', 'KWD'],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsISO4217CurrencyCode({ each: true })
+  allowedCurrencies?: string[];
+
+  @ApiProperty({ description: 'Return URL sent to the gateway as vpc_ReturnURL' })
+  @IsUrl({ require_tld: false })
+  returnUrl: string;
+}
+
+export class UpdateMerchantAccountDto {
+  @ApiProperty({ description: 'Display name of the brand', required: false })
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @ApiProperty({ description: 'MIGS merchant identifier (vpc_Merchant)', required: false })
+  @IsOptional()
+  @IsString()
+  merchantId?: string;
+
+  @ApiProperty({ description: 'MIGS access code (vpc_AccessCode)', required: false })
+  @IsOptional()
+  @IsString()
+  accessCode?: string;
+
+  @ApiProperty({ description: 'Default currency code', required: false })
+  @IsOptional()
+  @IsString()
+  @Length(3, 3)
+  currency?: string;
+
+  @ApiProperty({
+    description: 'Further ISO 4217 codes payments may be created in; replaces the current list',
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @IsISO4217CurrencyCode({ each: true })
+  allowedCurrencies?: string[];
+
+  @ApiProperty({ description: 'Return URL sent to the gateway as vpc_ReturnURL', required: false })
+  @IsOptional()
+  @IsUrl({ require_tld: false })
+  returnUrl?: string;
+
+  @ApiProperty({ description: 'Whether new payments may use this merchant', required: false })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class RotateMerchantSecretDto {
+  @ApiProperty({ description: 'New hexadecimal MIGS secure secret issued in Merchant Administration' })
+  @IsString()
+  @Matches(/^[0-9A-Fa-f]+$/)
+  secureSecret: string;
+
+  @ApiProperty({
+    description: 'Hours the previous secret is still accepted for callback verification; SECRET_ROTATION_WINDOW_HOURS when omitted',
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(720)
+  windowHours?: number;
+
+  @ApiProperty({ description: 'Reason for the rotation', required: false })
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
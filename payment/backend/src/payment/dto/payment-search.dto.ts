@@ -0,0 +1,88 @@
+import { IsString, IsNumber, IsOptional, IsEmail, IsEnum, IsDateString, IsInt, Min, Max, Length } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { TransactionStatus } from '../models/payment-transaction.model';
+
+export class PaymentFilterDto {
+  @ApiProperty({ description: 'Transaction status', enum: TransactionStatus, required: false })
+  @IsOptional()
+  @IsEnum(TransactionStatus)
+  status?: TransactionStatus;
+
+  @ApiProperty({ description: 'Created on or after (ISO 8601)', required: false })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiProperty({ description: 'Created before (ISO 8601)', required: false })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @ApiProperty({ description: 'Minimum amount', required: false })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  minAmount?: number;
+
+  @ApiProperty({ description: 'Maximum amount', required: false })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  maxAmount?: number;
+
+  @ApiProperty({ description: 'Currency code', required: false })
+  @IsOptional()
+  @IsString()
+  @Length(3, 3)
+  currency?: string;
+
+  @ApiProperty({ description: 'Customer email', required: false })
+  @IsOptional()
+  @IsEmail()
+  customerEmail?: string;
+
+  @ApiProperty({ description: 'Gateway response code', required: false })
+  @IsOptional()
+  @IsString()
+  responseCode?: string;
+
+  @ApiProperty({ description: 'Merchant transaction reference', required: false })
+  @IsOptional()
+  @IsString()
+  merchantTxnRef?: string;
+
+  @ApiProperty({ description: 'Free-text search on order information', required: false })
+  @IsOptional()
+  @IsString()
+  orderInfo?: string;
+}
+
+export enum ExportFormat {
+  CSV = 'csv',
+  XLSX = 'xlsx',
+}
+
+export class ExportPaymentsQueryDto extends PaymentFilterDto {
+  @ApiProperty({ description: 'Export file format', enum: ExportFormat, required: false, default: ExportFormat.CSV })
+  @IsOptional()
+  @IsEnum(ExportFormat)
+  format?: ExportFormat = ExportFormat.CSV;
+}
+
+export class ListPaymentsQueryDto extends PaymentFilterDto {
+  @ApiProperty({ description: 'Opaque cursor from the previous page', required: false })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  @ApiProperty({ description: 'Page size', required: false, default: 20, minimum: 1, maximum: 100 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
@@ -1,20 +1,39 @@
-import { IsString, IsNumber, IsOptional, IsEmail, IsUrl, Min } from 'class-validator';
+import {
+  IsString,
+  IsNumber,
+  IsOptional,
+  IsEmail,
+  IsUrl,
+  IsEnum,
+  IsInt,
+  IsPositive,
+  IsISO4217CurrencyCode,
+  Min,
+  Max,
+} from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
+import { CaptureMode } from '../models/payment-transaction.model';
+import { IsMoneyAmount } from '../validators/money-amount.validator';
 
 export class CreatePaymentDto {
   @ApiProperty({ description: 'Order information' })
   @IsString()
   orderInfo: string;
 
-  @ApiProperty({ description: 'Payment amount' })
-  @IsNumber({ maxDecimalPlaces: 2 })
-  @Min(0.01)
+  @ApiProperty({ description: 'Payment amount in major units, with at most as many decimals as the currency has (KWD 3, JPY 0)' })
+  @IsNumber()
+  @IsPositive()
+  @IsMoneyAmount('currency')
   amount: number;
 
-  @ApiProperty({ description: 'Currency code', default: 'AED' })
-  @IsString()
+  @ApiProperty({
+    description: 'ISO 4217 currency code; must be enabled for the merchant. Defaults to the merchant\'s currency.',
+    required: false,
+    example: 'AED',
+  })
   @IsOptional()
-  currency?: string = 'AED';
+  @IsISO4217CurrencyCode()
+  currency?: string;
 
   @ApiProperty({ description: 'Customer email', required: false })
   @IsOptional()
@@ -30,6 +49,36 @@ export class CreatePaymentDto {
   @IsOptional()
   @IsUrl()
   returnUrl?: string;
+
+  @ApiProperty({
+    description: 'Capture immediately (auto) or hold the authorisation until captured (manual)',
+    enum: CaptureMode,
+    default: CaptureMode.AUTO,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(CaptureMode)
+  captureMode?: CaptureMode = CaptureMode.AUTO;
+
+  @ApiProperty({
+    description: 'Merchant account code; the default MIGS merchant is used when omitted',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  merchantCode?: string;
+
+  @ApiProperty({
+    description: 'Minutes the payment may stay pending before it expires; the configured default is used when omitted',
+    required: false,
+    minimum: 5,
+    maximum: 10080,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(5)
+  @Max(10080)
+  expiresInMinutes?: number;
 }
 
 export class RefundPaymentDto {
@@ -37,9 +86,10 @@ export class RefundPaymentDto {
   @IsString()
   paymentId: string;
 
-  @ApiProperty({ description: 'Refund amount' })
-  @IsNumber({ maxDecimalPlaces: 2 })
-  @Min(0.01)
+  @ApiProperty({ description: 'Refund amount in major units of the payment currency' })
+  @IsNumber()
+  @IsPositive()
+  @IsMoneyAmount()
   amount: number;
 
   @ApiProperty({ description: 'Refund reason', required: false })
@@ -61,5 +111,6 @@ export class PaymentResponseDto {
   vpc_AuthorizeId?: string;
   vpc_ReceiptNo?: string;
   vpc_BatchNo?: string;
+  vpc_AcqResponseCode?: string;
   [key: string]: any;
 }
@@ -0,0 +1,28 @@
+import { IsOptional, IsEnum, IsDateString, IsInt, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { ReconciliationResult } from '../models/reconciliation-item.model';
+
+export class CreateReconciliationRunDto {
+  @ApiProperty({ description: 'Settlement date covered by the file (YYYY-MM-DD)', required: false })
+  @IsOptional()
+  @IsDateString()
+  settlementDate?: string;
+}
+
+export class ListReconciliationRunsQueryDto {
+  @ApiProperty({ description: 'Maximum number of runs to return', required: false, default: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
+
+export class ListReconciliationItemsQueryDto {
+  @ApiProperty({ description: 'Only return items with this result', enum: ReconciliationResult, required: false })
+  @IsOptional()
+  @IsEnum(ReconciliationResult)
+  result?: ReconciliationResult;
+}
@@ -0,0 +1,50 @@
+import { IsString, IsOptional, IsUrl, IsArray, ArrayNotEmpty, IsEnum, IsBoolean, MinLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { WebhookEvent } from '../models/webhook-endpoint.model';
+
+export class CreateWebhookEndpointDto {
+  @ApiProperty({ description: 'HTTPS URL that receives event notifications' })
+  @IsUrl({ require_tld: false })
+  url: string;
+
+  @ApiProperty({ description: 'Events delivered to this endpoint', enum: WebhookEvent, isArray: true })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsEnum(WebhookEvent, { each: true })
+  events: WebhookEvent[];
+
+  @ApiProperty({ description: 'Endpoint description', required: false })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({ description: 'Signing secret; generated when omitted', required: false })
+  @IsOptional()
+  @IsString()
+  @MinLength(16)
+  secret?: string;
+}
+
+export class UpdateWebhookEndpointDto {
+  @ApiProperty({ description: 'HTTPS URL that receives event notifications', required: false })
+  @IsOptional()
+  @IsUrl({ require_tld: false })
+  url?: string;
+
+  @ApiProperty({ description: 'Events delivered to this endpoint', enum: WebhookEvent, isArray: true, required: false })
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsEnum(WebhookEvent, { each: true })
+  events?: WebhookEvent[];
+
+  @ApiProperty({ description: 'Endpoint description', required: false })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({ description: 'Whether deliveries are sent to this endpoint', required: false })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
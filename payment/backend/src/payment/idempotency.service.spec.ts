@@ -0,0 +1,73 @@
+import { ConfigService } from '@nestjs/config';
+import { ApiError } from '../errors/api-error';
+import { ErrorCode } from '../errors/error-catalogue';
+import { IdempotencyService } from './idempotency.service';
+import IdempotencyKey, { IdempotencyScope, IdempotencyStatus } from './models/idempotency-key.model';
+
+describe('IdempotencyService', () => {
+  const keyRecord = (scope: IdempotencyScope) => ({
+    dataValues: { idempotencyKey: 'key-1', scope },
+    destroy: jest.fn().mockResolvedValue(undefined),
+    update: jest.fn().mockResolvedValue(undefined),
+  });
+
+  let model: { destroy: jest.Mock; findOne: jest.Mock; create: jest.Mock };
+  let service: IdempotencyService;
+
+  beforeEach(() => {
+    model = { destroy: jest.fn().mockResolvedValue(0), findOne: jest.fn(), create: jest.fn() };
+    service = new IdempotencyService(
+      { get: () => 24 } as unknown as ConfigService,
+      model as unknown as typeof IdempotencyKey,
+    );
+  });
+
+  it('releases the key of a refund rejected before the gateway was called', async () => {
+    const record = keyRecord(IdempotencyScope.REFUND_PAYMENT);
+
+    await service.fail(record as unknown as IdempotencyKey, new ApiError(ErrorCode.REFUND_EXCEEDS_AVAILABLE));
+
+    expect(record.destroy).toHaveBeenCalled();
+    expect(record.update).not.toHaveBeenCalled();
+  });
+
+  it('keeps the key of a refund whose gateway outcome is unknown and stores the error', async () => {
+    const record = keyRecord(IdempotencyScope.REFUND_PAYMENT);
+    const localFailure = keyRecord(IdempotencyScope.REFUND_PAYMENT);
+
+    await service.fail(record as unknown as IdempotencyKey, new ApiError(ErrorCode.GATEWAY_TIMEOUT));
+    await service.fail(localFailure as unknown as IdempotencyKey, new Error('db down'));
+
+    expect(record.destroy).not.toHaveBeenCalled();
+    expect(localFailure.destroy).not.toHaveBeenCalled();
+    expect(record.update).toHaveBeenCalledWith({
+      status: IdempotencyStatus.FAILED,
+      responseBody: {
+        message: 'The payment gateway did not respond in time',
+        error: { code: ErrorCode.GATEWAY_TIMEOUT, retryable: true, details: undefined },
+      },
+    });
+  });
+
+  it('always releases payment creation keys, which never reach the gateway', async () => {
+    const record = keyRecord(IdempotencyScope.CREATE_PAYMENT);
+
+    await service.fail(record as unknown as IdempotencyKey, new Error('db down'));
+
+    expect(record.destroy).toHaveBeenCalled();
+  });
+
+  it('replays a stored failure', async () => {
+    const failure = { message: 'The payment gateway did not respond in time', error: { code: ErrorCode.GATEWAY_TIMEOUT, retryable: true } };
+    const hash = (service as unknown as { hashPayload: (payload: unknown) => string }).hashPayload({ amount: 10 });
+    model.findOne.mockResolvedValue({
+      dataValues: { requestHash: hash, status: IdempotencyStatus.FAILED, responseBody: failure },
+    });
+
+    await expect(service.begin('key-1', IdempotencyScope.REFUND_PAYMENT, 'client-1', { amount: 10 }))
+      .resolves.toEqual({ replay: true, failure });
+    expect(model.findOne).toHaveBeenCalledWith({
+      where: { idempotencyKey: 'key-1', scope: IdempotencyScope.REFUND_PAYMENT, clientId: 'client-1' },
+    });
+  });
+});
@@ -0,0 +1,202 @@
+import { BadRequestException, ConflictException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/sequelize';
+import { Op, UniqueConstraintError } from 'sequelize';
+import * as crypto from 'crypto';
+
+import IdempotencyKey, { IdempotencyScope, IdempotencyStatus } from './models/idempotency-key.model';
+import { IdempotencyBeginResult, IdempotentFailure } from './interfaces/payment.interface';
+import { ApiExceptionFilter } from '../errors/api-exception.filter';
+import { ErrorCode } from '../errors/error-catalogue';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+/**
+ * Errors raised before the gateway is called. Any other failure of a refund
+ * (a timeout, a decline, a local error after the bank answered) may have
+ * moved money, so its key is kept and a retry replays the error instead of
+ * refunding again.
+ */
+const PRE_GATEWAY_ERROR_CODES: ReadonlySet<string> = new Set([
+  ErrorCode.VALIDATION_FAILED,
+  ErrorCode.BAD_REQUEST,
+  ErrorCode.UNAUTHORIZED,
+  ErrorCode.FORBIDDEN,
+  ErrorCode.NOT_FOUND,
+  ErrorCode.CONFLICT,
+  ErrorCode.RATE_LIMITED,
+  ErrorCode.PAYMENT_NOT_FOUND,
+  ErrorCode.INVALID_PAYMENT_STATE,
+  ErrorCode.REFUND_EXCEEDS_AVAILABLE,
+  ErrorCode.INVALID_AMOUNT,
+  ErrorCode.CURRENCY_NOT_ALLOWED,
+  // The circuit breaker fails the call before anything is sent
+  ErrorCode.GATEWAY_CIRCUIT_OPEN,
+]);
+
+/**
+ * IdempotencyService
+ * 
+ * Stores Idempotency-Key headers together with a hash of the request body and
+ * the response that was returned, so that client retries replay the original
+ * result instead of charging or refunding twice.
+ */
+@Injectable()
+export class IdempotencyService {
+  private readonly logger = new Logger(IdempotencyService.name);
+  private readonly ttlHours: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @InjectModel(IdempotencyKey)
+    private readonly idempotencyModel: typeof IdempotencyKey,
+  ) {
+    this.ttlHours = this.configService.get<number>('idempotency.ttlHours') || 24;
+  }
+
+  /**
+   * Reserves an idempotency key or returns the response cached against it
+   * 
+   * @param key - Client supplied Idempotency-Key header value
+   * @param scope - Operation the key is bound to
+   * @param clientId - Authenticated API client the key belongs to
+   * @param payload - Request body used to detect key reuse with different data
+   * @returns Promise resolving to a replayed response or error, or a reserved key record
+   * @throws {BadRequestException} If the key is malformed
+   * @throws {ConflictException} If the key was used with a different body or is still in flight
+   */
+  async begin(
+    key: string,
+    scope: IdempotencyScope,
+    clientId: string,
+    payload: unknown
+  ): Promise<IdempotencyBeginResult> {
+    const idempotencyKey = key.trim();
+    if (idempotencyKey.length === 0 || idempotencyKey.length > 255) {
+      throw new BadRequestException(`${IDEMPOTENCY_KEY_HEADER} must be between 1 and 255 characters`);
+    }
+
+    const requestHash = this.hashPayload(payload);
+
+    // Expired keys are treated as never seen
+    await this.idempotencyModel.destroy({
+      where: { idempotencyKey, scope, clientId, expiresAt: { [Op.lte]: new Date() } },
+    });
+
+    const existing = await this.idempotencyModel.findOne({ where: { idempotencyKey, scope, clientId } });
+
+    if (existing) {
+      const { dataValues } = existing;
+
+      if (dataValues.requestHash !== requestHash) {
+        throw new ConflictException(
+          `${IDEMPOTENCY_KEY_HEADER} has already been used with a different request body`
+        );
+      }
+
+      if (dataValues.status === IdempotencyStatus.FAILED) {
+        this.logger.log('Replaying idempotent failure', { idempotencyKey, scope, clientId });
+        return { replay: true, failure: dataValues.responseBody as IdempotentFailure };
+      }
+
+      if (dataValues.status !== IdempotencyStatus.COMPLETED) {
+        throw new ConflictException(
+          `A request with this ${IDEMPOTENCY_KEY_HEADER} is still being processed`
+        );
+      }
+
+      this.logger.log('Replaying idempotent response', { idempotencyKey, scope, clientId });
+      return { replay: true, responseBody: dataValues.responseBody };
+    }
+
+    try {
+      const record = await this.idempotencyModel.create({
+        idempotencyKey,
+        scope,
+        clientId,
+        requestHash,
+        status: IdempotencyStatus.IN_PROGRESS,
+        expiresAt: new Date(Date.now() + this.ttlHours * 60 * 60 * 1000),
+      });
+
+      return { replay: false, record };
+    } catch (error) {
+      if (error instanceof UniqueConstraintError) {
+        throw new ConflictException(
+          `A request with this ${IDEMPOTENCY_KEY_HEADER} is still being processed`
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Stores the response for a reserved key so later retries can replay it
+   * 
+   * @param record - Key record returned by begin()
+   * @param responseBody - Response returned to the client
+   */
+  async complete(record: IdempotencyKey, responseBody: Record<string, any>): Promise<void> {
+    await record.update({
+      status: IdempotencyStatus.COMPLETED,
+      responseBody,
+    });
+  }
+
+  /**
+   * Settles a reserved key after a failed request. The key is released, so
+   * the client may retry, when the request failed before reaching the
+   * gateway; payment creation never calls the gateway. Otherwise the error
+   * is stored and replayed to retries.
+   * 
+   * @param record - Key record returned by begin()
+   * @param error - Error the request failed with
+   */
+  async fail(record: IdempotencyKey, error: unknown): Promise<void> {
+    const { message, error: errorData } = ApiExceptionFilter.resolve(error);
+    const { idempotencyKey, scope } = record.dataValues;
+
+    if (scope === IdempotencyScope.CREATE_PAYMENT || PRE_GATEWAY_ERROR_CODES.has(errorData.code)) {
+      await record.destroy();
+      return;
+    }
+
+    const failure: IdempotentFailure = { message, error: errorData };
+    await record.update({
+      status: IdempotencyStatus.FAILED,
+      responseBody: failure,
+    });
+
+    this.logger.warn('Keeping idempotency key of a request with an uncertain gateway outcome', {
+      idempotencyKey,
+      scope,
+      code: errorData.code,
+    });
+  }
+
+  /**
+   * Hashes a payload with keys sorted so that property order does not matter
+   * 
+   * @private
+   * @param payload - Request body
+   * @returns Hex encoded SHA-256 digest
+   */
+  private hashPayload(payload: unknown): string {
+    const canonicalize = (value: any): any => {
+      if (Array.isArray(value)) {
+        return value.map(canonicalize);
+      }
+      if (value && typeof value === 'object') {
+        return Object.keys(value)
+          .sort()
+          .reduce((acc, key) => ({ ...acc, [key]: canonicalize(value[key]) }), {});
+      }
+      return value;
+    };
+
+    return crypto
+      .createHash('sha256')
+      .update(JSON.stringify(canonicalize(payload ?? {})), 'utf8')
+      .digest('hex');
+  }
+}
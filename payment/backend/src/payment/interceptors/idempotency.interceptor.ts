@@ -0,0 +1,63 @@
+import { CallHandler, ExecutionContext, Injectable, NestInterceptor } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Response } from 'express';
+import { from, Observable, of, throwError } from 'rxjs';
+import { catchError, mergeMap } from 'rxjs/operators';
+
+import { IdempotencyScope } from '../models/idempotency-key.model';
+import { IDEMPOTENCY_KEY_HEADER, IdempotencyService } from '../idempotency.service';
+import { ApiError } from '../../errors/api-error';
+import { ErrorCode } from '../../errors/error-catalogue';
+import { AuthenticatedRequest } from '../../auth/interfaces/auth.interface';
+
+export const IDEMPOTENCY_SCOPE_KEY = 'idempotency:scope';
+
+/**
+ * Replays the cached response for a repeated Idempotency-Key and stores the
+ * response of the first successful request, or its error when the outcome at
+ * the gateway is uncertain. Requests without the header pass through untouched.
+ */
+@Injectable()
+export class IdempotencyInterceptor implements NestInterceptor {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly idempotencyService: IdempotencyService,
+  ) {}
+
+  async intercept(context: ExecutionContext, next: CallHandler): Promise<Observable<any>> {
+    const scope = this.reflector.get<IdempotencyScope>(IDEMPOTENCY_SCOPE_KEY, context.getHandler());
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const response = context.switchToHttp().getResponse<Response>();
+    const key = request.header(IDEMPOTENCY_KEY_HEADER);
+
+    if (!scope || key === undefined) {
+      return next.handle();
+    }
+
+    // Keys are per API client; ApiKeyGuard has run before any interceptor
+    const clientId = request.apiClient?.clientId ?? 'anonymous';
+    const result = await this.idempotencyService.begin(key, scope, clientId, request.body);
+
+    if (result.replay) {
+      response.setHeader('Idempotent-Replayed', 'true');
+
+      if ('failure' in result) {
+        const { message, error } = result.failure;
+        return throwError(() => new ApiError(error.code as ErrorCode, { message, details: error.details }));
+      }
+      return of(result.responseBody);
+    }
+
+    const { record } = result;
+
+    return next.handle().pipe(
+      mergeMap(async (body) => {
+        await this.idempotencyService.complete(record, body);
+        return body;
+      }),
+      catchError((error) =>
+        from(this.idempotencyService.fail(record, error)).pipe(mergeMap(() => throwError(() => error)))
+      ),
+    );
+  }
+}
@@ -1,4 +1,7 @@
-import PaymentTransaction from "../models/payment-transaction.model";
+import PaymentTransaction, { TransactionStatus } from "../models/payment-transaction.model";
+import IdempotencyKey from "../models/idempotency-key.model";
+import { StatusChangeSource } from "../models/payment-status-history.model";
+import { ResponseCodeCategory } from "../utils/migs-response-code.util";
 
 /**
  * VPC Payment Request Interface
@@ -27,8 +30,44 @@ export interface MigsConfiguration {
   secureSecret: string;
   gatewayUrl: string;
   currency: string;
+  /** ISO 4217 codes payments may be created in; always includes currency */
+  allowedCurrencies: string[];
   returnUrl: string;
   gatewayQueryUrl: string;
+  previousSecureSecret?: string;
+}
+
+/**
+ * Merchant Account Data Interface
+ * Defines the structure for merchant account responses; credentials are never returned
+ */
+export interface MerchantAccountData {
+  merchantAccountId: string;
+  code: string;
+  name: string;
+  merchantId: string;
+  currency: string;
+  allowedCurrencies: string[];
+  returnUrl: string;
+  isActive: boolean;
+  secretRotatedAt?: Date;
+  previousSecretExpiresAt?: Date;
+  createdAt: Date;
+}
+
+/**
+ * Secret Rotation Data Interface
+ * Defines the structure for secret rotation audit entries
+ */
+export interface SecretRotationData {
+  rotationId: string;
+  merchantAccountId: string;
+  previousSecretFingerprint: string;
+  newSecretFingerprint: string;
+  previousSecretExpiresAt: Date;
+  rotatedBy?: string;
+  reason?: string;
+  createdAt: Date;
 }
 
 /**
@@ -49,10 +88,21 @@ export interface PaymentApiResponse<T = any> {
   success: boolean;
   data?: T;
   message: string;
+  error?: ApiErrorData;
   timestamp?: string;
   requestId?: string;
 }
 
+/**
+ * API Error Data Interface
+ * Error details of a failed request, see ERROR_CATALOGUE
+ */
+export interface ApiErrorData {
+  code: string;
+  retryable: boolean;
+  details?: unknown;
+}
+
 /**
  * Payment Status Data Interface
  * Defines the structure for payment status response data
@@ -66,10 +116,62 @@ export interface PaymentStatusData {
   status: string;
   responseCode?: string;
   responseMessage?: string;
+  result?: GatewayResultData;
   authCode?: string;
   receiptNo?: string;
   createdAt: Date;
   processedAt?: Date;
+  expiresAt?: Date;
+}
+
+/**
+ * Gateway Result Data Interface
+ * Catalogued meaning of a MIGS response code, safe to show to customers
+ */
+export interface GatewayResultData {
+  code: string;
+  acquirerCode?: string;
+  status: TransactionStatus;
+  category: ResponseCodeCategory;
+  message: string;
+  retryable: boolean;
+}
+
+/**
+ * Payment List Data Interface
+ * Defines the structure for a cursor-paginated page of payments
+ */
+export interface PaymentListData {
+  items: PaymentStatusData[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+export interface PaymentListCursor {
+  createdAt: string;
+  id: string;
+}
+
+/**
+ * Payment Summary Data Interface
+ * Defines the structure for per-status counts and totals
+ */
+export interface PaymentSummaryData {
+  totalCount: number;
+  /** Amounts in different currencies are never added together */
+  byCurrency: Array<{
+    currency: string;
+    count: number;
+    totalAmount: number;
+    totalRefunded: number;
+  }>;
+  byStatus: Array<{
+    status: string;
+    currency: string;
+    count: number;
+    totalAmount: number;
+    totalRefunded: number;
+  }>;
 }
 
 /**
@@ -83,6 +185,30 @@ export interface PaymentCreationData {
   amount: number;
   currency: string;
   status: string;
+  expiresAt?: Date;
+}
+
+/**
+ * Gateway Response Result Interface
+ * Outcome of applying a redirect or notification response to a transaction
+ */
+export interface GatewayResponseResult {
+  transaction: PaymentTransaction;
+  duplicate: boolean;
+  result: GatewayResultData;
+}
+
+/**
+ * Payment Notification Acknowledgement Interface
+ * Machine-readable reply to a MIGS server-to-server notification
+ */
+export interface PaymentNotificationAck {
+  acknowledged: boolean;
+  paymentId: string;
+  merchantTxnRef: string;
+  status: string;
+  duplicate: boolean;
+  result?: GatewayResultData;
 }
 
 /**
@@ -96,6 +222,39 @@ export interface RefundResponseData {
   totalAmount: number;
 }
 
+/**
+ * Refund Record Data Interface
+ * Defines the structure for a single refund ledger entry
+ */
+export interface RefundRecordData {
+  refundId: string;
+  paymentId: string;
+  refundTxnRef: string;
+  amount: number;
+  currency: string;
+  reason?: string;
+  status: string;
+  responseCode?: string;
+  responseMessage?: string;
+  requestedBy?: string;
+  createdAt: Date;
+  processedAt?: Date;
+}
+
+/**
+ * Payment Authorisation Data Interface
+ * Defines the structure for capture and void response data
+ */
+export interface PaymentAuthorisationData {
+  paymentId: string;
+  merchantTxnRef: string;
+  amount: number;
+  currency: string;
+  status: string;
+  capturedAt?: Date;
+  voidedAt?: Date;
+}
+
 /**
  * Payment Cancellation Data Interface
  * Defines the structure for payment cancellation response data
@@ -116,6 +275,121 @@ export interface HealthCheckResponse {
   timestamp: string;
   version?: string;
   environment?: string;
+  components?: Record<string, HealthComponentStatus>;
+}
+
+/**
+ * Health Component Status Interface
+ * Result of checking one dependency during a readiness check
+ */
+export interface HealthComponentStatus {
+  status: 'up' | 'down' | 'skipped';
+  latencyMs?: number;
+  error?: string;
+  details?: Record<string, any>;
+}
+
+
+/**
+ * Idempotency Begin Result Interface
+ * Either a cached response to replay or a freshly reserved key record
+ */
+export type IdempotencyBeginResult =
+  | { replay: true; responseBody: Record<string, any> }
+  | { replay: true; failure: IdempotentFailure }
+  | { replay: false; record: IdempotencyKey };
+
+/**
+ * Idempotent Failure Interface
+ * Error stored against an Idempotency-Key whose request may have reached the gateway
+ */
+export interface IdempotentFailure {
+  message: string;
+  error: ApiErrorData;
+}
+
+
+/**
+ * Webhook Event Payload Interface
+ * Defines the body POSTed to merchant webhook endpoints
+ */
+export interface WebhookEventPayload {
+  id: string;
+  type: string;
+  createdAt: string;
+  data: {
+    paymentId: string;
+    merchantTxnRef: string;
+    status: string;
+    amount: number;
+    currency: string;
+    refundedAmount: number;
+    responseCode?: string;
+    transactionId?: string;
+  };
+}
+
+/**
+ * Webhook Endpoint Data Interface
+ * Defines the structure for webhook endpoint responses; the secret is only
+ * returned when the endpoint is created
+ */
+export interface WebhookEndpointData {
+  endpointId: string;
+  url: string;
+  description?: string;
+  events: string[];
+  isActive: boolean;
+  secret?: string;
+  createdAt: Date;
+}
+
+/**
+ * Webhook Delivery Data Interface
+ * Defines the structure for webhook delivery log entries
+ */
+export interface WebhookDeliveryData {
+  deliveryId: string;
+  eventId: string;
+  eventType: string;
+  paymentId?: string;
+  status: string;
+  attempts: number;
+  responseStatus?: number;
+  lastError?: string;
+  lastAttemptAt?: Date;
+  deliveredAt?: Date;
+  createdAt: Date;
+}
+
+export interface WebhookDeliveryJobData {
+  deliveryId: string;
+  /** Request that caused the delivery, if any */
+  requestId?: string;
+}
+
+
+/**
+ * Status Transition Context Interface
+ * Describes why and from where a payment status change was made
+ */
+export interface StatusTransitionContext {
+  source: StatusChangeSource;
+  reason?: string;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Status History Data Interface
+ * Defines the structure for payment status history entries
+ */
+export interface StatusHistoryData {
+  fromStatus: string | null;
+  toStatus: string;
+  source: string;
+  reason?: string;
+  metadata?: Record<string, any>;
+  createdAt: Date;
 }
 
 
@@ -129,6 +403,8 @@ export interface SyncJobData {
   triggeredBy?: 'scheduled' | 'manual' | 'fallback-cron';
   timestamp?: string;
   batchSize?: number;
+  /** Request that triggered a manual sync */
+  requestId?: string;
 }
 
 export interface SyncJobResult {
@@ -138,4 +414,101 @@ export interface SyncJobResult {
   skippedCount: number;
   processingTime: number;
   errors: SyncError[];
-}
\ No newline at end of file
+}
+
+export interface RefundResolutionJobResult {
+  processedCount: number;
+  succeededCount: number;
+  failedCount: number;
+  pendingCount: number;
+  errorCount: number;
+  processingTime: number;
+  errors: SyncError[];
+}
+
+/**
+ * Sync Dead Letter Data Interface
+ * A pending transaction whose status sync was given up on
+ */
+export interface SyncDeadLetterData {
+  paymentId: string;
+  merchantTxnRef: string;
+  status: string;
+  syncAttempts: number;
+  lastSyncError?: string;
+  deadLetteredAt: Date;
+  createdAt: Date;
+}
+
+export interface ExpiryJobData {
+  triggeredBy?: 'scheduled' | 'manual';
+  timestamp?: string;
+  batchSize?: number;
+  /** Request that triggered a manual run */
+  requestId?: string;
+}
+
+export interface ExpiryJobResult {
+  processedCount: number;
+  expiredCount: number;
+  resolvedCount: number;
+  deferredCount: number;
+  errorCount: number;
+  processingTime: number;
+  errors: SyncError[];
+}
+
+/**
+ * Settlement Record Interface
+ * One normalised row of an uploaded MIGS settlement/batch report
+ */
+export interface SettlementRecord {
+  rowNumber: number;
+  merchantTxnRef?: string;
+  transactionId?: string;
+  receiptNo?: string;
+  batchNo?: string;
+  amount?: number;
+  currency?: string;
+  status?: string;
+  transactionType?: string;
+  raw: Record<string, string>;
+}
+
+/**
+ * Reconciliation Run Data Interface
+ * Defines the structure for reconciliation run responses
+ */
+export interface ReconciliationRunData {
+  runId: string;
+  fileName: string;
+  settlementDate?: string;
+  batchNumbers: string[];
+  status: string;
+  totalRows: number;
+  matchedCount: number;
+  mismatchCount: number;
+  summary?: Record<string, number>;
+  errorMessage?: string;
+  startedBy?: string;
+  createdAt: Date;
+}
+
+/**
+ * Reconciliation Item Data Interface
+ * Defines the structure for a single reconciliation finding
+ */
+export interface ReconciliationItemData {
+  itemId: string;
+  result: string;
+  paymentId?: string;
+  rowNumber?: number;
+  merchantTxnRef?: string;
+  transactionId?: string;
+  receiptNo?: string;
+  batchNo?: string;
+  localAmount?: number;
+  gatewayAmount?: number;
+  localStatus?: string;
+  gatewayStatus?: string;
+}
@@ -0,0 +1,202 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Patch,
+  Body,
+  Param,
+  Logger,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+
+import { ApiScope } from '../auth/models/api-client.model';
+import { RequireScopes } from '../auth/decorators/auth.decorator';
+import { AuditService } from '../audit/audit.service';
+import { AuditOperation } from '../audit/models/audit-event.model';
+import { AuditActor } from '../audit/decorators/audit-actor.decorator';
+import { AuditContext } from '../audit/interfaces/audit.interface';
+import {
+  CreateMerchantAccountDto,
+  RotateMerchantSecretDto,
+  UpdateMerchantAccountDto,
+} from './dto/merchant-account.dto';
+import { MerchantAccountService } from './merchant-account.service';
+import MerchantAccount from './models/merchant-account.model';
+import MerchantSecretRotation from './models/merchant-secret-rotation.model';
+import { MerchantAccountData, PaymentApiResponse, SecretRotationData } from './interfaces/payment.interface';
+import {
+  CreateMerchantAccountDocs,
+  GetMerchantAccountDocs,
+  ListMerchantAccountsDocs,
+  ListSecretRotationsDocs,
+  RotateMerchantSecretDocs,
+  UpdateMerchantAccountDocs,
+} from './decorators/merchant-account.decorator';
+
+/**
+ * MerchantAccountController
+ * 
+ * Admin endpoints for managing the MIGS merchant accounts of each brand.
+ * Access codes and secure secrets are write-only.
+ */
+@ApiTags('Merchant Accounts')
+@RequireScopes(ApiScope.ADMIN)
+@Controller('api/payments/admin/merchants')
+export class MerchantAccountController {
+  private readonly logger = new Logger(MerchantAccountController.name);
+
+  constructor(
+    private readonly merchantAccountService: MerchantAccountService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  @Post()
+  @CreateMerchantAccountDocs()
+  async createAccount(
+    @Body(ValidationPipe) accountData: CreateMerchantAccountDto,
+    @AuditActor() audit: AuditContext
+  ): Promise<PaymentApiResponse<MerchantAccountData>> {
+    const account = await this.merchantAccountService.createAccount(accountData);
+
+    await this.auditService.record(audit, {
+      operation: AuditOperation.MERCHANT_ACCOUNT_CREATE,
+      targetType: 'merchant_account',
+      targetId: account.dataValues.id,
+      after: this.toAccountData(account),
+    });
+
+    return {
+      success: true,
+      data: this.toAccountData(account),
+      message: 'Merchant account registered successfully',
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  @Get()
+  @ListMerchantAccountsDocs()
+  async listAccounts(): Promise<PaymentApiResponse<MerchantAccountData[]>> {
+    const accounts = await this.merchantAccountService.listAccounts();
+
+    return {
+      success: true,
+      data: accounts.map((account) => this.toAccountData(account)),
+      message: 'Merchant accounts retrieved successfully',
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  @Get(':merchantAccountId')
+  @GetMerchantAccountDocs()
+  async getAccount(
+    @Param('merchantAccountId') merchantAccountId: string
+  ): Promise<PaymentApiResponse<MerchantAccountData>> {
+    const account = await this.merchantAccountService.getAccount(merchantAccountId);
+
+    return {
+      success: true,
+      data: this.toAccountData(account),
+      message: 'Merchant account retrieved successfully',
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  @Patch(':merchantAccountId')
+  @UpdateMerchantAccountDocs()
+  async updateAccount(
+    @Param('merchantAccountId') merchantAccountId: string,
+    @Body(ValidationPipe) accountData: UpdateMerchantAccountDto,
+    @AuditActor() audit: AuditContext
+  ): Promise<PaymentApiResponse<MerchantAccountData>> {
+    const before = this.toAccountData(await this.merchantAccountService.getAccount(merchantAccountId));
+    const account = await this.merchantAccountService.updateAccount(merchantAccountId, accountData);
+
+    await this.auditService.record(audit, {
+      operation: AuditOperation.MERCHANT_ACCOUNT_UPDATE,
+      targetType: 'merchant_account',
+      targetId: merchantAccountId,
+      before,
+      after: this.toAccountData(account),
+    });
+
+    this.logger.log('Merchant account updated via API', { merchantAccountId });
+
+    return {
+      success: true,
+      data: this.toAccountData(account),
+      message: 'Merchant account updated successfully',
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  @Post(':merchantAccountId/secret-rotations')
+  @RotateMerchantSecretDocs()
+  async rotateSecret(
+    @Param('merchantAccountId') merchantAccountId: string,
+    @Body(ValidationPipe) rotationData: RotateMerchantSecretDto,
+    @AuditActor() audit: AuditContext
+  ): Promise<PaymentApiResponse<SecretRotationData>> {
+    const rotation = await this.merchantAccountService.rotateSecret(merchantAccountId, rotationData, audit);
+
+    this.logger.log('Merchant secret rotation started via API', {
+      merchantAccountId,
+      rotatedBy: audit.actorId,
+    });
+
+    return {
+      success: true,
+      data: this.toRotationData(rotation),
+      message: 'Secure secret rotated successfully',
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  @Get(':merchantAccountId/secret-rotations')
+  @ListSecretRotationsDocs()
+  async listRotations(
+    @Param('merchantAccountId') merchantAccountId: string
+  ): Promise<PaymentApiResponse<SecretRotationData[]>> {
+    const rotations = await this.merchantAccountService.listRotations(merchantAccountId);
+
+    return {
+      success: true,
+      data: rotations.map((rotation) => this.toRotationData(rotation)),
+      message: 'Secret rotations retrieved successfully',
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  private toRotationData(rotation: MerchantSecretRotation): SecretRotationData {
+    const { dataValues } = rotation;
+
+    return {
+      rotationId: dataValues.id,
+      merchantAccountId: dataValues.merchantAccountId,
+      previousSecretFingerprint: dataValues.previousSecretFingerprint,
+      newSecretFingerprint: dataValues.newSecretFingerprint,
+      previousSecretExpiresAt: dataValues.previousSecretExpiresAt,
+      rotatedBy: dataValues.rotatedBy,
+      reason: dataValues.reason,
+      createdAt: dataValues.createdAt,
+    };
+  }
+
+  private toAccountData(account: MerchantAccount): MerchantAccountData {
+    const { dataValues } = account;
+
+    return {
+      merchantAccountId: dataValues.id,
+      code: dataValues.code,
+      name: dataValues.name,
+      merchantId: dataValues.merchantId,
+      currency: dataValues.currency,
+      allowedCurrencies: this.merchantAccountService.allowedCurrencies(dataValues.currency, dataValues.allowedCurrencies),
+      returnUrl: dataValues.returnUrl,
+      isActive: dataValues.isActive,
+      secretRotatedAt: dataValues.secretRotatedAt,
+      previousSecretExpiresAt: dataValues.previousSecretExpiresAt,
+      createdAt: dataValues.createdAt,
+    };
+  }
+}
@@ -0,0 +1,315 @@
+import { BadRequestException, ConflictException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/sequelize';
+import { Sequelize } from 'sequelize-typescript';
+
+import MerchantAccount from './models/merchant-account.model';
+import MerchantSecretRotation from './models/merchant-secret-rotation.model';
+import {
+  CreateMerchantAccountDto,
+  RotateMerchantSecretDto,
+  UpdateMerchantAccountDto,
+} from './dto/merchant-account.dto';
+import { MigsConfiguration } from './interfaces/payment.interface';
+import { SecretCipherUtil } from './utils/secret-cipher.util';
+import { AuditService } from '../audit/audit.service';
+import { AuditOperation } from '../audit/models/audit-event.model';
+import { AuditContext } from '../audit/interfaces/audit.interface';
+
+/**
+ * MerchantAccountService
+ * 
+ * Manages the MIGS merchant accounts of each brand and resolves the
+ * credentials a payment has to be signed and verified with. Secure secrets
+ * are stored encrypted with SECRET_ENCRYPTION_KEY; after a rotation the
+ * previous secret is still accepted for verification until its window ends.
+ */
+@Injectable()
+export class MerchantAccountService {
+  private readonly logger = new Logger(MerchantAccountService.name);
+  private readonly encryptionKey: Buffer | null;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly sequelize: Sequelize,
+    @InjectModel(MerchantAccount)
+    private readonly merchantAccountModel: typeof MerchantAccount,
+    @InjectModel(MerchantSecretRotation)
+    private readonly rotationModel: typeof MerchantSecretRotation,
+    private readonly auditService: AuditService,
+  ) {
+    const rawKey = this.configService.get<string>('secrets.encryptionKey');
+    this.encryptionKey = rawKey ? SecretCipherUtil.parseKey(rawKey) : null;
+
+    if (!this.encryptionKey) {
+      this.logger.warn('SECRET_ENCRYPTION_KEY is not set - merchant accounts cannot be used');
+    }
+  }
+
+  /**
+   * Registers a merchant account
+   * 
+   * @param accountData - Merchant credentials and defaults
+   * @returns Promise resolving to the created account
+   * @throws {ConflictException} If the code is already in use
+   */
+  async createAccount(accountData: CreateMerchantAccountDto): Promise<MerchantAccount> {
+    const existing = await this.merchantAccountModel.findOne({ where: { code: accountData.code } });
+    if (existing) {
+      throw new ConflictException(`Merchant code already in use: ${accountData.code}`);
+    }
+
+    const account = await this.merchantAccountModel.create({
+      ...accountData,
+      secureSecret: this.encryptSecret(accountData.secureSecret),
+      currency: accountData.currency.toUpperCase(),
+      allowedCurrencies: accountData.allowedCurrencies?.map((code) => code.toUpperCase()) ?? null,
+      isActive: true,
+    });
+
+    this.logger.log('Merchant account registered', {
+      merchantAccountId: account.dataValues.id,
+      code: accountData.code,
+      merchantId: accountData.merchantId,
+    });
+
+    return account;
+  }
+
+  /**
+   * Lists all merchant accounts
+   * 
+   * @returns Promise resolving to merchant accounts
+   */
+  async listAccounts(): Promise<MerchantAccount[]> {
+    return this.merchantAccountModel.findAll({ order: [['code', 'ASC']] });
+  }
+
+  /**
+   * Retrieves a merchant account by ID
+   * 
+   * @param merchantAccountId - Merchant account ID
+   * @returns Promise resolving to the account
+   * @throws {NotFoundException} If the account is not found
+   */
+  async getAccount(merchantAccountId: string): Promise<MerchantAccount> {
+    const account = await this.merchantAccountModel.findByPk(merchantAccountId);
+
+    if (!account) {
+      throw new NotFoundException(`Merchant account not found: ${merchantAccountId}`);
+    }
+
+    return account;
+  }
+
+  /**
+   * Retrieves an active merchant account by its code
+   * 
+   * @param code - Merchant code supplied on payment creation
+   * @returns Promise resolving to the account
+   * @throws {BadRequestException} If no active account has this code
+   */
+  async getActiveAccountByCode(code: string): Promise<MerchantAccount> {
+    const account = await this.merchantAccountModel.findOne({ where: { code, isActive: true } });
+
+    if (!account) {
+      throw new BadRequestException(`Unknown or inactive merchant: ${code}`);
+    }
+
+    return account;
+  }
+
+  /**
+   * Updates a merchant account. The secure secret is changed through
+   * rotateSecret so that in-flight callbacks keep verifying.
+   * 
+   * @param merchantAccountId - Merchant account ID
+   * @param accountData - Fields to update
+   * @returns Promise resolving to the updated account
+   * @throws {NotFoundException} If the account is not found
+   */
+  async updateAccount(merchantAccountId: string, accountData: UpdateMerchantAccountDto): Promise<MerchantAccount> {
+    const account = await this.getAccount(merchantAccountId);
+    await account.update({
+      ...accountData,
+      currency: accountData.currency?.toUpperCase() ?? account.dataValues.currency,
+      allowedCurrencies: accountData.allowedCurrencies?.map((code) => code.toUpperCase())
+        ?? account.dataValues.allowedCurrencies,
+    });
+
+    this.logger.log('Merchant account updated', {
+      merchantAccountId,
+      fields: Object.keys(accountData),
+    });
+
+    return account.reload();
+  }
+
+  /**
+   * Replaces a merchant's secure secret. The outgoing secret stays valid for
+   * callback verification until the rotation window ends, and the rotation is
+   * recorded in merchant_secret_rotations and the audit trail.
+   * 
+   * @param merchantAccountId - Merchant account ID
+   * @param rotationData - New secret, window and reason
+   * @param audit - Actor of the rotation, for the audit trail
+   * @returns Promise resolving to the rotation audit entry
+   * @throws {NotFoundException} If the account is not found
+   * @throws {BadRequestException} If the new secret equals the current one
+   */
+  async rotateSecret(
+    merchantAccountId: string,
+    rotationData: RotateMerchantSecretDto,
+    audit: AuditContext
+  ): Promise<MerchantSecretRotation> {
+    const transaction = await this.sequelize.transaction();
+
+    try {
+      const account = await this.merchantAccountModel.findByPk(merchantAccountId, { transaction, lock: true });
+
+      if (!account) {
+        throw new NotFoundException(`Merchant account not found: ${merchantAccountId}`);
+      }
+
+      const currentSecret = this.decryptSecret(account.dataValues.secureSecret);
+      if (currentSecret.toUpperCase() === rotationData.secureSecret.toUpperCase()) {
+        throw new BadRequestException('New secure secret must differ from the current one');
+      }
+
+      const windowHours = rotationData.windowHours
+        ?? this.configService.get<number>('secrets.rotationWindowHours')!;
+      const now = new Date();
+      const previousSecretExpiresAt = new Date(now.getTime() + windowHours * 60 * 60 * 1000);
+
+      await account.update({
+        secureSecret: this.encryptSecret(rotationData.secureSecret),
+        previousSecureSecret: account.dataValues.secureSecret,
+        previousSecretExpiresAt,
+        secretRotatedAt: now,
+      }, { transaction });
+
+      const rotation = await this.rotationModel.create({
+        merchantAccountId,
+        previousSecretFingerprint: SecretCipherUtil.fingerprint(currentSecret),
+        newSecretFingerprint: SecretCipherUtil.fingerprint(rotationData.secureSecret),
+        previousSecretExpiresAt,
+        rotatedBy: audit.actorId,
+        reason: rotationData.reason,
+      }, { transaction });
+
+      // Only fingerprints are recorded, never the secrets themselves
+      await this.auditService.record(audit, {
+        operation: AuditOperation.MERCHANT_SECRET_ROTATE,
+        targetType: 'merchant_account',
+        targetId: merchantAccountId,
+        before: { secretFingerprint: rotation.dataValues.previousSecretFingerprint },
+        after: { secretFingerprint: rotation.dataValues.newSecretFingerprint },
+        metadata: {
+          rotationId: rotation.dataValues.id,
+          previousSecretExpiresAt,
+          reason: rotationData.reason,
+        },
+      }, transaction);
+
+      await transaction.commit();
+
+      this.logger.log('Merchant secure secret rotated', {
+        merchantAccountId,
+        rotationId: rotation.dataValues.id,
+        previousSecretExpiresAt,
+        rotatedBy: audit.actorId,
+      });
+
+      return rotation;
+    } catch (error) {
+      await transaction.rollback();
+      this.logger.error('Error rotating merchant secure secret', { error: error.message, merchantAccountId });
+      throw error;
+    }
+  }
+
+  /**
+   * Lists the secret rotations of a merchant account, newest first
+   * 
+   * @param merchantAccountId - Merchant account ID
+   * @returns Promise resolving to rotation audit entries
+   * @throws {NotFoundException} If the account is not found
+   */
+  async listRotations(merchantAccountId: string): Promise<MerchantSecretRotation[]> {
+    await this.getAccount(merchantAccountId);
+
+    return this.rotationModel.findAll({
+      where: { merchantAccountId },
+      order: [['createdAt', 'DESC']],
+    });
+  }
+
+  /**
+   * Returns the plain value of a secret that may be stored encrypted.
+   * Plain values are passed through so unencrypted env secrets keep working.
+   * 
+   * @param value - Encrypted or plain secret
+   * @returns Plain secret
+   */
+  revealSecret(value: string): string {
+    return SecretCipherUtil.isEncrypted(value) ? this.decryptSecret(value) : value;
+  }
+
+  /**
+   * Builds the MIGS configuration for a merchant account. Gateway URLs are
+   * shared by every merchant and come from the default configuration.
+   * 
+   * @param defaults - Configuration built from the MIGS_* environment variables
+   * @param account - Merchant account, or null for the default merchant
+   * @returns MIGS configuration to sign and verify with
+   */
+  toConfiguration(defaults: MigsConfiguration, account: MerchantAccount | null): MigsConfiguration {
+    if (!account) {
+      return defaults;
+    }
+
+    const { dataValues } = account;
+    const previousSecretActive = !!dataValues.previousSecureSecret
+      && !!dataValues.previousSecretExpiresAt
+      && new Date(dataValues.previousSecretExpiresAt).getTime() > Date.now();
+
+    return {
+      ...defaults,
+      merchantId: dataValues.merchantId,
+      accessCode: dataValues.accessCode,
+      secureSecret: this.decryptSecret(dataValues.secureSecret),
+      previousSecureSecret: previousSecretActive
+        ? this.decryptSecret(dataValues.previousSecureSecret)
+        : undefined,
+      currency: dataValues.currency,
+      allowedCurrencies: this.allowedCurrencies(dataValues.currency, dataValues.allowedCurrencies),
+      returnUrl: dataValues.returnUrl,
+    };
+  }
+
+  /**
+   * Currencies a merchant accepts: its default currency followed by the
+   * configured extras, without duplicates
+   * 
+   * @param currency - Default currency of the merchant
+   * @param extraCurrencies - Additional ISO 4217 codes, if any
+   */
+  allowedCurrencies(currency: string, extraCurrencies?: string[] | null): string[] {
+    return [...new Set([currency, ...(extraCurrencies ?? [])].map((code) => code.toUpperCase()))];
+  }
+
+  private encryptSecret(secret: string): string {
+    return SecretCipherUtil.encrypt(secret, this.requireEncryptionKey());
+  }
+
+  private decryptSecret(payload: string): string {
+    return SecretCipherUtil.decrypt(payload, this.requireEncryptionKey());
+  }
+
+  private requireEncryptionKey(): Buffer {
+    if (!this.encryptionKey) {
+      throw new Error('SECRET_ENCRYPTION_KEY is not configured');
+    }
+    return this.encryptionKey;
+  }
+}
@@ -0,0 +1,217 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios, { AxiosResponse } from 'axios';
+import { MetricsService } from '../metrics/metrics.service';
+import { RequestContext } from '../request-context/request-context';
+import { ApiError } from '../errors/api-error';
+import { ErrorCode } from '../errors/error-catalogue';
+import { CircuitBreaker, CircuitBreakerSnapshot } from './utils/circuit-breaker.util';
+
+/**
+ * Commands that can be repeated without side effects. refund, capture,
+ * voidAuthorisation and pay move money, and a retry after a timeout could
+ * run them twice, so they are never retried here.
+ */
+const IDEMPOTENT_COMMANDS: ReadonlySet<string> = new Set(['queryDR']);
+
+/**
+ * MigsGatewayClient
+ * 
+ * Sends server-to-server (AMA / queryDR) requests to the MIGS gateway. Each
+ * vpc_Command gets its own timeout, idempotent commands are retried with
+ * jittered exponential backoff, and a circuit breaker fails requests fast
+ * while the gateway keeps failing.
+ */
+@Injectable()
+export class MigsGatewayClient {
+  private readonly logger = new Logger(MigsGatewayClient.name);
+  private readonly breaker: CircuitBreaker;
+  private readonly timeoutMs: number;
+  private readonly commandTimeoutsMs: Record<string, number>;
+  private readonly maxRetries: number;
+  private readonly retryBaseDelayMs: number;
+  private readonly retryMaxDelayMs: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly metricsService: MetricsService,
+  ) {
+    this.timeoutMs = this.configService.get<number>('gateway.timeoutMs') || 30000;
+    this.commandTimeoutsMs = this.configService.get<Record<string, number>>('gateway.commandTimeoutsMs') ?? {};
+    this.maxRetries = this.configService.get<number>('gateway.maxRetries') ?? 2;
+    this.retryBaseDelayMs = this.configService.get<number>('gateway.retryBaseDelayMs') ?? 250;
+    this.retryMaxDelayMs = this.configService.get<number>('gateway.retryMaxDelayMs') ?? 2000;
+    this.breaker = new CircuitBreaker({
+      failureThreshold: this.configService.get<number>('gateway.breakerFailureThreshold') || 5,
+      resetMs: this.configService.get<number>('gateway.breakerResetMs') ?? 30000,
+    });
+  }
+
+  /**
+   * Posts a VPC request and returns the parsed response
+   * 
+   * @param url - Gateway endpoint
+   * @param data - VPC fields, including vpc_Command and vpc_SecureHash
+   * @returns Promise resolving to the response fields
+   * @throws {ApiError} GATEWAY_TIMEOUT, GATEWAY_UNAVAILABLE or GATEWAY_INVALID_RESPONSE on failure
+   * @throws {ApiError} GATEWAY_CIRCUIT_OPEN while the circuit breaker is open
+   */
+  async send(url: string, data: Record<string, any>): Promise<Record<string, any>> {
+    const command: string = data.vpc_Command;
+    const maxAttempts = IDEMPOTENT_COMMANDS.has(command) ? this.maxRetries + 1 : 1;
+    const formData = new URLSearchParams();
+
+    Object.entries(data).forEach(([key, value]) => {
+      if (value != null && value !== '') { // Only append non-null, non-empty values
+        formData.append(key, String(value));
+      }
+    });
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.sendOnce(url, formData.toString(), command);
+      } catch (error) {
+        if (attempt >= maxAttempts || !this.isRetryable(error)) {
+          throw error;
+        }
+
+        const delayMs = this.retryDelayMs(attempt);
+        this.logger.warn('Retrying gateway request', { command, attempt, delayMs, error: error.message });
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+      }
+    }
+  }
+
+  /**
+   * Current state of the gateway circuit breaker
+   */
+  getCircuitState(): CircuitBreakerSnapshot {
+    return this.breaker.snapshot();
+  }
+
+  /**
+   * Sends one attempt and feeds its outcome to the circuit breaker
+   * 
+   * @private
+   */
+  private async sendOnce(url: string, body: string, command: string): Promise<Record<string, any>> {
+    if (!this.breaker.tryAcquire()) {
+      throw new ApiError(ErrorCode.GATEWAY_CIRCUIT_OPEN, {
+        details: { retryAfterMs: this.breaker.retryAfterMs() },
+      });
+    }
+
+    const endTimer = this.metricsService.startGatewayTimer(command);
+    const requestId = RequestContext.getRequestId();
+    let response: AxiosResponse;
+
+    try {
+      response = await axios.post(url, body, {
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          'User-Agent': 'MIGS-Client/1.0',
+          'Accept': 'application/x-www-form-urlencoded, text/plain',
+          ...(requestId && { 'X-Request-Id': requestId }),
+        },
+        timeout: this.commandTimeoutsMs[command] || this.timeoutMs,
+        validateStatus: (status) => status < 500, // Don't throw for 4xx errors
+        maxRedirects: 0,
+      });
+    } catch (error) {
+      endTimer('error');
+      this.breaker.recordFailure();
+
+      this.logger.error('Axios error in MIGS API call', {
+        command,
+        message: error.message,
+        code: error.code,
+        status: error.response?.status,
+        statusText: error.response?.statusText,
+        url: error.config?.url,
+        circuit: this.breaker.snapshot().state,
+      });
+
+      if (error.code === 'ECONNABORTED') {
+        throw new ApiError(ErrorCode.GATEWAY_TIMEOUT, { cause: error });
+      }
+
+      // Unreachable host, refused connection, 5xx or any other transport failure
+      throw new ApiError(ErrorCode.GATEWAY_UNAVAILABLE, { cause: error });
+    }
+
+    // The gateway answered, so it counts as up even when it rejects the request
+    this.breaker.recordSuccess();
+    endTimer(response.status >= 400 ? 'error' : 'success');
+
+    if (response.status >= 400) {
+      this.logger.error('Gateway returned error status', {
+        command,
+        status: response.status,
+        statusText: response.statusText,
+        data: response.data
+      });
+      throw new ApiError(ErrorCode.GATEWAY_UNAVAILABLE, {
+        cause: new Error(`Gateway returned error status: ${response.status}`),
+      });
+    }
+
+    return this.parseBody(response.data);
+  }
+
+  /**
+   * Only transport failures are retried; an answer from the gateway, even
+   * an error status, would come back the same
+   * 
+   * @private
+   */
+  private isRetryable(error: unknown): boolean {
+    return error instanceof ApiError
+      && (error.code === ErrorCode.GATEWAY_TIMEOUT || error.code === ErrorCode.GATEWAY_UNAVAILABLE)
+      && axios.isAxiosError(error.cause);
+  }
+
+  /**
+   * Exponential backoff with full jitter, so that instances retrying the
+   * same outage do not hit the gateway in step
+   * 
+   * @private
+   */
+  private retryDelayMs(attempt: number): number {
+    const ceiling = Math.min(this.retryBaseDelayMs * 2 ** (attempt - 1), this.retryMaxDelayMs);
+    return Math.round(Math.random() * ceiling);
+  }
+
+  /**
+   * Parses a URL-encoded response body; other bodies are returned as they are
+   * 
+   * @private
+   */
+  private parseBody(data: unknown): Record<string, any> {
+    if (typeof data !== 'string') {
+      return data as Record<string, any>;
+    }
+
+    // Plain text responses are not VPC fields
+    if (!data.includes('=') || (!data.includes('&') && data.includes(' '))) {
+      return { rawResponse: data };
+    }
+
+    try {
+      const params = new URLSearchParams(data);
+      const result: Record<string, any> = {};
+
+      // Values stay strings: they are covered by vpc_SecureHash, and codes such
+      // as vpc_AcqResponseCode "00" lose their meaning when parsed as numbers
+      for (const [key, value] of params.entries()) {
+        result[key] = value;
+      }
+      return result;
+    } catch (error) {
+      this.logger.error('Failed to parse response', {
+        responseString: data.substring(0, 200),
+        error: error.message
+      });
+      throw new ApiError(ErrorCode.GATEWAY_INVALID_RESPONSE, { cause: error });
+    }
+  }
+}
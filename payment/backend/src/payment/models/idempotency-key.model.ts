@@ -0,0 +1,108 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  PrimaryKey,
+  Default,
+  CreatedAt,
+  UpdatedAt,
+} from 'sequelize-typescript';
+
+export enum IdempotencyScope {
+  CREATE_PAYMENT = 'create_payment',
+  REFUND_PAYMENT = 'refund_payment',
+}
+
+export enum IdempotencyStatus {
+  IN_PROGRESS = 'in_progress',
+  COMPLETED = 'completed',
+  // The request failed after it may have reached the gateway; its error is replayed
+  FAILED = 'failed',
+}
+
+@Table({
+  tableName: 'idempotency_keys',
+  timestamps: true,
+  underscored: true,
+  indexes: [
+    {
+      name: 'idempotency_keys_key_scope_client',
+      fields: ['idempotency_key', 'scope', 'client_id'],
+      unique: true,
+    },
+    {
+      name: 'idempotency_keys_expires_at',
+      fields: ['expires_at'],
+    },
+  ],
+})
+export default class IdempotencyKey extends Model {
+  @PrimaryKey
+  @Default(DataType.UUIDV4)
+  @Column(DataType.UUID)
+  declare id: string;
+
+  @Column({
+    type: DataType.STRING,
+    allowNull: false,
+    field: 'idempotency_key',
+  })
+  idempotencyKey: string;
+
+  @Column({
+    type: DataType.ENUM(...Object.values(IdempotencyScope)),
+    allowNull: false,
+  })
+  scope: IdempotencyScope;
+
+  // API client that sent the key; keys of different clients never collide
+  @Column({
+    type: DataType.STRING(64),
+    allowNull: false,
+    field: 'client_id',
+  })
+  clientId: string;
+
+  @Column({
+    type: DataType.STRING(64),
+    allowNull: false,
+    field: 'request_hash',
+  })
+  requestHash: string;
+
+  @Default(IdempotencyStatus.IN_PROGRESS)
+  @Column({
+    type: DataType.ENUM(...Object.values(IdempotencyStatus)),
+    allowNull: false,
+  })
+  status: IdempotencyStatus;
+
+  @Column({
+    type: DataType.JSONB,
+    allowNull: true,
+    field: 'response_body',
+  })
+  responseBody: Record<string, any>;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: false,
+    field: 'expires_at',
+  })
+  expiresAt: Date;
+
+  @CreatedAt
+  @Column({
+    type: DataType.DATE,
+    field: 'created_at',
+  })
+  declare createdAt: Date;
+
+  @UpdatedAt
+  @Column({
+    type: DataType.DATE,
+    field: 'updated_at',
+  })
+  declare updatedAt: Date;
+}
@@ -0,0 +1,127 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  PrimaryKey,
+  Default,
+  CreatedAt,
+  UpdatedAt,
+} from 'sequelize-typescript';
+
+@Table({
+  tableName: 'merchant_accounts',
+  timestamps: true,
+  underscored: true,
+  indexes: [
+    {
+      name: 'merchant_accounts_code',
+      fields: ['code'],
+      unique: true,
+    },
+  ],
+})
+export default class MerchantAccount extends Model {
+  @PrimaryKey
+  @Default(DataType.UUIDV4)
+  @Column(DataType.UUID)
+  declare id: string;
+
+  @Column({
+    type: DataType.STRING(64),
+    allowNull: false,
+  })
+  code: string;
+
+  @Column({
+    type: DataType.STRING,
+    allowNull: false,
+  })
+  name: string;
+
+  @Column({
+    type: DataType.STRING,
+    allowNull: false,
+    field: 'merchant_id',
+  })
+  merchantId: string;
+
+  @Column({
+    type: DataType.STRING,
+    allowNull: false,
+    field: 'access_code',
+  })
+  accessCode: string;
+
+  // Encrypted with SECRET_ENCRYPTION_KEY, see SecretCipherUtil
+  @Column({
+    type: DataType.TEXT,
+    allowNull: false,
+    field: 'secure_secret',
+  })
+  secureSecret: string;
+
+  @Column({
+    type: DataType.TEXT,
+    allowNull: true,
+    field: 'previous_secure_secret',
+  })
+  previousSecureSecret: string;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+    field: 'previous_secret_expires_at',
+  })
+  previousSecretExpiresAt: Date;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+    field: 'secret_rotated_at',
+  })
+  secretRotatedAt: Date;
+
+  @Column({
+    type: DataType.STRING(3),
+    allowNull: false,
+  })
+  currency: string;
+
+  // Further ISO 4217 codes payments may use; currency is always accepted
+  @Column({
+    type: DataType.ARRAY(DataType.STRING(3)),
+    allowNull: true,
+    field: 'allowed_currencies',
+  })
+  allowedCurrencies: string[];
+
+  @Column({
+    type: DataType.TEXT,
+    allowNull: false,
+    field: 'return_url',
+  })
+  returnUrl: string;
+
+  @Default(true)
+  @Column({
+    type: DataType.BOOLEAN,
+    allowNull: false,
+    field: 'is_active',
+  })
+  isActive: boolean;
+
+  @CreatedAt
+  @Column({
+    type: DataType.DATE,
+    field: 'created_at',
+  })
+  declare createdAt: Date;
+
+  @UpdatedAt
+  @Column({
+    type: DataType.DATE,
+    field: 'updated_at',
+  })
+  declare updatedAt: Date;
+}
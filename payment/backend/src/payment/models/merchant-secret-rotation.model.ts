@@ -0,0 +1,83 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  PrimaryKey,
+  Default,
+  CreatedAt,
+  ForeignKey,
+  BelongsTo,
+} from 'sequelize-typescript';
+import MerchantAccount from './merchant-account.model';
+
+@Table({
+  tableName: 'merchant_secret_rotations',
+  timestamps: true,
+  updatedAt: false,
+  underscored: true,
+  indexes: [
+    {
+      name: 'merchant_secret_rotations_merchant_account_id',
+      fields: ['merchant_account_id'],
+    },
+  ],
+})
+export default class MerchantSecretRotation extends Model {
+  @PrimaryKey
+  @Default(DataType.UUIDV4)
+  @Column(DataType.UUID)
+  declare id: string;
+
+  @ForeignKey(() => MerchantAccount)
+  @Column({
+    type: DataType.UUID,
+    allowNull: false,
+    field: 'merchant_account_id',
+  })
+  merchantAccountId: string;
+
+  @BelongsTo(() => MerchantAccount)
+  merchantAccount: MerchantAccount;
+
+  @Column({
+    type: DataType.STRING(12),
+    allowNull: false,
+    field: 'previous_secret_fingerprint',
+  })
+  previousSecretFingerprint: string;
+
+  @Column({
+    type: DataType.STRING(12),
+    allowNull: false,
+    field: 'new_secret_fingerprint',
+  })
+  newSecretFingerprint: string;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: false,
+    field: 'previous_secret_expires_at',
+  })
+  previousSecretExpiresAt: Date;
+
+  @Column({
+    type: DataType.STRING,
+    allowNull: true,
+    field: 'rotated_by',
+  })
+  rotatedBy: string;
+
+  @Column({
+    type: DataType.TEXT,
+    allowNull: true,
+  })
+  reason: string;
+
+  @CreatedAt
+  @Column({
+    type: DataType.DATE,
+    field: 'created_at',
+  })
+  declare createdAt: Date;
+}
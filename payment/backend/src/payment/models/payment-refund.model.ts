@@ -0,0 +1,149 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  PrimaryKey,
+  Default,
+  CreatedAt,
+  UpdatedAt,
+  ForeignKey,
+  BelongsTo,
+} from 'sequelize-typescript';
+import PaymentTransaction from './payment-transaction.model';
+
+export enum RefundStatus {
+  PENDING = 'pending',
+  SUCCESS = 'success',
+  FAILED = 'failed',
+}
+
+@Table({
+  tableName: 'payment_refunds',
+  timestamps: true,
+  underscored: true,
+  indexes: [
+    {
+      name: 'payment_refunds_payment_id',
+      fields: ['payment_id'],
+    },
+    {
+      name: 'payment_refunds_refund_txn_ref',
+      fields: ['refund_txn_ref'],
+      unique: true,
+    },
+  ],
+})
+export default class PaymentRefund extends Model {
+  @PrimaryKey
+  @Default(DataType.UUIDV4)
+  @Column(DataType.UUID)
+  declare id: string;
+
+  @ForeignKey(() => PaymentTransaction)
+  @Column({
+    type: DataType.UUID,
+    allowNull: false,
+    field: 'payment_id',
+  })
+  paymentId: string;
+
+  @BelongsTo(() => PaymentTransaction)
+  payment: PaymentTransaction;
+
+  @Column({
+    type: DataType.STRING,
+    allowNull: false,
+    field: 'refund_txn_ref',
+  })
+  refundTxnRef: string;
+
+  @Column({
+    type: DataType.DECIMAL(12, 3),
+    allowNull: false,
+  })
+  amount: number;
+
+  @Column({
+    type: DataType.STRING(3),
+    allowNull: false,
+  })
+  currency: string;
+
+  @Column({
+    type: DataType.TEXT,
+    allowNull: true,
+  })
+  reason: string;
+
+  @Default(RefundStatus.PENDING)
+  @Column({
+    type: DataType.ENUM(...Object.values(RefundStatus)),
+    allowNull: false,
+  })
+  status: RefundStatus;
+
+  @Column({
+    type: DataType.STRING,
+    allowNull: true,
+    field: 'response_code',
+  })
+  responseCode: string;
+
+  @Column({
+    type: DataType.TEXT,
+    allowNull: true,
+    field: 'response_message',
+  })
+  responseMessage: string;
+
+  @Column({
+    type: DataType.STRING,
+    allowNull: true,
+    field: 'gateway_transaction_no',
+  })
+  gatewayTransactionNo: string;
+
+  @Column({
+    type: DataType.JSONB,
+    allowNull: true,
+    field: 'gateway_response',
+  })
+  gatewayResponse: Record<string, any>;
+
+  @Column({
+    type: DataType.STRING,
+    allowNull: true,
+    field: 'requested_by',
+  })
+  requestedBy: string;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+    field: 'processed_at',
+  })
+  processedAt: Date;
+
+  // When an approved refund was added to the payment's refundedAmount
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+    field: 'applied_at',
+  })
+  appliedAt: Date;
+
+  @CreatedAt
+  @Column({
+    type: DataType.DATE,
+    field: 'created_at',
+  })
+  declare createdAt: Date;
+
+  @UpdatedAt
+  @Column({
+    type: DataType.DATE,
+    field: 'updated_at',
+  })
+  declare updatedAt: Date;
+}
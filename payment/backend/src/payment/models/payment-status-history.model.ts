@@ -0,0 +1,91 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  PrimaryKey,
+  Default,
+  CreatedAt,
+  ForeignKey,
+  BelongsTo,
+} from 'sequelize-typescript';
+import PaymentTransaction from './payment-transaction.model';
+
+export enum StatusChangeSource {
+  API = 'api',
+  CALLBACK = 'callback',
+  NOTIFY = 'notify',
+  SYNC = 'sync',
+  ADMIN = 'admin',
+  REFUND = 'refund',
+  EXPIRY = 'expiry',
+}
+
+@Table({
+  tableName: 'payment_status_history',
+  timestamps: true,
+  updatedAt: false,
+  underscored: true,
+  indexes: [
+    {
+      name: 'payment_status_history_payment_id',
+      fields: ['payment_id'],
+    },
+  ],
+})
+export default class PaymentStatusHistory extends Model {
+  @PrimaryKey
+  @Default(DataType.UUIDV4)
+  @Column(DataType.UUID)
+  declare id: string;
+
+  @ForeignKey(() => PaymentTransaction)
+  @Column({
+    type: DataType.UUID,
+    allowNull: false,
+    field: 'payment_id',
+  })
+  paymentId: string;
+
+  @BelongsTo(() => PaymentTransaction)
+  payment: PaymentTransaction;
+
+  @Column({
+    type: DataType.STRING(32),
+    allowNull: true,
+    field: 'from_status',
+  })
+  fromStatus: string;
+
+  @Column({
+    type: DataType.STRING(32),
+    allowNull: false,
+    field: 'to_status',
+  })
+  toStatus: string;
+
+  @Column({
+    type: DataType.ENUM(...Object.values(StatusChangeSource)),
+    allowNull: false,
+  })
+  source: StatusChangeSource;
+
+  @Column({
+    type: DataType.TEXT,
+    allowNull: true,
+  })
+  reason: string;
+
+  @Column({
+    type: DataType.JSONB,
+    allowNull: true,
+  })
+  metadata: Record<string, any>;
+
+  @CreatedAt
+  @Column({
+    type: DataType.DATE,
+    field: 'created_at',
+  })
+  declare createdAt: Date;
+}
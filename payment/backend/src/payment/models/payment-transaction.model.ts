@@ -8,15 +8,25 @@ import {
   CreatedAt,
   UpdatedAt,
   Unique,
+  ForeignKey,
+  BelongsTo,
 } from 'sequelize-typescript';
+import MerchantAccount from './merchant-account.model';
 
 export enum TransactionStatus {
   PENDING = 'pending',
+  AUTHORIZED = 'authorized',
   SUCCESS = 'success',
   FAILED = 'failed',
   CANCELLED = 'cancelled',
   REFUNDED = 'refunded',
   PARTIALLY_REFUNDED = 'partially_refunded',
+  EXPIRED = 'expired',
+}
+
+export enum CaptureMode {
+  AUTO = 'auto',
+  MANUAL = 'manual',
 }
 
 @Table({
@@ -37,6 +47,34 @@ export enum TransactionStatus {
       name: 'payment_transactions_status',
       fields: ['status'],
     },
+    {
+      name: 'payment_transactions_created_at_id',
+      fields: ['created_at', 'id'],
+    },
+    {
+      name: 'payment_transactions_status_created_at',
+      fields: ['status', 'created_at'],
+    },
+    {
+      name: 'payment_transactions_customer_email',
+      fields: ['customer_email'],
+    },
+    {
+      name: 'payment_transactions_status_expires_at',
+      fields: ['status', 'expires_at'],
+    },
+    {
+      name: 'payment_transactions_status_next_sync_at',
+      fields: ['status', 'next_sync_at'],
+    },
+    {
+      name: 'payment_transactions_sync_dead_lettered_at',
+      fields: ['sync_dead_lettered_at'],
+    },
+    {
+      name: 'payment_transactions_merchant_account_id',
+      fields: ['merchant_account_id'],
+    },
   ],
 })
 export default class PaymentTransaction extends Model {
@@ -68,7 +106,7 @@ export default class PaymentTransaction extends Model {
   orderInfo: string;
 
   @Column({
-    type: DataType.DECIMAL(10, 2),
+    type: DataType.DECIMAL(12, 3),
     allowNull: false,
   })
   amount: number;
@@ -166,12 +204,31 @@ export default class PaymentTransaction extends Model {
 
   @Default(0)
   @Column({
-    type: DataType.DECIMAL(10, 2),
+    type: DataType.DECIMAL(12, 3),
     allowNull: false,
     field: 'refunded_amount',
   })
   refundedAmount: number;
 
+  @Default(CaptureMode.AUTO)
+  @Column({
+    type: DataType.ENUM(...Object.values(CaptureMode)),
+    allowNull: false,
+    field: 'capture_mode',
+  })
+  captureMode: CaptureMode;
+
+  @ForeignKey(() => MerchantAccount)
+  @Column({
+    type: DataType.UUID,
+    allowNull: true,
+    field: 'merchant_account_id',
+  })
+  merchantAccountId: string;
+
+  @BelongsTo(() => MerchantAccount)
+  merchantAccount: MerchantAccount;
+
   @Column({
     type: DataType.DATE,
     allowNull: true,
@@ -179,6 +236,63 @@ export default class PaymentTransaction extends Model {
   })
   processedAt: Date;
 
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+    field: 'captured_at',
+  })
+  capturedAt: Date;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+    field: 'voided_at',
+  })
+  voidedAt: Date;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+    field: 'expires_at',
+  })
+  expiresAt: Date;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+    field: 'expired_at',
+  })
+  expiredAt: Date;
+
+  @Default(0)
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: false,
+    field: 'sync_attempts',
+  })
+  syncAttempts: number;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+    field: 'next_sync_at',
+  })
+  nextSyncAt: Date;
+
+  @Column({
+    type: DataType.TEXT,
+    allowNull: true,
+    field: 'last_sync_error',
+  })
+  lastSyncError: string;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+    field: 'sync_dead_lettered_at',
+  })
+  syncDeadLetteredAt: Date;
+
   @CreatedAt
   @Column({
     type: DataType.DATE,
@@ -0,0 +1,149 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  PrimaryKey,
+  Default,
+  CreatedAt,
+  ForeignKey,
+  BelongsTo,
+} from 'sequelize-typescript';
+import ReconciliationRun from './reconciliation-run.model';
+import PaymentTransaction from './payment-transaction.model';
+
+export enum ReconciliationResult {
+  MATCHED = 'matched',
+  MISSING_LOCALLY = 'missing_locally',
+  MISSING_AT_GATEWAY = 'missing_at_gateway',
+  AMOUNT_MISMATCH = 'amount_mismatch',
+  STATUS_MISMATCH = 'status_mismatch',
+}
+
+@Table({
+  tableName: 'reconciliation_items',
+  timestamps: true,
+  updatedAt: false,
+  underscored: true,
+  indexes: [
+    {
+      name: 'reconciliation_items_run_id_result',
+      fields: ['run_id', 'result'],
+    },
+    {
+      name: 'reconciliation_items_payment_id',
+      fields: ['payment_id'],
+    },
+  ],
+})
+export default class ReconciliationItem extends Model {
+  @PrimaryKey
+  @Default(DataType.UUIDV4)
+  @Column(DataType.UUID)
+  declare id: string;
+
+  @ForeignKey(() => ReconciliationRun)
+  @Column({
+    type: DataType.UUID,
+    allowNull: false,
+    field: 'run_id',
+  })
+  runId: string;
+
+  @BelongsTo(() => ReconciliationRun)
+  run: ReconciliationRun;
+
+  @ForeignKey(() => PaymentTransaction)
+  @Column({
+    type: DataType.UUID,
+    allowNull: true,
+    field: 'payment_id',
+  })
+  paymentId: string;
+
+  @BelongsTo(() => PaymentTransaction)
+  payment: PaymentTransaction;
+
+  @Column({
+    type: DataType.ENUM(...Object.values(ReconciliationResult)),
+    allowNull: false,
+  })
+  result: ReconciliationResult;
+
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: true,
+    field: 'row_number',
+  })
+  rowNumber: number;
+
+  @Column({
+    type: DataType.STRING,
+    allowNull: true,
+    field: 'merchant_txn_ref',
+  })
+  merchantTxnRef: string;
+
+  @Column({
+    type: DataType.STRING,
+    allowNull: true,
+    field: 'transaction_id',
+  })
+  transactionId: string;
+
+  @Column({
+    type: DataType.STRING,
+    allowNull: true,
+    field: 'receipt_no',
+  })
+  receiptNo: string;
+
+  @Column({
+    type: DataType.STRING,
+    allowNull: true,
+    field: 'batch_no',
+  })
+  batchNo: string;
+
+  @Column({
+    type: DataType.DECIMAL(12, 3),
+    allowNull: true,
+    field: 'local_amount',
+  })
+  localAmount: number;
+
+  @Column({
+    type: DataType.DECIMAL(12, 3),
+    allowNull: true,
+    field: 'gateway_amount',
+  })
+  gatewayAmount: number;
+
+  @Column({
+    type: DataType.STRING(32),
+    allowNull: true,
+    field: 'local_status',
+  })
+  localStatus: string;
+
+  @Column({
+    type: DataType.STRING(64),
+    allowNull: true,
+    field: 'gateway_status',
+  })
+  gatewayStatus: string;
+
+  @Column({
+    type: DataType.JSONB,
+    allowNull: true,
+    field: 'raw_row',
+  })
+  rawRow: Record<string, string>;
+
+  @CreatedAt
+  @Column({
+    type: DataType.DATE,
+    field: 'created_at',
+  })
+  declare createdAt: Date;
+}
@@ -0,0 +1,124 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  PrimaryKey,
+  Default,
+  CreatedAt,
+  UpdatedAt,
+  HasMany,
+} from 'sequelize-typescript';
+import ReconciliationItem from './reconciliation-item.model';
+
+export enum ReconciliationRunStatus {
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
+
+@Table({
+  tableName: 'reconciliation_runs',
+  timestamps: true,
+  underscored: true,
+  indexes: [
+    {
+      name: 'reconciliation_runs_created_at',
+      fields: ['created_at'],
+    },
+  ],
+})
+export default class ReconciliationRun extends Model {
+  @PrimaryKey
+  @Default(DataType.UUIDV4)
+  @Column(DataType.UUID)
+  declare id: string;
+
+  @Column({
+    type: DataType.STRING,
+    allowNull: false,
+    field: 'file_name',
+  })
+  fileName: string;
+
+  @Column({
+    type: DataType.DATEONLY,
+    allowNull: true,
+    field: 'settlement_date',
+  })
+  settlementDate: string;
+
+  @Column({
+    type: DataType.JSONB,
+    allowNull: false,
+    defaultValue: [],
+    field: 'batch_numbers',
+  })
+  batchNumbers: string[];
+
+  @Column({
+    type: DataType.ENUM(...Object.values(ReconciliationRunStatus)),
+    allowNull: false,
+  })
+  status: ReconciliationRunStatus;
+
+  @Default(0)
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: false,
+    field: 'total_rows',
+  })
+  totalRows: number;
+
+  @Default(0)
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: false,
+    field: 'matched_count',
+  })
+  matchedCount: number;
+
+  @Default(0)
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: false,
+    field: 'mismatch_count',
+  })
+  mismatchCount: number;
+
+  @Column({
+    type: DataType.JSONB,
+    allowNull: true,
+  })
+  summary: Record<string, number>;
+
+  @Column({
+    type: DataType.TEXT,
+    allowNull: true,
+    field: 'error_message',
+  })
+  errorMessage: string;
+
+  @Column({
+    type: DataType.STRING,
+    allowNull: true,
+    field: 'started_by',
+  })
+  startedBy: string;
+
+  @HasMany(() => ReconciliationItem)
+  items: ReconciliationItem[];
+
+  @CreatedAt
+  @Column({
+    type: DataType.DATE,
+    field: 'created_at',
+  })
+  declare createdAt: Date;
+
+  @UpdatedAt
+  @Column({
+    type: DataType.DATE,
+    field: 'updated_at',
+  })
+  declare updatedAt: Date;
+}
@@ -0,0 +1,142 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  PrimaryKey,
+  Default,
+  CreatedAt,
+  UpdatedAt,
+  ForeignKey,
+  BelongsTo,
+} from 'sequelize-typescript';
+import WebhookEndpoint, { WebhookEvent } from './webhook-endpoint.model';
+
+export enum WebhookDeliveryStatus {
+  PENDING = 'pending',
+  DELIVERED = 'delivered',
+  FAILED = 'failed',
+}
+
+@Table({
+  tableName: 'webhook_deliveries',
+  timestamps: true,
+  underscored: true,
+  indexes: [
+    {
+      name: 'webhook_deliveries_endpoint_id',
+      fields: ['endpoint_id'],
+    },
+    {
+      name: 'webhook_deliveries_payment_id',
+      fields: ['payment_id'],
+    },
+  ],
+})
+export default class WebhookDelivery extends Model {
+  @PrimaryKey
+  @Default(DataType.UUIDV4)
+  @Column(DataType.UUID)
+  declare id: string;
+
+  @ForeignKey(() => WebhookEndpoint)
+  @Column({
+    type: DataType.UUID,
+    allowNull: false,
+    field: 'endpoint_id',
+  })
+  endpointId: string;
+
+  @BelongsTo(() => WebhookEndpoint)
+  endpoint: WebhookEndpoint;
+
+  @Column({
+    type: DataType.UUID,
+    allowNull: false,
+    field: 'event_id',
+  })
+  eventId: string;
+
+  @Column({
+    type: DataType.STRING,
+    allowNull: false,
+    field: 'event_type',
+  })
+  eventType: WebhookEvent;
+
+  @Column({
+    type: DataType.UUID,
+    allowNull: true,
+    field: 'payment_id',
+  })
+  paymentId: string;
+
+  @Column({
+    type: DataType.JSONB,
+    allowNull: false,
+  })
+  payload: Record<string, any>;
+
+  @Default(WebhookDeliveryStatus.PENDING)
+  @Column({
+    type: DataType.ENUM(...Object.values(WebhookDeliveryStatus)),
+    allowNull: false,
+  })
+  status: WebhookDeliveryStatus;
+
+  @Default(0)
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: false,
+  })
+  attempts: number;
+
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: true,
+    field: 'response_status',
+  })
+  responseStatus: number;
+
+  @Column({
+    type: DataType.TEXT,
+    allowNull: true,
+    field: 'response_body',
+  })
+  responseBody: string;
+
+  @Column({
+    type: DataType.TEXT,
+    allowNull: true,
+    field: 'last_error',
+  })
+  lastError: string;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+    field: 'last_attempt_at',
+  })
+  lastAttemptAt: Date;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+    field: 'delivered_at',
+  })
+  deliveredAt: Date;
+
+  @CreatedAt
+  @Column({
+    type: DataType.DATE,
+    field: 'created_at',
+  })
+  declare createdAt: Date;
+
+  @UpdatedAt
+  @Column({
+    type: DataType.DATE,
+    field: 'updated_at',
+  })
+  declare updatedAt: Date;
+}
@@ -0,0 +1,77 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  PrimaryKey,
+  Default,
+  CreatedAt,
+  UpdatedAt,
+} from 'sequelize-typescript';
+
+export enum WebhookEvent {
+  PAYMENT_AUTHORIZED = 'payment.authorized',
+  PAYMENT_SUCCEEDED = 'payment.succeeded',
+  PAYMENT_FAILED = 'payment.failed',
+  PAYMENT_CANCELLED = 'payment.cancelled',
+  PAYMENT_REFUNDED = 'payment.refunded',
+  PAYMENT_EXPIRED = 'payment.expired',
+}
+
+@Table({
+  tableName: 'webhook_endpoints',
+  timestamps: true,
+  underscored: true,
+})
+export default class WebhookEndpoint extends Model {
+  @PrimaryKey
+  @Default(DataType.UUIDV4)
+  @Column(DataType.UUID)
+  declare id: string;
+
+  @Column({
+    type: DataType.STRING(2048),
+    allowNull: false,
+  })
+  url: string;
+
+  @Column({
+    type: DataType.STRING,
+    allowNull: true,
+  })
+  description: string;
+
+  @Column({
+    type: DataType.STRING,
+    allowNull: false,
+  })
+  secret: string;
+
+  @Column({
+    type: DataType.JSONB,
+    allowNull: false,
+  })
+  events: WebhookEvent[];
+
+  @Default(true)
+  @Column({
+    type: DataType.BOOLEAN,
+    allowNull: false,
+    field: 'is_active',
+  })
+  isActive: boolean;
+
+  @CreatedAt
+  @Column({
+    type: DataType.DATE,
+    field: 'created_at',
+  })
+  declare createdAt: Date;
+
+  @UpdatedAt
+  @Column({
+    type: DataType.DATE,
+    field: 'updated_at',
+  })
+  declare updatedAt: Date;
+}
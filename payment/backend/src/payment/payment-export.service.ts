@@ -0,0 +1,202 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Response } from 'express';
+import * as ExcelJS from 'exceljs';
+
+import PaymentTransaction from './models/payment-transaction.model';
+import { PaymentSearchService } from './payment-search.service';
+import { ExportFormat, ExportPaymentsQueryDto } from './dto/payment-search.dto';
+import { CardMaskUtil } from './utils/card-mask.util';
+
+interface ExportColumn {
+  header: string;
+  key: string;
+  width: number;
+  value: (payment: Record<string, any>) => string | number | Date | null;
+}
+
+const EXPORT_COLUMNS: ExportColumn[] = [
+  { header: 'Payment ID', key: 'paymentId', width: 38, value: (p) => p.id },
+  { header: 'Merchant Txn Ref', key: 'merchantTxnRef', width: 32, value: (p) => p.merchantTxnRef },
+  { header: 'Gateway Transaction No', key: 'transactionId', width: 22, value: (p) => p.transactionId },
+  { header: 'Created At', key: 'createdAt', width: 24, value: (p) => p.createdAt },
+  { header: 'Processed At', key: 'processedAt', width: 24, value: (p) => p.processedAt },
+  { header: 'Status', key: 'status', width: 18, value: (p) => p.status },
+  { header: 'Currency', key: 'currency', width: 10, value: (p) => p.currency },
+  { header: 'Amount', key: 'amount', width: 14, value: (p) => Number(p.amount) },
+  { header: 'Refunded Amount', key: 'refundedAmount', width: 16, value: (p) => Number(p.refundedAmount) },
+  { header: 'Receipt No', key: 'receiptNo', width: 18, value: (p) => p.receiptNo },
+  { header: 'Auth Code', key: 'authCode', width: 12, value: (p) => p.authCode },
+  { header: 'Batch No', key: 'batchNo', width: 12, value: (p) => p.batchNo },
+  { header: 'Response Code', key: 'responseCode', width: 14, value: (p) => p.responseCode },
+  { header: 'Response Message', key: 'responseMessage', width: 30, value: (p) => p.responseMessage },
+  { header: 'Order Info', key: 'orderInfo', width: 30, value: (p) => p.orderInfo },
+  { header: 'Card Type', key: 'cardType', width: 10, value: (p) => p.gatewayResponse?.vpc_Card ?? null },
+  {
+    header: 'Card Number',
+    key: 'cardNumber',
+    width: 20,
+    value: (p) => CardMaskUtil.maskGatewayResponse(p.gatewayResponse).vpc_CardNum ?? null,
+  },
+];
+
+/**
+ * PaymentExportService
+ * 
+ * Streams payment_transactions to finance as CSV or XLSX. Rows are read in
+ * keyset-paginated batches and written straight to the HTTP response.
+ */
+@Injectable()
+export class PaymentExportService {
+  private readonly logger = new Logger(PaymentExportService.name);
+
+  constructor(private readonly paymentSearchService: PaymentSearchService) {}
+
+  /**
+   * Streams an export of the payments matching the query into the response
+   * 
+   * @param query - Export format and filters
+   * @param res - Express response the file is written to
+   */
+  async streamExport(query: ExportPaymentsQueryDto, res: Response): Promise<void> {
+    const format = query.format || ExportFormat.CSV;
+    const filename = `payments-${new Date().toISOString().slice(0, 10)}.${format}`;
+    const startTime = Date.now();
+
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.setHeader(
+      'Content-Type',
+      format === ExportFormat.XLSX
+        ? 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+        : 'text/csv; charset=utf-8'
+    );
+
+    const rows = this.paymentSearchService.iteratePayments(query);
+    const rowCount = format === ExportFormat.XLSX
+      ? await this.writeXlsx(rows, res)
+      : await this.writeCsv(rows, res);
+
+    if (!res.writableEnded) {
+      this.logger.warn('Payment export aborted by the client', {
+        format,
+        rowCount,
+        processingTime: Date.now() - startTime,
+      });
+      return;
+    }
+
+    this.logger.log('Payment export completed', {
+      format,
+      rowCount,
+      processingTime: Date.now() - startTime,
+    });
+  }
+
+  private async writeCsv(rows: AsyncGenerator<PaymentTransaction>, res: Response): Promise<number> {
+    let rowCount = 0;
+
+    if (!await this.write(res, `${EXPORT_COLUMNS.map((column) => this.toCsvField(column.header)).join(',')}\r\n`)) {
+      return rowCount;
+    }
+
+    // Leaving the loop early also closes the keyset generator
+    for await (const payment of rows) {
+      const line = EXPORT_COLUMNS
+        .map((column) => this.toCsvField(column.value(payment.dataValues)))
+        .join(',');
+      if (!await this.write(res, `${line}\r\n`)) {
+        return rowCount;
+      }
+      rowCount++;
+    }
+
+    res.end();
+    return rowCount;
+  }
+
+  private async writeXlsx(rows: AsyncGenerator<PaymentTransaction>, res: Response): Promise<number> {
+    let rowCount = 0;
+
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res, useStyles: false, useSharedStrings: false });
+    const worksheet = workbook.addWorksheet('Payments');
+    worksheet.columns = EXPORT_COLUMNS.map(({ header, key, width }) => ({ header, key, width }));
+
+    for await (const payment of rows) {
+      if (res.destroyed) {
+        return rowCount;
+      }
+
+      worksheet
+        .addRow(EXPORT_COLUMNS.map((column) => column.value(payment.dataValues)))
+        .commit();
+      rowCount++;
+
+      // The workbook writes into the response through its zip stream; stop
+      // adding rows while the socket is behind
+      if (res.writableNeedDrain) {
+        await this.drain(res);
+      }
+    }
+
+    if (res.destroyed) {
+      return rowCount;
+    }
+
+    worksheet.commit();
+    await workbook.commit();
+    return rowCount;
+  }
+
+  /**
+   * Writes a chunk, waiting for the socket to drain when its buffer is full.
+   * Resolves to false once the client has disconnected.
+   */
+  private async write(res: Response, chunk: string): Promise<boolean> {
+    if (res.destroyed) {
+      return false;
+    }
+
+    if (!res.write(chunk)) {
+      await this.drain(res);
+    }
+    return !res.destroyed;
+  }
+
+  /**
+   * Waits until the response accepts more data, or has closed or failed;
+   * a disconnected client never emits drain
+   */
+  private drain(res: Response): Promise<void> {
+    if (res.destroyed) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve) => {
+      const settle = () => {
+        res.off('drain', settle);
+        res.off('close', settle);
+        res.off('error', settle);
+        resolve();
+      };
+
+      res.on('drain', settle);
+      res.on('close', settle);
+      res.on('error', settle);
+    });
+  }
+
+  /**
+   * Quotes a CSV field and neutralises spreadsheet formula injection
+   */
+  private toCsvField(value: string | number | Date | null | undefined): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+
+    let text = value instanceof Date ? value.toISOString() : String(value);
+    if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+      text = `'${text}`;
+    }
+
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
@@ -0,0 +1,232 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { Op, WhereOptions, fn, col } from 'sequelize';
+
+import PaymentTransaction from './models/payment-transaction.model';
+import { ListPaymentsQueryDto, PaymentFilterDto } from './dto/payment-search.dto';
+import { PaymentListCursor, PaymentSummaryData } from './interfaces/payment.interface';
+import { Money } from './utils/money.util';
+
+/**
+ * PaymentSearchService
+ * 
+ * Read-only listing and aggregation over payment_transactions for the
+ * dashboard and reporting endpoints.
+ */
+@Injectable()
+export class PaymentSearchService {
+  constructor(
+    @InjectModel(PaymentTransaction)
+    private readonly paymentModel: typeof PaymentTransaction,
+  ) {}
+
+  /**
+   * Lists payments newest first using keyset (cursor) pagination
+   * 
+   * @param query - Filters, cursor and page size
+   * @returns Promise resolving to the page of payments and the next cursor
+   * @throws {BadRequestException} If the cursor is malformed
+   */
+  async listPayments(query: ListPaymentsQueryDto): Promise<{
+    items: PaymentTransaction[];
+    nextCursor: string | null;
+    hasMore: boolean;
+  }> {
+    const limit = query.limit || 20;
+    const conditions: WhereOptions[] = [this.buildWhere(query)];
+
+    if (query.cursor) {
+      conditions.push(this.buildKeysetCondition(this.decodeCursor(query.cursor)));
+    }
+
+    const rows = await this.paymentModel.findAll({
+      where: { [Op.and]: conditions },
+      order: [['createdAt', 'DESC'], ['id', 'DESC']],
+      limit: limit + 1,
+    });
+
+    const hasMore = rows.length > limit;
+    const items = hasMore ? rows.slice(0, limit) : rows;
+    const last = items[items.length - 1];
+
+    return {
+      items,
+      nextCursor: hasMore && last
+        ? this.encodeCursor({
+            createdAt: new Date(last.dataValues.createdAt).toISOString(),
+            id: last.dataValues.id,
+          })
+        : null,
+      hasMore,
+    };
+  }
+
+  /**
+   * Walks every payment matching the filters in keyset-paginated batches so
+   * that large exports never hold the whole result set in memory
+   * 
+   * @param filters - Payment filters
+   * @param batchSize - Rows fetched per query
+   * @returns Async iterator over matching payments, newest first
+   */
+  async *iteratePayments(filters: PaymentFilterDto, batchSize = 500): AsyncGenerator<PaymentTransaction> {
+    let cursor: PaymentListCursor | null = null;
+
+    while (true) {
+      const conditions: WhereOptions[] = [this.buildWhere(filters)];
+      if (cursor) {
+        conditions.push(this.buildKeysetCondition(cursor));
+      }
+
+      const rows = await this.paymentModel.findAll({
+        where: { [Op.and]: conditions },
+        order: [['createdAt', 'DESC'], ['id', 'DESC']],
+        limit: batchSize,
+      });
+
+      for (const row of rows) {
+        yield row;
+      }
+
+      if (rows.length < batchSize) {
+        return;
+      }
+
+      const last = rows[rows.length - 1];
+      cursor = {
+        createdAt: new Date(last.dataValues.createdAt).toISOString(),
+        id: last.dataValues.id,
+      };
+    }
+  }
+
+  /**
+   * Aggregates counts and totals per currency, and per status within each
+   * currency, for the given filters
+   * 
+   * @param filters - Payment filters
+   * @returns Promise resolving to per-currency and per-status counts and totals
+   */
+  async getSummary(filters: PaymentFilterDto): Promise<PaymentSummaryData> {
+    const rows = await this.paymentModel.findAll({
+      attributes: [
+        'currency',
+        'status',
+        [fn('COUNT', col('id')), 'count'],
+        [fn('COALESCE', fn('SUM', col('amount')), 0), 'totalAmount'],
+        [fn('COALESCE', fn('SUM', col('refunded_amount')), 0), 'totalRefunded'],
+      ],
+      where: this.buildWhere(filters),
+      group: ['currency', 'status'],
+      order: [['currency', 'ASC'], ['status', 'ASC']],
+      raw: true,
+    }) as unknown as Array<{ currency: string; status: string; count: string; totalAmount: string; totalRefunded: string }>;
+
+    const byStatus = rows.map((row) => ({
+      status: row.status,
+      currency: row.currency,
+      count: Number(row.count),
+      totalAmount: Number(row.totalAmount),
+      totalRefunded: Number(row.totalRefunded),
+    }));
+
+    // Added up in minor units so that per-currency totals are exact
+    const currencyTotals = new Map<string, { count: number; totalAmount: Money; totalRefunded: Money }>();
+    for (const row of rows) {
+      const totals = currencyTotals.get(row.currency) ?? {
+        count: 0,
+        totalAmount: Money.zero(row.currency),
+        totalRefunded: Money.zero(row.currency),
+      };
+
+      currencyTotals.set(row.currency, {
+        count: totals.count + Number(row.count),
+        totalAmount: totals.totalAmount.add(Money.fromDecimal(row.totalAmount, row.currency)),
+        totalRefunded: totals.totalRefunded.add(Money.fromDecimal(row.totalRefunded, row.currency)),
+      });
+    }
+
+    const byCurrency = [...currencyTotals].map(([currency, totals]) => ({
+      currency,
+      count: totals.count,
+      totalAmount: totals.totalAmount.toNumber(),
+      totalRefunded: totals.totalRefunded.toNumber(),
+    }));
+
+    return {
+      totalCount: byStatus.reduce((sum, row) => sum + row.count, 0),
+      byCurrency,
+      byStatus,
+    };
+  }
+
+  /**
+   * Translates filter parameters into a Sequelize where clause
+   * 
+   * @param filters - Payment filters
+   * @returns Where clause for payment_transactions
+   */
+  buildWhere(filters: PaymentFilterDto): WhereOptions {
+    const where: Record<string | symbol, any> = {};
+
+    if (filters.status) {
+      where.status = filters.status;
+    }
+    if (filters.merchantTxnRef) {
+      where.merchantTxnRef = filters.merchantTxnRef;
+    }
+    if (filters.currency) {
+      where.currency = filters.currency.toUpperCase();
+    }
+    if (filters.customerEmail) {
+      where.customerEmail = filters.customerEmail;
+    }
+    if (filters.responseCode) {
+      where.responseCode = filters.responseCode;
+    }
+    if (filters.orderInfo) {
+      where.orderInfo = { [Op.iLike]: `%${filters.orderInfo.replace(/[%_\\]/g, '\\$&')}%` };
+    }
+    if (filters.from || filters.to) {
+      where.createdAt = {
+        ...(filters.from && { [Op.gte]: new Date(filters.from) }),
+        ...(filters.to && { [Op.lt]: new Date(filters.to) }),
+      };
+    }
+    if (filters.minAmount !== undefined || filters.maxAmount !== undefined) {
+      where.amount = {
+        ...(filters.minAmount !== undefined && { [Op.gte]: filters.minAmount }),
+        ...(filters.maxAmount !== undefined && { [Op.lte]: filters.maxAmount }),
+      };
+    }
+
+    return where;
+  }
+
+  private buildKeysetCondition(cursor: PaymentListCursor): WhereOptions {
+    return {
+      [Op.or]: [
+        { createdAt: { [Op.lt]: cursor.createdAt } },
+        { createdAt: cursor.createdAt, id: { [Op.lt]: cursor.id } },
+      ],
+    };
+  }
+
+  private encodeCursor(cursor: PaymentListCursor): string {
+    return Buffer.from(JSON.stringify(cursor), 'utf8').toString('base64url');
+  }
+
+  private decodeCursor(value: string): PaymentListCursor {
+    try {
+      const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+
+      if (typeof cursor?.id !== 'string' || isNaN(Date.parse(cursor?.createdAt))) {
+        throw new Error('Malformed cursor');
+      }
+
+      return cursor;
+    } catch {
+      throw new BadRequestException('Invalid pagination cursor');
+    }
+  }
+}
@@ -13,10 +13,6 @@ import {
   UseInterceptors,
   ClassSerializerInterceptor,
   BadRequestException,
-  NotFoundException,
-  ServiceUnavailableException,
-  GatewayTimeoutException,
-  InternalServerErrorException,
 } from '@nestjs/common';
 import { Request, Response } from 'express';
 import { 
@@ -24,11 +20,28 @@ import {
 } from '@nestjs/swagger';
 
 import { CreatePaymentDto, RefundPaymentDto, PaymentResponseDto } from './dto/payment.dto';
+import { ExportPaymentsQueryDto, ListPaymentsQueryDto, PaymentFilterDto } from './dto/payment-search.dto';
 import { PaymentService } from './payment.service';
-import { HealthCheckResponse, PaymentApiResponse, PaymentCancellationData, PaymentCreationData, PaymentStatusData, RefundResponseData } from './interfaces/payment.interface';
-import { ApiServiceHealthCheck, CancelPaymentSwaggerDocs, CreatePaymentSwaggerDocs, GetPaymentStatusSwaggerDocs, PaymentCallbackSwaggerDocs, QueryPaymentDocs, RefundPaymentSwaggerDocs } from './decorators/payment.decorator';
-import { ManualPaymentSyncDocs, PaymentSyncQueueStatusDocs } from './decorators/queue.decorator';
+import { HealthCheckResponse, PaymentApiResponse, PaymentAuthorisationData, PaymentCancellationData, PaymentCreationData, PaymentListData, PaymentNotificationAck, PaymentStatusData, PaymentSummaryData, RefundRecordData, RefundResponseData, StatusHistoryData, SyncDeadLetterData } from './interfaces/payment.interface';
+import { CancelPaymentSwaggerDocs, CapturePaymentSwaggerDocs, CreatePaymentSwaggerDocs, ExportPaymentsSwaggerDocs, GetPaymentHistorySwaggerDocs, GetPaymentRefundsSwaggerDocs, GetPaymentStatusSwaggerDocs, ListPaymentsSwaggerDocs, PaymentCallbackSwaggerDocs, PaymentNotifySwaggerDocs, PaymentSummarySwaggerDocs, QueryPaymentDocs, RefundPaymentSwaggerDocs, VoidPaymentSwaggerDocs } from './decorators/payment.decorator';
+import { ListSyncDeadLettersDocs, ManualPaymentSyncDocs, PaymentSyncQueueStatusDocs, RequeueSyncDeadLetterDocs } from './decorators/queue.decorator';
+import { ListSyncDeadLettersQueryDto } from './dto/payment-sync.dto';
 import { UpdateQueueService } from './updateStatusQueue';
+import PaymentTransaction, { TransactionStatus } from './models/payment-transaction.model';
+import { IdempotencyScope } from './models/idempotency-key.model';
+import { Idempotent } from './decorators/idempotency.decorator';
+import { TransactionStatusService } from './transaction-status.service';
+import { PaymentSearchService } from './payment-search.service';
+import { PaymentExportService } from './payment-export.service';
+import { MigsResponseCodeUtil } from './utils/migs-response-code.util';
+import { ApiScope } from '../auth/models/api-client.model';
+import { Public, RequireScopes } from '../auth/decorators/auth.decorator';
+import { AuditActor } from '../audit/decorators/audit-actor.decorator';
+import { AuditContext } from '../audit/interfaces/audit.interface';
+import { HealthService } from '../health/health.service';
+import { ReadinessCheckDocs } from '../health/decorators/health.decorator';
+import { ApiError } from '../errors/api-error';
+import { ErrorCode } from '../errors/error-catalogue';
 
 /**
  * PaymentController
@@ -58,7 +71,11 @@ export class PaymentController {
    */
   constructor(
     private readonly paymentService: PaymentService,
-    private readonly updateQueueService: UpdateQueueService
+    private readonly updateQueueService: UpdateQueueService,
+    private readonly transactionStatusService: TransactionStatusService,
+    private readonly paymentSearchService: PaymentSearchService,
+    private readonly paymentExportService: PaymentExportService,
+    private readonly healthService: HealthService
   ) {}
 
   /**
@@ -68,9 +85,12 @@ export class PaymentController {
    * @returns Promise resolving to job creation confirmation
    */
   @Post('admin/sync-status')
+  @RequireScopes(ApiScope.ADMIN)
   @ManualPaymentSyncDocs()
-  async triggerStatusSync(): Promise<PaymentApiResponse<any>> {
-    return await this.updateQueueService.triggerStatusSync();
+  async triggerStatusSync(
+    @AuditActor() audit: AuditContext
+  ): Promise<PaymentApiResponse<any>> {
+    return await this.updateQueueService.triggerStatusSync(audit);
   }
 
 
@@ -81,11 +101,172 @@ export class PaymentController {
    * @returns Promise resolving to queue status information
    */
   @Get('admin/sync-status')
+  @RequireScopes(ApiScope.ADMIN)
   @PaymentSyncQueueStatusDocs()
   async getQueueStatus(): Promise<PaymentApiResponse<any>> {
     return await this.updateQueueService.getQueueStatus();
   }
 
+  /**
+   * Lists transactions dead-lettered by the status sync
+   * 
+   * These are pending transactions whose gateway query failed too many
+   * times (or with an error retrying cannot fix) and are no longer synced.
+   * 
+   * @param query - Page size
+   * @returns Promise resolving to dead-lettered transactions
+   */
+  @Get('admin/sync-dead-letters')
+  @RequireScopes(ApiScope.ADMIN)
+  @ListSyncDeadLettersDocs()
+  async listSyncDeadLetters(
+    @Query(new ValidationPipe({ transform: true })) query: ListSyncDeadLettersQueryDto
+  ): Promise<PaymentApiResponse<SyncDeadLetterData[]>> {
+    const transactions = await this.updateQueueService.listDeadLetters(query.limit);
+
+    return {
+      success: true,
+      data: transactions.map((transaction) => this.toDeadLetterData(transaction)),
+      message: 'Dead-lettered transactions retrieved successfully',
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Requeues a dead-lettered transaction for status sync
+   * 
+   * @param paymentId - ID of the dead-lettered payment
+   * @returns Promise resolving to requeue confirmation
+   */
+  @Post('admin/sync-dead-letters/:paymentId/requeue')
+  @RequireScopes(ApiScope.ADMIN)
+  @RequeueSyncDeadLetterDocs()
+  async requeueSyncDeadLetter(
+    @Param('paymentId') paymentId: string,
+    @AuditActor() audit: AuditContext
+  ): Promise<PaymentApiResponse<{ paymentId: string; nextSyncAt: Date }>> {
+    try {
+      const transaction = await this.updateQueueService.requeueDeadLetter(paymentId, audit);
+
+      return {
+        success: true,
+        data: {
+          paymentId: transaction.dataValues.id,
+          nextSyncAt: transaction.dataValues.nextSyncAt,
+        },
+        message: 'Transaction requeued for status sync',
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error('Dead-letter requeue failed via API', {
+        error: error.message,
+        paymentId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Searches payment transactions
+   * 
+   * Lists transactions newest first with cursor pagination, filtered by
+   * status, date range, amount range, currency, customer, response code and
+   * order information.
+   * 
+   * @param query - Filters, cursor and page size
+   * @returns Promise resolving to a page of payments
+   */
+  @Get()
+  @RequireScopes(ApiScope.READ)
+  @ListPaymentsSwaggerDocs()
+  async listPayments(
+    @Query(new ValidationPipe({ transform: true })) query: ListPaymentsQueryDto
+  ): Promise<PaymentApiResponse<PaymentListData>> {
+    const result = await this.paymentSearchService.listPayments(query);
+
+    const responseData: PaymentListData = {
+      items: result.items.map(({ dataValues }) => ({
+        paymentId: dataValues.id,
+        merchantTxnRef: dataValues.merchantTxnRef,
+        transactionId: dataValues.transactionId,
+        amount: dataValues.amount,
+        currency: dataValues.currency,
+        status: dataValues.status,
+        responseCode: dataValues.responseCode,
+        responseMessage: dataValues.responseMessage,
+        result: MigsResponseCodeUtil.describeStored(dataValues.responseCode, dataValues.gatewayResponse),
+        authCode: dataValues.authCode,
+        receiptNo: dataValues.receiptNo,
+        createdAt: dataValues.createdAt,
+        processedAt: dataValues.processedAt,
+      })),
+      nextCursor: result.nextCursor,
+      hasMore: result.hasMore,
+    };
+
+    return {
+      success: true,
+      data: responseData,
+      message: 'Payments retrieved successfully',
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Summarises payment transactions
+   * 
+   * Returns counts and totals per status for the same filters as the search.
+   * 
+   * @param filters - Payment filters
+   * @returns Promise resolving to per-status summary
+   */
+  @Get('summary')
+  @RequireScopes(ApiScope.READ)
+  @PaymentSummarySwaggerDocs()
+  async getPaymentSummary(
+    @Query(new ValidationPipe({ transform: true })) filters: PaymentFilterDto
+  ): Promise<PaymentApiResponse<PaymentSummaryData>> {
+    const summary = await this.paymentSearchService.getSummary(filters);
+
+    return {
+      success: true,
+      data: summary,
+      message: 'Payment summary retrieved successfully',
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Exports payment transactions
+   * 
+   * Streams matching transactions as CSV or XLSX without loading the full
+   * result set into memory. Card-related gateway fields are masked.
+   * 
+   * @param query - Export format and filters
+   * @param res - Express response the file is streamed to
+   */
+  @Get('export')
+  @RequireScopes(ApiScope.READ)
+  @ExportPaymentsSwaggerDocs()
+  async exportPayments(
+    @Query(new ValidationPipe({ transform: true })) query: ExportPaymentsQueryDto,
+    @Res() res: Response
+  ): Promise<void> {
+    try {
+      await this.paymentExportService.streamExport(query, res);
+    } catch (error) {
+      this.logger.error('Payment export failed via API', {
+        error: error.message,
+        format: query.format,
+      });
+
+      if (!res.headersSent) {
+        throw error;
+      }
+      res.destroy(error);
+    }
+  }
+
   /**
    * Creates a new payment transaction
    * 
@@ -97,7 +278,9 @@ export class PaymentController {
    * @returns Promise resolving to payment creation response
    */
   @Post('create')
+  @RequireScopes(ApiScope.CREATE)
   @CreatePaymentSwaggerDocs()
+  @Idempotent(IdempotencyScope.CREATE_PAYMENT)
   async createPayment(
     @Body(ValidationPipe) createPaymentDto: CreatePaymentDto,
     @Req() req: Request,
@@ -115,6 +298,7 @@ export class PaymentController {
         amount: dataValues.amount,
         currency: dataValues.currency,
         status: dataValues.status,
+        expiresAt: dataValues.expiresAt,
       };
 
       this.logger.log('Payment created via API', {
@@ -152,6 +336,7 @@ export class PaymentController {
    * @returns Promise resolving to redirect response
    */
   @Get('callback')
+  @Public()
   @PaymentCallbackSwaggerDocs()
   async handleCallback(
     @Query() responseData: PaymentResponseDto, 
@@ -159,7 +344,7 @@ export class PaymentController {
   ): Promise<void> {
     try {
 
-      const transaction = await this.paymentService.processPaymentResponse(responseData);
+      const { transaction, result } = await this.paymentService.processPaymentResponse(responseData);
       const { dataValues } = transaction;
 
       this.logger.log('Payment callback processed successfully', {
@@ -170,16 +355,18 @@ export class PaymentController {
 
       // Redirect to frontend with payment result
       const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
-      const redirectUrl = dataValues.status === 'success'
+      const isApproved = dataValues.status === TransactionStatus.SUCCESS
+        || dataValues.status === TransactionStatus.AUTHORIZED;
+      const redirectUrl = isApproved
         ? `${frontendUrl}/payment/success?ref=${dataValues.merchantTxnRef}&id=${dataValues.id}`
-        : `${frontendUrl}/payment/failure?ref=${dataValues.merchantTxnRef}&id=${dataValues.id}`;
+        : `${frontendUrl}/payment/failure?ref=${dataValues.merchantTxnRef}&id=${dataValues.id}&category=${result.category}`;
 
       return res.redirect(HttpStatus.FOUND, redirectUrl);
     } catch (error) {
       this.logger.error('Payment callback processing failed', {
         error: error.message,
         stack: error.stack,
-        responseData: JSON.stringify(responseData),
+        responseData,
       });
 
       const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
@@ -187,6 +374,58 @@ export class PaymentController {
     }
   }
 
+  /**
+   * Handles server-to-server payment notification from MIGS gateway
+   * 
+   * Applies the same hash verification and status update as the callback,
+   * but answers the gateway with a JSON acknowledgement instead of a redirect.
+   * A notification for a result already recorded by the callback (or vice
+   * versa) is acknowledged as a duplicate without changing the payment.
+   * 
+   * @param responseData - Payment response data posted by MIGS gateway
+   * @returns Promise resolving to notification acknowledgement
+   */
+  @Post('notify')
+  @Public()
+  @PaymentNotifySwaggerDocs()
+  async handleNotification(
+    @Body() responseData: PaymentResponseDto
+  ): Promise<PaymentApiResponse<PaymentNotificationAck>> {
+    try {
+      const result = await this.paymentService.processPaymentNotification(responseData);
+      const { dataValues } = result.transaction;
+
+      this.logger.log('Payment notification processed successfully', {
+        merchantTxnRef: dataValues.merchantTxnRef,
+        status: dataValues.status,
+        paymentId: dataValues.id,
+        duplicate: result.duplicate,
+      });
+
+      return {
+        success: true,
+        data: {
+          acknowledged: true,
+          paymentId: dataValues.id,
+          merchantTxnRef: dataValues.merchantTxnRef,
+          status: dataValues.status,
+          duplicate: result.duplicate,
+          result: result.result,
+        },
+        message: result.duplicate
+          ? 'Payment notification already processed'
+          : 'Payment notification processed successfully',
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error('Payment notification processing failed', {
+        error: error.message,
+        merchantTxnRef: responseData?.vpc_MerchTxnRef,
+      });
+      throw error;
+    }
+  }
+
   /**
    * Cancels a pending payment transaction
    * 
@@ -197,12 +436,14 @@ export class PaymentController {
    * @returns Promise resolving to cancellation confirmation
    */
   @Post('cancel/:paymentId')
+  @RequireScopes(ApiScope.CREATE)
   @CancelPaymentSwaggerDocs()
   async cancelPayment(
-    @Param('paymentId') paymentId: string
+    @Param('paymentId') paymentId: string,
+    @AuditActor() audit: AuditContext
   ): Promise<PaymentApiResponse<PaymentCancellationData>> {
     try {
-      const transaction = await this.paymentService.cancelPayment(paymentId);
+      const transaction = await this.paymentService.cancelPayment(paymentId, audit);
       const { dataValues } = transaction;
 
       const responseData: PaymentCancellationData = {
@@ -231,6 +472,103 @@ export class PaymentController {
     }
   }
 
+  /**
+   * Captures an authorised payment
+   * 
+   * Completes a manual-capture payment that was authorised at booking time,
+   * for example a rental deposit captured at move-in.
+   * 
+   * @param paymentId - ID of the authorised payment
+   * @returns Promise resolving to capture confirmation
+   */
+  @Post(':id/capture')
+  @RequireScopes(ApiScope.CREATE)
+  @CapturePaymentSwaggerDocs()
+  async capturePayment(
+    @Param('id') paymentId: string,
+    @AuditActor() audit: AuditContext
+  ): Promise<PaymentApiResponse<PaymentAuthorisationData>> {
+    try {
+      const transaction = await this.paymentService.capturePayment(paymentId, audit);
+      const { dataValues } = transaction;
+
+      const responseData: PaymentAuthorisationData = {
+        paymentId: dataValues.id,
+        merchantTxnRef: dataValues.merchantTxnRef,
+        amount: dataValues.amount,
+        currency: dataValues.currency,
+        status: dataValues.status,
+        capturedAt: dataValues.capturedAt,
+      };
+
+      this.logger.log('Payment captured via API', {
+        paymentId: dataValues.id,
+        merchantTxnRef: dataValues.merchantTxnRef,
+      });
+
+      return {
+        success: true,
+        data: responseData,
+        message: 'Payment captured successfully',
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error('Payment capture failed via API', {
+        error: error.message,
+        paymentId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Voids an authorised payment
+   * 
+   * Releases the hold on a manual-capture payment that will not be captured.
+   * 
+   * @param paymentId - ID of the authorised payment
+   * @returns Promise resolving to void confirmation
+   */
+  @Post(':id/void')
+  @RequireScopes(ApiScope.CREATE)
+  @VoidPaymentSwaggerDocs()
+  async voidPayment(
+    @Param('id') paymentId: string,
+    @AuditActor() audit: AuditContext
+  ): Promise<PaymentApiResponse<PaymentAuthorisationData>> {
+    try {
+      const transaction = await this.paymentService.voidPayment(paymentId, audit);
+      const { dataValues } = transaction;
+
+      const responseData: PaymentAuthorisationData = {
+        paymentId: dataValues.id,
+        merchantTxnRef: dataValues.merchantTxnRef,
+        amount: dataValues.amount,
+        currency: dataValues.currency,
+        status: dataValues.status,
+        voidedAt: dataValues.voidedAt,
+      };
+
+      this.logger.log('Payment authorisation voided via API', {
+        paymentId: dataValues.id,
+        merchantTxnRef: dataValues.merchantTxnRef,
+      });
+
+      return {
+        success: true,
+        data: responseData,
+        message: 'Payment authorisation voided successfully',
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error('Payment void failed via API', {
+        error: error.message,
+        paymentId,
+      });
+      throw error;
+    }
+  }
+
   /**
    * Processes a payment refund
    * 
@@ -242,12 +580,15 @@ export class PaymentController {
    * @returns Promise resolving to refund confirmation or HTML response
    */
   @Post('refund')
+  @RequireScopes(ApiScope.REFUND)
   @RefundPaymentSwaggerDocs()
+  @Idempotent(IdempotencyScope.REFUND_PAYMENT)
   async refundPayment(
-    @Body(ValidationPipe) refundData: RefundPaymentDto
+    @Body(ValidationPipe) refundData: RefundPaymentDto,
+    @AuditActor() audit: AuditContext
   ): Promise<PaymentApiResponse<RefundResponseData> | void> {
     try {
-      const transaction = await this.paymentService.refundPayment(refundData);
+      const transaction = await this.paymentService.refundPayment(refundData, audit);
       const { dataValues } = transaction;
 
       const responseData: RefundResponseData = {
@@ -279,6 +620,96 @@ export class PaymentController {
     }
   }
 
+  /**
+   * Retrieves the status history of a payment
+   * 
+   * Lists every status transition with its source (api, callback, sync,
+   * admin or refund) so that disputes can be traced.
+   * 
+   * @param paymentId - ID of the payment
+   * @returns Promise resolving to status history entries
+   */
+  @Get(':id/history')
+  @RequireScopes(ApiScope.READ)
+  @GetPaymentHistorySwaggerDocs()
+  async getPaymentHistory(
+    @Param('id') paymentId: string
+  ): Promise<PaymentApiResponse<StatusHistoryData[]>> {
+    try {
+      const history = await this.transactionStatusService.getHistory(paymentId);
+
+      const responseData: StatusHistoryData[] = history.map(({ dataValues }) => ({
+        fromStatus: dataValues.fromStatus,
+        toStatus: dataValues.toStatus,
+        source: dataValues.source,
+        reason: dataValues.reason,
+        metadata: dataValues.metadata,
+        createdAt: dataValues.createdAt,
+      }));
+
+      return {
+        success: true,
+        data: responseData,
+        message: 'Status history retrieved successfully',
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error('Status history retrieval failed via API', {
+        error: error.message,
+        paymentId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Lists the refund ledger for a payment
+   * 
+   * Returns every refund attempt recorded against the payment so that finance
+   * can reconcile partial refunds individually.
+   * 
+   * @param paymentId - ID of the payment whose refunds are listed
+   * @returns Promise resolving to refund ledger entries
+   */
+  @Get(':paymentId/refunds')
+  @RequireScopes(ApiScope.READ)
+  @GetPaymentRefundsSwaggerDocs()
+  async getPaymentRefunds(
+    @Param('paymentId') paymentId: string
+  ): Promise<PaymentApiResponse<RefundRecordData[]>> {
+    try {
+      const refunds = await this.paymentService.getPaymentRefunds(paymentId);
+
+      const responseData: RefundRecordData[] = refunds.map(({ dataValues }) => ({
+        refundId: dataValues.id,
+        paymentId: dataValues.paymentId,
+        refundTxnRef: dataValues.refundTxnRef,
+        amount: dataValues.amount,
+        currency: dataValues.currency,
+        reason: dataValues.reason,
+        status: dataValues.status,
+        responseCode: dataValues.responseCode,
+        responseMessage: dataValues.responseMessage,
+        requestedBy: dataValues.requestedBy,
+        createdAt: dataValues.createdAt,
+        processedAt: dataValues.processedAt,
+      }));
+
+      return {
+        success: true,
+        data: responseData,
+        message: 'Refunds retrieved successfully',
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error('Refund listing failed via API', {
+        error: error.message,
+        paymentId,
+      });
+      throw error;
+    }
+  }
+
   /**
    * Retrieves payment transaction status
    * 
@@ -289,32 +720,35 @@ export class PaymentController {
    * @returns Promise resolving to payment status information
    */
   @Get('status/:paymentId')
+  @RequireScopes(ApiScope.READ)
   @GetPaymentStatusSwaggerDocs()
   async getPaymentStatus(
     @Param('paymentId') paymentId: string
   ): Promise<PaymentApiResponse<PaymentStatusData>> {
     try {
-      const transaction = await this.paymentService.getPaymentStatus(paymentId);
+      const { dataValues } = await this.paymentService.getPaymentStatus(paymentId);
 
       const responseData: PaymentStatusData = {
-        paymentId: transaction.id,
-        merchantTxnRef: transaction.merchantTxnRef,
-        transactionId: transaction.transactionId,
-        amount: transaction.amount,
-        currency: transaction.currency,
-        status: transaction.status,
-        responseCode: transaction.responseCode,
-        responseMessage: transaction.responseMessage,
-        authCode: transaction.authCode,
-        receiptNo: transaction.receiptNo,
-        createdAt: transaction.createdAt,
-        processedAt: transaction.processedAt,
+        paymentId: dataValues.id,
+        merchantTxnRef: dataValues.merchantTxnRef,
+        transactionId: dataValues.transactionId,
+        amount: dataValues.amount,
+        currency: dataValues.currency,
+        status: dataValues.status,
+        responseCode: dataValues.responseCode,
+        responseMessage: dataValues.responseMessage,
+        result: MigsResponseCodeUtil.describeStored(dataValues.responseCode, dataValues.gatewayResponse),
+        authCode: dataValues.authCode,
+        receiptNo: dataValues.receiptNo,
+        createdAt: dataValues.createdAt,
+        processedAt: dataValues.processedAt,
+        expiresAt: dataValues.expiresAt,
       };
 
       this.logger.log('Payment status retrieved via API', {
-        paymentId: transaction.id,
-        merchantTxnRef: transaction.merchantTxnRef,
-        status: transaction.status,
+        paymentId: dataValues.id,
+        merchantTxnRef: dataValues.merchantTxnRef,
+        status: dataValues.status,
       });
 
       return {
@@ -343,6 +777,7 @@ export class PaymentController {
  * @returns Promise resolving to gateway query response
  */
 @Get('query/:merchantTxnRef')
+@RequireScopes(ApiScope.READ)
 @QueryPaymentDocs()
 async queryPayment(
   @Param('merchantTxnRef') merchantTxnRef: string,
@@ -373,47 +808,42 @@ async queryPayment(
       merchantTxnRef,
       errorType: error.constructor.name
     });
-
-    // Re-throw known exceptions, wrap unknown ones
-    if (error instanceof BadRequestException || 
-        error instanceof NotFoundException || 
-        error instanceof ServiceUnavailableException) {
-      throw error;
-    }
-
-    // Handle gateway-specific errors
-    if (error.message?.includes('timeout')) {
-      throw new GatewayTimeoutException('Gateway request timed out');
-    }
-    
-    if (error.message?.includes('Gateway')) {
-      throw new ServiceUnavailableException('Gateway service temporarily unavailable');
-    }
-
-    // Generic error handling
-    throw new InternalServerErrorException('Payment query failed due to internal error');
+    throw error;
   }
 }
 
   /**
    * Health check endpoint
    * 
-   * Provides service health status and basic system information.
-   * Used for monitoring, load balancing, and system health verification.
+   * Kept for monitors still pointed at it; answers exactly like the
+   * readiness probe at /health/ready.
    * 
-   * @returns Health check response with service status
+   * @returns Promise resolving to per-component readiness
    */
   @Get('health')
-  @ApiServiceHealthCheck()
-  healthCheck(): HealthCheckResponse {
-    this.logger.debug('Health check requested');
+  @Public()
+  @ReadinessCheckDocs()
+  async healthCheck(): Promise<HealthCheckResponse> {
+    const result = await this.healthService.checkReadiness();
+
+    if (result.status === 'unhealthy') {
+      throw new ApiError(ErrorCode.SERVICE_UNAVAILABLE, { details: result });
+    }
+
+    return result;
+  }
+
+  private toDeadLetterData(transaction: PaymentTransaction): SyncDeadLetterData {
+    const { dataValues } = transaction;
 
     return {
-      status: 'healthy',
-      service: 'MIGS Payment Gateway',
-      timestamp: new Date().toISOString(),
-      version: process.env.APP_VERSION || '1.0.0',
-      environment: process.env.NODE_ENV || 'development',
+      paymentId: dataValues.id,
+      merchantTxnRef: dataValues.merchantTxnRef,
+      status: dataValues.status,
+      syncAttempts: dataValues.syncAttempts,
+      lastSyncError: dataValues.lastSyncError,
+      deadLetteredAt: dataValues.syncDeadLetteredAt,
+      createdAt: dataValues.createdAt,
     };
   }
 }
@@ -495,6 +925,31 @@ async queryPayment(
  * 
  * ========================================================================
  * 
+ * API-002a: Payment Notification Endpoint
+ * POST /api/payments/notify
+ * 
+ * PURPOSE: Handles server-to-server payment notifications from MIGS gateway
+ * AUTHENTICATION: Not required (gateway notification)
+ * SECURITY: Same secure hash verification as the callback
+ * 
+ * REQUEST:
+ * - Method: POST
+ * - Body: PaymentResponseDto (form-encoded or JSON)
+ * - Source: MIGS Gateway only
+ * 
+ * RESPONSE:
+ * - Status: 200 OK
+ * - Body: PaymentNotificationAck with acknowledged and duplicate flags
+ * 
+ * ERROR RESPONSES:
+ * - 400 Bad Request: Invalid hash or missing parameters
+ * - 404 Not Found: Unknown merchant transaction reference
+ * 
+ * IDEMPOTENCY:
+ * - Whichever of callback and notification arrives second is a no-op
+ * 
+ * ========================================================================
+ * 
  * API-003: Payment Cancellation Endpoint
  * POST /api/payments/cancel/:paymentId
  * 
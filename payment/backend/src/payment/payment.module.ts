@@ -6,13 +6,50 @@ import { ScheduleModule } from '@nestjs/schedule';
 import { PaymentController } from './payment.controller';
 import { PaymentService } from './payment.service';
 import PaymentTransaction from './models/payment-transaction.model';
+import PaymentRefund from './models/payment-refund.model';
+import IdempotencyKey from './models/idempotency-key.model';
+import WebhookEndpoint from './models/webhook-endpoint.model';
+import WebhookDelivery from './models/webhook-delivery.model';
+import PaymentStatusHistory from './models/payment-status-history.model';
 import { UpdateQueueService } from './updateStatusQueue';
+import { IdempotencyService } from './idempotency.service';
+import { WebhookController } from './webhook.controller';
+import { WebhookService } from './webhook.service';
+import { WebhookDeliveryProcessor } from './processor/webhook-delivery.processor';
+import { PaymentExpiryProcessor } from './processor/payment-expiry.processor';
+import { PaymentStatusSyncProcessor } from './processor/payment-status-sync.processor';
+import { RefundResolutionProcessor } from './processor/refund-resolution.processor';
+import { TransactionStatusService } from './transaction-status.service';
+import { PaymentSearchService } from './payment-search.service';
+import { PaymentExportService } from './payment-export.service';
+import ReconciliationRun from './models/reconciliation-run.model';
+import ReconciliationItem from './models/reconciliation-item.model';
+import { ReconciliationController } from './reconciliation.controller';
+import { ReconciliationService } from './reconciliation.service';
+import MerchantAccount from './models/merchant-account.model';
+import MerchantSecretRotation from './models/merchant-secret-rotation.model';
+import { MerchantAccountController } from './merchant-account.controller';
+import { MerchantAccountService } from './merchant-account.service';
+import { MigsGatewayClient } from './migs-gateway.client';
+import { HealthModule } from '../health/health.module';
 
 
 @Module({
   imports: [
     ConfigModule,
-    SequelizeModule.forFeature([PaymentTransaction]),
+    HealthModule,
+    SequelizeModule.forFeature([
+      PaymentTransaction,
+      PaymentRefund,
+      IdempotencyKey,
+      WebhookEndpoint,
+      WebhookDelivery,
+      PaymentStatusHistory,
+      ReconciliationRun,
+      ReconciliationItem,
+      MerchantAccount,
+      MerchantSecretRotation,
+    ]),
     ScheduleModule.forRoot(),
     BullModule.forRootAsync({
       imports: [ConfigModule],
@@ -50,10 +87,53 @@ import { UpdateQueueService } from './updateStatusQueue';
           removeOnFail: 5,
         }
       })
+    }),
+    BullModule.registerQueueAsync({
+      name: 'payment-expiry',
+      imports: [ConfigModule],
+      inject: [ConfigService],
+      useFactory: () => ({
+        defaultJobOptions: {
+          attempts: 1,
+          removeOnComplete: 10,
+          removeOnFail: 5,
+        }
+      })
+    }),
+    BullModule.registerQueueAsync({
+      name: 'merchant-webhooks',
+      imports: [ConfigModule],
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => ({
+        defaultJobOptions: {
+          attempts: configService.get<number>('webhooks.maxAttempts'),
+          backoff: {
+            type: 'exponential',
+            delay: configService.get<number>('webhooks.backoffDelayMs'),
+          },
+          removeOnComplete: 100,
+          removeOnFail: 100,
+        }
+      })
     })
   ],
-  controllers: [PaymentController],
-  providers: [PaymentService, UpdateQueueService],
+  controllers: [PaymentController, WebhookController, ReconciliationController, MerchantAccountController],
+  providers: [
+    PaymentService,
+    UpdateQueueService,
+    IdempotencyService,
+    WebhookService,
+    WebhookDeliveryProcessor,
+    PaymentExpiryProcessor,
+    PaymentStatusSyncProcessor,
+    RefundResolutionProcessor,
+    TransactionStatusService,
+    PaymentSearchService,
+    PaymentExportService,
+    ReconciliationService,
+    MerchantAccountService,
+    MigsGatewayClient,
+  ],
   exports: [PaymentService, UpdateQueueService],
 })
 export class PaymentModule { }
@@ -1,16 +1,33 @@
 
 
-import { Injectable, Logger, BadRequestException, NotFoundException, Res, ServiceUnavailableException, GatewayTimeoutException } from '@nestjs/common';
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { InjectModel } from '@nestjs/sequelize';
 import { Sequelize } from 'sequelize-typescript';
-import axios, { AxiosResponse } from 'axios';
+import { Op, Transaction } from 'sequelize';
 import { v4 as uuidv4 } from 'uuid';
+import { isISO4217CurrencyCode } from 'class-validator';
 
-import PaymentTransaction, { TransactionStatus } from './models/payment-transaction.model';
+import PaymentTransaction, { CaptureMode, TransactionStatus } from './models/payment-transaction.model';
+import PaymentRefund, { RefundStatus } from './models/payment-refund.model';
 import { CreatePaymentDto, RefundPaymentDto, PaymentResponseDto } from './dto/payment.dto';
 import { MigsHashUtil, VpcSecureHashType } from './utils/hash.util';
-import { MigsConfiguration, PaymentCreationResponse } from './interfaces/payment.interface';
+import { GatewayResponseResult, MigsConfiguration, PaymentCreationResponse, StatusTransitionContext } from './interfaces/payment.interface';
+import { WebhookService } from './webhook.service';
+import { TransactionStatusService } from './transaction-status.service';
+import { StatusChangeSource } from './models/payment-status-history.model';
+import { TransactionStateMachine } from './utils/transaction-state-machine.util';
+import { MigsResponseCodeUtil, ResponseCodeCategory } from './utils/migs-response-code.util';
+import { MerchantAccountService } from './merchant-account.service';
+import { MetricsService } from '../metrics/metrics.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditOperation, AuditOutcome } from '../audit/models/audit-event.model';
+import { AuditContext } from '../audit/interfaces/audit.interface';
+import { Redactor } from '../redaction/redaction.util';
+import { ApiError } from '../errors/api-error';
+import { ErrorCode } from '../errors/error-catalogue';
+import { MigsGatewayClient } from './migs-gateway.client';
+import { Money } from './utils/money.util';
 
 
 /**
@@ -37,23 +54,52 @@ export class PaymentService {
    * @param configService - NestJS configuration service
    * @param sequelize - Sequelize database connection
    * @param paymentModel - Payment transaction model
+   * @param refundModel - Payment refund ledger model
+   * @param webhookService - Merchant webhook dispatcher
+   * @param transactionStatusService - Validated status transitions with history
+   * @param merchantAccountService - Per-brand MIGS merchant credentials
+   * @param metricsService - Prometheus metrics recorder
+   * @param auditService - Audit trail of money-moving operations
+   * @param redactor - Masks sensitive data before gateway payloads are stored
+   * @param gatewayClient - Sends AMA and queryDR requests to the gateway
    */
   constructor(
     private readonly configService: ConfigService,
     private readonly sequelize: Sequelize,
     @InjectModel(PaymentTransaction)
     private readonly paymentModel: typeof PaymentTransaction,
+    @InjectModel(PaymentRefund)
+    private readonly refundModel: typeof PaymentRefund,
+    private readonly webhookService: WebhookService,
+    private readonly transactionStatusService: TransactionStatusService,
+    private readonly merchantAccountService: MerchantAccountService,
+    private readonly metricsService: MetricsService,
+    private readonly auditService: AuditService,
+    private readonly redactor: Redactor,
+    private readonly gatewayClient: MigsGatewayClient,
   ) {
+    const currency = (this.configService.get<string>('MIGS_CURRENCY') || 'AED').toUpperCase();
+
     this.config = {
       merchantId: this.configService.get<string>('MIGS_MERCHANT_ID')!,
       accessCode: this.configService.get<string>('MIGS_ACCESS_CODE')!,
-      secureSecret: this.configService.get<string>('MIGS_SECURE_SECRET')!,
+      secureSecret: this.merchantAccountService.revealSecret(this.configService.get<string>('MIGS_SECURE_SECRET')!),
       gatewayUrl: this.configService.get<string>('MIGS_GATEWAY_URL')!,
-      currency: this.configService.get<string>('MIGS_CURRENCY')!,
+      currency,
+      allowedCurrencies: this.merchantAccountService.allowedCurrencies(
+        currency,
+        this.configService.get<string[]>('migs.allowedCurrencies'),
+      ),
       returnUrl: this.configService.get<string>('MIGS_RETURN_URL')!,
       gatewayQueryUrl: this.configService.get<string>('MIGS_GATEWAY_QUERY_URL')!
     };
 
+    // Still accepted for verification while the default merchant's secret is being rotated
+    const previousSecureSecret = this.configService.get<string>('MIGS_PREVIOUS_SECURE_SECRET');
+    if (previousSecureSecret) {
+      this.config.previousSecureSecret = this.merchantAccountService.revealSecret(previousSecureSecret);
+    }
+
 
     this.validateMigsConfiguration();
   }
@@ -74,6 +120,11 @@ export class PaymentService {
       }
     }
 
+    const unknownCurrencies = this.config.allowedCurrencies.filter((code) => !isISO4217CurrencyCode(code));
+    if (unknownCurrencies.length > 0) {
+      throw new Error(`MIGS configuration has unknown currency codes: ${unknownCurrencies.join(', ')}`);
+    }
+
     // Validate secure secret format (should be hexadecimal)
     if (!/^[0-9A-Fa-f]+$/.test(this.config.secureSecret)) {
       this.logger.warn('Secure secret might not be in hexadecimal format');
@@ -93,6 +144,8 @@ export class PaymentService {
    * @param paymentData - Payment creation data transfer object
    * @param clientIp - Optional client IP address for audit purposes
    * @returns Promise resolving to payment URL and transaction record
+   * @throws {ApiError} CURRENCY_NOT_ALLOWED if the merchant does not accept the currency
+   * @throws {ApiError} INVALID_AMOUNT if the amount has more decimals than the currency
    * @throws {Error} If payment creation fails
    */
   async createPayment(
@@ -103,30 +156,59 @@ export class PaymentService {
 
     try {
       const merchantTxnRef = this.generateTxnRef();
+      const captureMode = paymentData.captureMode || CaptureMode.AUTO;
+
+      // Brands with their own MIGS merchant are selected by code; otherwise the default merchant is used
+      const merchantAccount = paymentData.merchantCode
+        ? await this.merchantAccountService.getActiveAccountByCode(paymentData.merchantCode)
+        : null;
+      const config = this.merchantAccountService.toConfiguration(this.config, merchantAccount);
+
+      // Rejects currencies the merchant does not accept, and amounts with more
+      // decimals than the currency has, before anything is stored
+      const currency = (paymentData.currency || config.currency).toUpperCase();
+      if (!config.allowedCurrencies.includes(currency)) {
+        throw new ApiError(ErrorCode.CURRENCY_NOT_ALLOWED, {
+          message: `Currency ${currency} is not enabled for this merchant`,
+          details: { currency, allowedCurrencies: config.allowedCurrencies },
+        });
+      }
+      const amount = Money.fromDecimal(paymentData.amount, currency);
+
+      // Abandoned payments are expired by the expiry job once this passes
+      const ttlMinutes = paymentData.expiresInMinutes
+        ?? this.configService.get<number>('payments.pendingTtlMinutes')
+        ?? 30;
 
       // Create transaction record in database
       const paymentTransaction = await this.paymentModel.create({
         merchantTxnRef,
         orderInfo: paymentData.orderInfo,
-        amount: paymentData.amount,
-        currency: paymentData.currency || this.config.currency,
+        amount: amount.toNumber(),
+        currency: amount.currency,
         customerEmail: paymentData.customerEmail,
         customerPhone: paymentData.customerPhone,
-        returnUrl: paymentData.returnUrl || this.config.returnUrl,
+        returnUrl: paymentData.returnUrl || config.returnUrl,
         clientIp,
+        captureMode,
+        merchantAccountId: merchantAccount?.dataValues.id ?? null,
         status: TransactionStatus.PENDING,
+        expiresAt: new Date(Date.now() + ttlMinutes * 60 * 1000),
       }, { transaction });
 
+      await this.transactionStatusService.recordInitial(paymentTransaction, StatusChangeSource.API, transaction);
+
       // Prepare VPC data for MIGS gateway
       const vpcData: Record<string, string> = {
         vpc_Version: '1',
-        vpc_Command: 'pay',
-        vpc_AccessCode: this.config.accessCode,
+        vpc_Command: captureMode === CaptureMode.MANUAL ? 'authorise' : 'pay',
+        vpc_AccessCode: config.accessCode,
         vpc_MerchTxnRef: merchantTxnRef,
-        vpc_Merchant: this.config.merchantId,
+        vpc_Merchant: config.merchantId,
         vpc_OrderInfo: paymentData.orderInfo,
-        vpc_Amount: (paymentData.amount * 100).toString(), // Convert to cents
-        vpc_ReturnURL: this.config.returnUrl,
+        vpc_Amount: amount.toVpcAmount(),
+        vpc_Currency: amount.currency,
+        vpc_ReturnURL: config.returnUrl,
         vpc_Locale: 'en',
         vpc_Gateway: 'ssl'
       };
@@ -134,7 +216,7 @@ export class PaymentService {
       // Generate secure hash for data integrity
       const secureHash = MigsHashUtil.generateSecureHash(
         vpcData,
-        this.config.secureSecret,
+        config.secureSecret,
         this.vpcSecureAlgo
       );
       vpcData.vpc_SecureHash = secureHash;
@@ -142,8 +224,8 @@ export class PaymentService {
 
 
 
-      // Store VPC data for audit trail
-      await paymentTransaction.update({ vpcData }, { transaction });
+      // Store VPC data for audit trail, without the access code and hash
+      await paymentTransaction.update({ vpcData: this.redactor.redact(vpcData) }, { transaction });
 
       await transaction.commit();
 
@@ -162,39 +244,121 @@ export class PaymentService {
    * Validates secure hash and updates transaction status
    * 
    * @param responseData - Payment response data from MIGS
-   * @returns Promise resolving to updated payment transaction
-   * @throws {BadRequestException} If secure hash validation fails
-   * @throws {NotFoundException} If transaction is not found
+   * @returns Promise resolving to updated payment transaction and its catalogued result
+   * @throws {ApiError} HASH_MISMATCH if secure hash validation fails
+   * @throws {ApiError} PAYMENT_NOT_FOUND if transaction is not found
+   */
+  async processPaymentResponse(responseData: PaymentResponseDto): Promise<GatewayResponseResult> {
+    return this.applyGatewayResponse(responseData, StatusChangeSource.CALLBACK);
+  }
+
+  /**
+   * Processes a server-to-server payment notification from MIGS
+   * Uses the same verification as the browser redirect; whichever of the two
+   * arrives second is reported as a duplicate and changes nothing.
+   * 
+   * @param responseData - Payment response data posted by MIGS
+   * @returns Promise resolving to the transaction and whether it was already processed
+   * @throws {ApiError} HASH_MISMATCH if secure hash validation fails
+   * @throws {ApiError} PAYMENT_NOT_FOUND if transaction is not found
+   */
+  async processPaymentNotification(responseData: PaymentResponseDto): Promise<GatewayResponseResult> {
+    return this.applyGatewayResponse(responseData, StatusChangeSource.NOTIFY);
+  }
+
+  /**
+   * Verifies a gateway payment response and applies it to the transaction
+   * 
+   * @private
+   * @param responseData - Payment response data from MIGS
+   * @param source - Whether the response came from the redirect or a notification
+   * @returns Promise resolving to the transaction and whether it was already processed
    */
-  async processPaymentResponse(responseData: PaymentResponseDto): Promise<PaymentTransaction> {
+  private async applyGatewayResponse(
+    responseData: PaymentResponseDto,
+    source: StatusChangeSource
+  ): Promise<GatewayResponseResult> {
     const transaction = await this.sequelize.transaction();
-    console.log(responseData)
     try {
+      // Locate the corresponding transaction; its merchant determines the secret
+      const paymentTransaction = await this.paymentModel.findOne({
+        where: { merchantTxnRef: responseData.vpc_MerchTxnRef },
+        transaction,
+        lock: true,
+      });
+
+      if (!paymentTransaction) {
+        throw new ApiError(ErrorCode.PAYMENT_NOT_FOUND, {
+          message: `Transaction not found: ${responseData.vpc_MerchTxnRef}`,
+        });
+      }
+
+      const config = await this.resolveMerchantConfig(paymentTransaction.dataValues.merchantAccountId);
+
       // Verify secure hash for response integrity
-      const isValidHash = MigsHashUtil.verifySecureHash(
+      const isValidHash = MigsHashUtil.verifySecureHashWithAny(
         responseData,
-        this.config.secureSecret,
+        [config.secureSecret, config.previousSecureSecret],
         this.vpcSecureAlgo
       );
 
       if (!isValidHash) {
-        throw new BadRequestException('Invalid secure hash - response integrity compromised');
+        this.metricsService.recordHashVerificationFailure(source);
+        throw new ApiError(ErrorCode.HASH_MISMATCH);
       }
 
-      // Locate the corresponding transaction
-      const paymentTransaction = await this.paymentModel.findOne({
-        where: { merchantTxnRef: responseData.vpc_MerchTxnRef },
-        transaction,
-      });
+      // Determine transaction status from the response code catalogue; manual
+      // capture payments are only authorised until captured explicitly
+      const result = MigsResponseCodeUtil.describe(
+        responseData.vpc_TxnResponseCode,
+        responseData.vpc_AcqResponseCode
+      );
+      const transactionStatus = MigsResponseCodeUtil.resolveStatus(
+        result,
+        paymentTransaction.dataValues.captureMode
+      );
 
-      if (!paymentTransaction) {
-        throw new NotFoundException(`Transaction not found: ${responseData.vpc_MerchTxnRef}`);
+      // A decline arriving after the payment expired changes nothing
+      if (paymentTransaction.dataValues.status === TransactionStatus.EXPIRED
+        && transactionStatus === TransactionStatus.FAILED) {
+        await transaction.commit();
+        this.logger.log('Late decline for expired payment ignored', {
+          merchantTxnRef: responseData.vpc_MerchTxnRef,
+          responseCode: result.code,
+          source,
+        });
+        return { transaction: paymentTransaction, duplicate: true, result };
+      }
+
+      // A result the gateway has not settled yet is left for the status sync
+      if (!transactionStatus) {
+        await transaction.commit();
+        this.logger.warn('Gateway response has no final result yet', {
+          merchantTxnRef: responseData.vpc_MerchTxnRef,
+          responseCode: result.code,
+          source,
+        });
+        return { transaction: paymentTransaction, duplicate: false, result };
       }
 
-      // Determine transaction status based on response code
-      const transactionStatus = responseData.vpc_TxnResponseCode === '0'
-        ? TransactionStatus.SUCCESS
-        : TransactionStatus.FAILED;
+      // The redirect and the notification carry the same result; once one of
+      // them (or anything later, such as a capture or refund) has been applied
+      // the other is a no-op
+      const { dataValues } = paymentTransaction;
+      const alreadyProcessed = dataValues.status === transactionStatus
+        || (!!dataValues.processedAt
+          && !!dataValues.transactionId
+          && String(dataValues.transactionId) === String(responseData.vpc_TransactionNo));
+
+      if (alreadyProcessed) {
+        await transaction.commit();
+        this.logger.log('Duplicate payment response ignored', {
+          merchantTxnRef: responseData.vpc_MerchTxnRef,
+          status: dataValues.status,
+          source,
+        });
+        return { transaction: paymentTransaction, duplicate: true, result };
+      }
 
       // Update transaction with gateway response
       const updateData = {
@@ -204,20 +368,33 @@ export class PaymentService {
         authCode: responseData.vpc_AuthorizeId,
         receiptNo: responseData.vpc_ReceiptNo,
         batchNo: responseData.vpc_BatchNo,
-        gatewayResponse: responseData,
+        gatewayResponse: this.redactor.redact(responseData),
         processedAt: new Date(),
-        status: transactionStatus,
       };
 
-      await paymentTransaction.update(updateData, { transaction });
+      await this.transactionStatusService.transition(
+        paymentTransaction,
+        transactionStatus,
+        {
+          source,
+          reason: `Gateway response code ${result.code}: ${result.category}`,
+          metadata: { acquirerCode: result.acquirerCode, retryable: result.retryable },
+        },
+        updateData,
+        transaction
+      );
       await transaction.commit();
 
-      return paymentTransaction.reload();
+      const updatedTransaction = await paymentTransaction.reload();
+      await this.webhookService.notifyStatusChange(updatedTransaction);
+
+      return { transaction: updatedTransaction, duplicate: false, result };
     } catch (error) {
       await transaction.rollback();
       this.logger.error('Error processing payment response', {
         error: error.message,
-        merchantTxnRef: responseData.vpc_MerchTxnRef
+        merchantTxnRef: responseData.vpc_MerchTxnRef,
+        source,
       });
       throw error;
     }
@@ -227,136 +404,524 @@ export class PaymentService {
    * Cancels a pending payment transaction
    * 
    * @param paymentId - ID of the payment to cancel
+   * @param audit - Actor of the cancellation, for the audit trail
    * @returns Promise resolving to updated payment transaction
-   * @throws {NotFoundException} If payment is not found
-   * @throws {BadRequestException} If payment cannot be cancelled
+   * @throws {ApiError} PAYMENT_NOT_FOUND if payment is not found
+   * @throws {ApiError} INVALID_PAYMENT_STATE if payment cannot be cancelled
    */
-  async cancelPayment(paymentId: string): Promise<PaymentTransaction> {
+  async cancelPayment(paymentId: string, audit: AuditContext): Promise<PaymentTransaction> {
     const transaction = await this.sequelize.transaction();
+    let before: Record<string, any> | null = null;
 
     try {
-      const paymentTransaction = await this.paymentModel.findByPk(paymentId, { transaction });
+      const paymentTransaction = await this.paymentModel.findByPk(paymentId, { transaction, lock: true });
 
       if (!paymentTransaction) {
-        throw new NotFoundException(`Payment not found: ${paymentId}`);
+        throw new ApiError(ErrorCode.PAYMENT_NOT_FOUND, { message: `Payment not found: ${paymentId}` });
       }
 
+      before = AuditService.snapshotPayment(paymentTransaction);
+
       if (paymentTransaction.dataValues.status !== TransactionStatus.PENDING) {
-        throw new BadRequestException(
-          `Payment cannot be cancelled - current status: ${paymentTransaction.dataValues.status}`
-        );
+        throw new ApiError(ErrorCode.INVALID_PAYMENT_STATE, {
+          message: `Payment cannot be cancelled - current status: ${paymentTransaction.dataValues.status}`,
+        });
       }
 
-      await paymentTransaction.update({
-        status: TransactionStatus.CANCELLED,
-        processedAt: new Date(),
-      }, { transaction });
+      await this.transactionStatusService.transition(
+        paymentTransaction,
+        TransactionStatus.CANCELLED,
+        { source: StatusChangeSource.API, reason: 'Cancelled before payment completion' },
+        { processedAt: new Date() },
+        transaction
+      );
+
+      await this.auditService.record(audit, {
+        operation: AuditOperation.PAYMENT_CANCEL,
+        paymentId,
+        before,
+        after: AuditService.snapshotPayment(paymentTransaction),
+      }, transaction);
 
       await transaction.commit();
 
       this.logger.log('Payment cancelled successfully', { paymentId });
 
-      return paymentTransaction.reload();
+      const updatedTransaction = await paymentTransaction.reload();
+      await this.webhookService.notifyStatusChange(updatedTransaction);
+
+      return updatedTransaction;
     } catch (error) {
       await transaction.rollback();
       this.logger.error('Error cancelling payment', { error: error.message, paymentId });
+
+      if (before) {
+        await this.auditService.recordFailure(audit, { operation: AuditOperation.PAYMENT_CANCEL, paymentId, before }, error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Captures a previously authorised manual-capture payment
+   * 
+   * @param paymentId - ID of the authorised payment
+   * @param audit - Actor of the capture, for the audit trail
+   * @returns Promise resolving to updated payment transaction
+   * @throws {ApiError} PAYMENT_NOT_FOUND if payment is not found
+   * @throws {ApiError} INVALID_PAYMENT_STATE or GATEWAY_DECLINED if payment is not authorised or the gateway declines
+   */
+  async capturePayment(paymentId: string, audit: AuditContext): Promise<PaymentTransaction> {
+    return this.settleAuthorisation(paymentId, 'capture', audit);
+  }
+
+  /**
+   * Voids a previously authorised manual-capture payment, releasing the hold
+   * 
+   * @param paymentId - ID of the authorised payment
+   * @param audit - Actor of the void, for the audit trail
+   * @returns Promise resolving to updated payment transaction
+   * @throws {ApiError} PAYMENT_NOT_FOUND if payment is not found
+   * @throws {ApiError} INVALID_PAYMENT_STATE or GATEWAY_DECLINED if payment is not authorised or the gateway declines
+   */
+  async voidPayment(paymentId: string, audit: AuditContext): Promise<PaymentTransaction> {
+    return this.settleAuthorisation(paymentId, 'voidAuthorisation', audit);
+  }
+
+  /**
+   * Issues a capture or voidAuthorisation command for an authorised payment
+   * and moves it to SUCCESS or CANCELLED respectively
+   * 
+   * @private
+   * @param paymentId - ID of the authorised payment
+   * @param command - MIGS AMA command to issue
+   * @param audit - Actor of the command, for the audit trail
+   * @returns Promise resolving to updated payment transaction
+   */
+  private async settleAuthorisation(
+    paymentId: string,
+    command: 'capture' | 'voidAuthorisation',
+    audit: AuditContext
+  ): Promise<PaymentTransaction> {
+    const transaction = await this.sequelize.transaction();
+    const operation = command === 'capture' ? AuditOperation.PAYMENT_CAPTURE : AuditOperation.PAYMENT_VOID;
+    let before: Record<string, any> | null = null;
+
+    try {
+      const paymentTransaction = await this.paymentModel.findByPk(paymentId, { transaction, lock: true });
+
+      if (!paymentTransaction) {
+        throw new ApiError(ErrorCode.PAYMENT_NOT_FOUND, { message: `Payment not found: ${paymentId}` });
+      }
+
+      before = AuditService.snapshotPayment(paymentTransaction);
+      const { dataValues } = paymentTransaction;
+
+      if (dataValues.status !== TransactionStatus.AUTHORIZED) {
+        throw new ApiError(ErrorCode.INVALID_PAYMENT_STATE, {
+          message: `Payment cannot be ${command === 'capture' ? 'captured' : 'voided'} - current status: ${dataValues.status}`,
+        });
+      }
+
+      const config = await this.resolveMerchantConfig(dataValues.merchantAccountId);
+
+      const vpcData = {
+        vpc_Version: '1',
+        vpc_Command: command,
+        vpc_AccessCode: config.accessCode,
+        vpc_MerchTxnRef: this.generateAuthorisationTxnRef(command),
+        vpc_Merchant: config.merchantId,
+        vpc_TransNo: dataValues.transactionId,
+        vpc_Amount: Money.fromDecimal(dataValues.amount, dataValues.currency).toVpcAmount(),
+      };
+
+      const secureHash = MigsHashUtil.generateSecureHash(
+        vpcData,
+        config.secureSecret,
+        this.vpcSecureAlgo
+      );
+      vpcData["vpc_SecureHash"] = secureHash;
+      vpcData["vpc_SecureHashType"] = this.vpcSecureAlgo;
+
+      const response = this.processQueryResponse(
+        await this.gatewayClient.send(this.config.gatewayQueryUrl, vpcData),
+        dataValues.merchantTxnRef,
+        config
+      );
+
+      if (String(response.vpc_TxnResponseCode) !== '0') {
+        throw new ApiError(ErrorCode.GATEWAY_DECLINED, {
+          message: `Gateway declined ${command} - response code: ${response.vpc_TxnResponseCode}`,
+          details: { responseCode: String(response.vpc_TxnResponseCode) },
+        });
+      }
+
+      const now = new Date();
+      await this.transactionStatusService.transition(
+        paymentTransaction,
+        command === 'capture' ? TransactionStatus.SUCCESS : TransactionStatus.CANCELLED,
+        { source: StatusChangeSource.API, reason: `Authorisation ${command === 'capture' ? 'captured' : 'voided'}` },
+        command === 'capture'
+          ? { capturedAt: now, processedAt: now }
+          : { voidedAt: now, processedAt: now },
+        transaction
+      );
+
+      await this.auditService.record(audit, {
+        operation,
+        paymentId,
+        before,
+        after: AuditService.snapshotPayment(paymentTransaction),
+        metadata: { merchTxnRef: vpcData.vpc_MerchTxnRef },
+      }, transaction);
+
+      await transaction.commit();
+
+      this.logger.log(`Payment ${command} processed successfully`, { paymentId });
+
+      const updatedTransaction = await paymentTransaction.reload();
+      await this.webhookService.notifyStatusChange(updatedTransaction);
+
+      return updatedTransaction;
+    } catch (error) {
+      await transaction.rollback();
+      this.logger.error(`Error processing payment ${command}`, { error: error.message, paymentId });
+
+      if (before) {
+        await this.auditService.recordFailure(audit, { operation, paymentId, before }, error);
+      }
       throw error;
     }
   }
 
   /**
    * Processes a payment refund through MIGS gateway
-   * Supports both partial and full refunds
+   * Supports both partial and full refunds. Every attempt is recorded in the
+   * refund ledger, including attempts declined by the gateway.
    * 
    * @param refundData - Refund request data
-   * @param res - Express response object for HTML responses
+   * @param audit - Actor of the refund, for the audit trail
    * @returns Promise resolving to updated payment transaction
-   * @throws {NotFoundException} If payment is not found
-   * @throws {BadRequestException} If refund conditions are not met
+   * @throws {ApiError} PAYMENT_NOT_FOUND if payment is not found
+   * @throws {ApiError} INVALID_PAYMENT_STATE or REFUND_EXCEEDS_AVAILABLE if refund conditions are not met
+   * @throws {ApiError} GATEWAY_DECLINED if the gateway declines the refund; the attempt stays in the ledger
    */
-  async refundPayment(refundData: RefundPaymentDto): Promise<PaymentTransaction> {
+  async refundPayment(refundData: RefundPaymentDto, audit: AuditContext): Promise<PaymentTransaction> {
 
     const transaction = await this.sequelize.transaction();
+    let refundRecord: PaymentRefund | null = null;
+    let before: Record<string, any> | null = null;
+    let gatewayCalled = false;
 
     try {
-      const paymentTransaction = await this.paymentModel.findByPk(refundData.paymentId, { transaction });
+      // FOR NO KEY UPDATE rather than FOR UPDATE: the ledger row below is inserted on
+      // another connection, and its foreign key check takes FOR KEY SHARE on this row
+      const paymentTransaction = await this.paymentModel.findByPk(refundData.paymentId, {
+        transaction,
+        lock: transaction.LOCK.NO_KEY_UPDATE,
+      });
 
       if (!paymentTransaction) {
-        throw new NotFoundException(`Payment not found: ${refundData.paymentId}`);
+        throw new ApiError(ErrorCode.PAYMENT_NOT_FOUND, { message: `Payment not found: ${refundData.paymentId}` });
       }
 
+      before = AuditService.snapshotPayment(paymentTransaction);
       const { dataValues } = paymentTransaction;
      
-      if (dataValues.status !== TransactionStatus.SUCCESS) {
-        throw new BadRequestException(
-          `Payment not eligible for refund - current status: ${dataValues.status}`
-        );
+      if (!TransactionStateMachine.canTransition(dataValues.status, TransactionStatus.REFUNDED)) {
+        throw new ApiError(ErrorCode.INVALID_PAYMENT_STATE, {
+          message: `Payment not eligible for refund - current status: ${dataValues.status}`,
+        });
       }
 
-      const availableAmount = Number(dataValues.amount) - Number(dataValues.refundedAmount);
-
-      if (refundData.amount > availableAmount) {
-        throw new BadRequestException(
-          `Refund amount (${refundData.amount}) exceeds available amount (${availableAmount})`
-        );
-
+      const paidAmount = Money.fromDecimal(dataValues.amount, dataValues.currency);
+      const alreadyRefunded = Money.fromDecimal(dataValues.refundedAmount, dataValues.currency);
+      // refundedAmount holds the applied refunds; the ledger adds the ones not applied yet
+      const outstandingRefunds = await this.sumOutstandingRefunds(dataValues.id, dataValues.currency, transaction);
+      const availableAmount = paidAmount.subtract(alreadyRefunded).subtract(outstandingRefunds);
+      const requestedAmount = Money.fromDecimal(refundData.amount, dataValues.currency);
+
+      if (requestedAmount.greaterThan(availableAmount)) {
+        throw new ApiError(ErrorCode.REFUND_EXCEEDS_AVAILABLE, {
+          message: `Refund amount (${requestedAmount.toDecimalString()}) exceeds available amount (${availableAmount.toDecimalString()})`,
+          details: { requestedAmount: requestedAmount.toNumber(), availableAmount: availableAmount.toNumber() },
+        });
       }
 
       // Prepare refund request for MIGS
       const refundTxnRef = this.generateRefundTxnRef();
+
+      // Record the attempt outside the DB transaction so it survives a rollback
+      refundRecord = await this.refundModel.create({
+        paymentId: dataValues.id,
+        refundTxnRef,
+        amount: requestedAmount.toNumber(),
+        currency: dataValues.currency,
+        reason: refundData.reason,
+        // The authenticated API client, never a name taken from the request body
+        requestedBy: audit.actorId,
+        status: RefundStatus.PENDING,
+      });
+
+      const config = await this.resolveMerchantConfig(dataValues.merchantAccountId);
+
       const vpcData = {
         vpc_Version: '1',
         vpc_Command: 'refund',
-        vpc_AccessCode: this.config.accessCode,
+        vpc_AccessCode: config.accessCode,
         vpc_MerchTxnRef: refundTxnRef,
-        vpc_Merchant: this.config.merchantId,
+        vpc_Merchant: config.merchantId,
         vpc_TransactionNo: dataValues.transactionId,
         vpc_TransNo: dataValues.transactionId,
-        vpc_Amount: (refundData.amount * 100).toString(),
+        vpc_Amount: requestedAmount.toVpcAmount(),
       };
 
       const secureHash = MigsHashUtil.generateSecureHash(
         vpcData,
-        this.config.secureSecret,
+        config.secureSecret,
         this.vpcSecureAlgo
       );
       vpcData["vpc_SecureHash"] = secureHash;
       vpcData["vpc_SecureHashType"] = this.vpcSecureAlgo;
 
-      const response = await this.makeApiCall(vpcData);
+      gatewayCalled = true;
+      const response = await this.gatewayClient.send(this.config.gatewayQueryUrl, vpcData);
 
-      console.log("response \n", response);
-      const processResponse = this.processQueryResponse(response)
-      console.log("hello \n prcess response \n", processResponse);
-      // Process successful refund
-      if (response.vpc_TxnResponseCode === '0') {
-        const newRefundedAmount = Number(paymentTransaction.refundedAmount) + refundData.amount;
-        const newStatus = newRefundedAmount >= Number(paymentTransaction.amount)
-          ? TransactionStatus.REFUNDED
-          : TransactionStatus.PARTIALLY_REFUNDED;
+      this.processQueryResponse(response, refundTxnRef, config);
+
+      const responseCode = response.vpc_TxnResponseCode != null ? String(response.vpc_TxnResponseCode) : undefined;
+      const refundSucceeded = responseCode === '0';
 
-        await paymentTransaction.update({
-          refundedAmount: newRefundedAmount,
-          status: newStatus,
-        }, { transaction });
+      // The gateway reports the amount it actually refunded, which may be less than requested
+      const refundedAmount = refundSucceeded && response.vpc_Amount
+        ? Money.fromVpcAmount(response.vpc_Amount, dataValues.currency)
+        : requestedAmount;
+
+      if (!refundedAmount.equals(requestedAmount)) {
+        this.logger.warn('Gateway refunded a different amount than requested', {
+          paymentId: refundData.paymentId,
+          refundTxnRef,
+          requestedAmount: requestedAmount.toNumber(),
+          refundedAmount: refundedAmount.toNumber(),
+        });
+      }
+
+      // Written outside the DB transaction as soon as the gateway answers, so
+      // that a later local failure cannot roll back or overwrite the bank's outcome
+      await refundRecord.update({
+        amount: refundedAmount.toNumber(),
+        status: refundSucceeded ? RefundStatus.SUCCESS : RefundStatus.FAILED,
+        responseCode,
+        responseMessage: response.vpc_Message,
+        gatewayTransactionNo: response.vpc_TransactionNo != null ? String(response.vpc_TransactionNo) : undefined,
+        gatewayResponse: this.redactor.redact(response),
+        processedAt: new Date(),
+      });
+
+      // Process successful refund
+      if (refundSucceeded) {
+        const newStatus = await this.applyRefundToPayment(
+          paymentTransaction,
+          refundedAmount,
+          {
+            source: StatusChangeSource.REFUND,
+            reason: refundData.reason,
+            metadata: { refundTxnRef, refundAmount: refundedAmount.toNumber() },
+          },
+          transaction
+        );
+        await refundRecord.update({ appliedAt: new Date() }, { transaction });
 
         this.logger.log('Refund processed successfully', {
           paymentId: refundData.paymentId,
-          refundAmount: refundData.amount,
+          refundAmount: refundedAmount.toNumber(),
           newStatus,
         });
+      } else {
+        // The FAILED ledger row is already persisted; the audit failure is recorded below
+        const result = MigsResponseCodeUtil.describe(responseCode, response.vpc_AcqResponseCode);
+        this.logger.warn('Refund declined by gateway', {
+          paymentId: refundData.paymentId,
+          refundTxnRef,
+          responseCode,
+          category: result.category,
+          retryable: result.retryable,
+        });
+
+        throw new ApiError(ErrorCode.GATEWAY_DECLINED, {
+          message: `Gateway declined refund - response code: ${result.code}`,
+          details: {
+            responseCode: result.code,
+            acquirerCode: result.acquirerCode,
+            category: result.category,
+            retryable: result.retryable,
+          },
+        });
       }
 
+      await this.auditService.record(audit, {
+        operation: AuditOperation.PAYMENT_REFUND,
+        outcome: AuditOutcome.SUCCESS,
+        paymentId: refundData.paymentId,
+        before,
+        after: AuditService.snapshotPayment(paymentTransaction),
+        metadata: {
+          refundTxnRef,
+          requestedAmount: requestedAmount.toNumber(),
+          refundedAmount: refundedAmount.toNumber(),
+          responseCode,
+          reason: refundData.reason,
+        },
+      }, transaction);
+
       await transaction.commit();
-      return paymentTransaction.reload();
+
+      const updatedTransaction = await paymentTransaction.reload();
+      await this.webhookService.notifyStatusChange(updatedTransaction);
+
+      return updatedTransaction;
     } catch (error) {
       await transaction.rollback();
+
+      // Declines were recorded when the gateway answered. A refund that may
+      // have reached the gateway stays PENDING until queryDR settles it.
+      if (refundRecord) {
+        await refundRecord.reload();
+        if (refundRecord.dataValues.status === RefundStatus.PENDING && this.isRefundOutcomeUncertain(error, gatewayCalled)) {
+          this.logger.warn('Refund outcome unknown, left pending for queryDR', {
+            paymentId: refundData.paymentId,
+            refundTxnRef: refundRecord.dataValues.refundTxnRef,
+            error: error.message,
+          });
+        } else if (refundRecord.dataValues.status === RefundStatus.PENDING) {
+          await refundRecord.update({
+            status: RefundStatus.FAILED,
+            responseMessage: error.message,
+            processedAt: new Date(),
+          });
+        } else if (refundRecord.dataValues.status === RefundStatus.SUCCESS) {
+          // Still counted against the refundable amount; the refund resolution job applies it
+          this.logger.error('Refund approved by the gateway but not applied to the payment, queued for repair', {
+            paymentId: refundData.paymentId,
+            refundTxnRef: refundRecord.dataValues.refundTxnRef,
+            refundedAmount: refundRecord.dataValues.amount,
+          });
+        }
+      }
+
       this.logger.error('Refund processing failed', {
-        error: error.message,
+        error,
         paymentId: refundData.paymentId
       });
-      throw new BadRequestException('Refund processing failed');
+
+      if (before) {
+        await this.auditService.recordFailure(audit, {
+          operation: AuditOperation.PAYMENT_REFUND,
+          paymentId: refundData.paymentId,
+          before,
+          metadata: {
+            refundTxnRef: refundRecord?.dataValues.refundTxnRef,
+            requestedAmount: refundData.amount,
+            responseCode: refundRecord?.dataValues.responseCode,
+            reason: refundData.reason,
+          },
+        }, error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Brings a refund's outcome onto the payment when the refund request could
+   * not: a PENDING refund whose outcome at the gateway is unknown is settled
+   * with a queryDR on its refundTxnRef, and a refund the gateway approved but
+   * whose payment update rolled back is applied again. A refund the gateway
+   * declined or never received is marked failed.
+   * 
+   * @param refundId - Refund ledger entry ID
+   * @returns Promise resolving to the refund's status; still PENDING while the gateway has no final result
+   * @throws {ApiError} GATEWAY_* when the gateway is unavailable or answers badly
+   */
+  async resolveRefund(refundId: string): Promise<RefundStatus> {
+    const refundRecord = await this.refundModel.findByPk(refundId);
+
+    if (!refundRecord) {
+      throw new ApiError(ErrorCode.NOT_FOUND, { message: `Refund not found: ${refundId}` });
+    }
+
+    const { paymentId, refundTxnRef, currency, status, appliedAt } = refundRecord.dataValues;
+
+    if (status === RefundStatus.SUCCESS && !appliedAt) {
+      return this.applyApprovedRefund(refundId, Money.fromDecimal(refundRecord.dataValues.amount, currency));
+    }
+
+    if (status !== RefundStatus.PENDING) {
+      return status;
+    }
+
+    const payment = await this.paymentModel.findByPk(paymentId, { attributes: ['id', 'merchantAccountId'] });
+    const config = await this.resolveMerchantConfig(payment!.dataValues.merchantAccountId);
+
+    const response = await this.queryDR(refundTxnRef, config);
+
+    if (String(response.vpc_DRExists ?? 'Y').toUpperCase() === 'N') {
+      await refundRecord.update({
+        status: RefundStatus.FAILED,
+        responseMessage: 'Gateway has no record of the refund',
+        processedAt: new Date(),
+      });
+
+      this.logger.log('Pending refund never reached the gateway', { paymentId, refundTxnRef });
+      return RefundStatus.FAILED;
     }
+
+    const result = MigsResponseCodeUtil.describe(response.vpc_TxnResponseCode, response.vpc_AcqResponseCode);
+    if (result.category === ResponseCodeCategory.PENDING) {
+      return RefundStatus.PENDING;
+    }
+
+    const refundSucceeded = result.category === ResponseCodeCategory.APPROVED;
+    const refundedAmount = refundSucceeded && response.vpc_Amount
+      ? Money.fromVpcAmount(response.vpc_Amount, currency)
+      : Money.fromDecimal(refundRecord.dataValues.amount, currency);
+    const outcome = {
+      amount: refundedAmount.toNumber(),
+      status: refundSucceeded ? RefundStatus.SUCCESS : RefundStatus.FAILED,
+      responseCode: result.code,
+      responseMessage: response.vpc_Message,
+      gatewayTransactionNo: response.vpc_TransactionNo != null ? String(response.vpc_TransactionNo) : undefined,
+      gatewayResponse: this.redactor.redact(response),
+      processedAt: new Date(),
+    };
+
+    if (!refundSucceeded) {
+      await refundRecord.update(outcome);
+
+      this.logger.log('Pending refund was declined by the gateway', { paymentId, refundTxnRef, responseCode: result.code });
+      return RefundStatus.FAILED;
+    }
+
+    return this.applyApprovedRefund(refundId, refundedAmount, outcome);
+  }
+
+  /**
+   * Lists every refund attempt recorded against a payment, newest first
+   * 
+   * @param paymentId - Payment transaction ID
+   * @returns Promise resolving to refund ledger entries
+   * @throws {ApiError} PAYMENT_NOT_FOUND if payment is not found
+   */
+  async getPaymentRefunds(paymentId: string): Promise<PaymentRefund[]> {
+    const paymentTransaction = await this.paymentModel.findByPk(paymentId, { attributes: ['id'] });
+
+    if (!paymentTransaction) {
+      throw new ApiError(ErrorCode.PAYMENT_NOT_FOUND, { message: `Payment not found: ${paymentId}` });
+    }
+
+    return this.refundModel.findAll({
+      where: { paymentId },
+      order: [['createdAt', 'DESC']],
+    });
   }
 
   /**
@@ -364,16 +929,16 @@ export class PaymentService {
    * 
    * @param paymentId - Payment transaction ID
    * @returns Promise resolving to payment transaction data
-   * @throws {NotFoundException} If payment is not found
+   * @throws {ApiError} PAYMENT_NOT_FOUND if payment is not found
    */
   async getPaymentStatus(paymentId: string): Promise<PaymentTransaction> {
     const paymentTransaction = await this.paymentModel.findByPk(paymentId);
 
     if (!paymentTransaction) {
-      throw new NotFoundException(`Payment not found: ${paymentId}`);
+      throw new ApiError(ErrorCode.PAYMENT_NOT_FOUND, { message: `Payment not found: ${paymentId}` });
     }
 
-    return paymentTransaction.dataValues;
+    return paymentTransaction;
   }
 
   /**
@@ -382,8 +947,8 @@ export class PaymentService {
   * @param merchantTxnRef - Merchant transaction reference
   * @returns Promise resolving to gateway response
   * @throws {BadRequestException} When merchantTxnRef is invalid
-  * @throws {NotFoundException} When transaction not found in database
-  * @throws {ServiceUnavailableException} When gateway is unavailable
+  * @throws {ApiError} PAYMENT_NOT_FOUND when transaction not found in database
+  * @throws {ApiError} GATEWAY_* when the gateway is unavailable or answers badly
   */
   async queryPaymentByTxnRef(merchantTxnRef: string): Promise<any> {
     try {
@@ -405,11 +970,11 @@ export class PaymentService {
       // Check if transaction exists in database
       const transaction = await this.paymentModel.findOne({
         where: { merchantTxnRef: trimmedRef },
-        attributes: ['id', 'merchantTxnRef', 'status', 'createdAt'] // Only fetch needed fields
+        attributes: ['id', 'merchantTxnRef', 'status', 'merchantAccountId', 'createdAt'] // Only fetch needed fields
       });
 
       if (!transaction) {
-        throw new NotFoundException('Merchant Transaction Reference Id is Invalid');
+        throw new ApiError(ErrorCode.PAYMENT_NOT_FOUND, { message: 'Merchant Transaction Reference Id is Invalid' });
       }
 
       const { dataValues } = transaction;
@@ -420,75 +985,231 @@ export class PaymentService {
         currentStatus: dataValues.status
       });
 
-      // Prepare VPC data for MIGS query
-      const vpcData = {
-        vpc_Version: '1',
-        vpc_Command: 'queryDR',
-        vpc_AccessCode: this.config.accessCode,
-        vpc_MerchTxnRef: trimmedRef,
-        vpc_Merchant: this.config.merchantId,
-        vpc_Locale: 'en',
-        vpc_Gateway: 'ssl',
-      };
+      const config = await this.resolveMerchantConfig(dataValues.merchantAccountId);
 
-      // Generate secure hash
-      const secureHash = MigsHashUtil.generateSecureHash(
-        vpcData,
-        this.config.secureSecret,
-        this.vpcSecureAlgo
-      );
+      return await this.queryDR(trimmedRef, config);
 
-      vpcData["vpc_SecureHash"] = secureHash;
-      vpcData["vpc_SecureHashType"] = this.vpcSecureAlgo;
+    } catch (error) {
+      this.logger.error('Payment query failed', {
+        merchantTxnRef,
+        error: error.message,
+        errorType: error.constructor.name,
+        stack: process.env.NODE_ENV === 'development' ? error.stack : undefined
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Sends a queryDR for a merchant transaction reference - a payment's or a refund's
+   * 
+   * @private
+   * @param merchantTxnRef - Reference the original request was sent with
+   * @param config - Configuration of the merchant the request was made for
+   * @returns Validated gateway response
+   */
+  private async queryDR(merchantTxnRef: string, config: MigsConfiguration): Promise<any> {
+    // Prepare VPC data for MIGS query
+    const vpcData = {
+      vpc_Version: '1',
+      vpc_Command: 'queryDR',
+      vpc_AccessCode: config.accessCode,
+      vpc_MerchTxnRef: merchantTxnRef,
+      vpc_Merchant: config.merchantId,
+      vpc_Locale: 'en',
+      vpc_Gateway: 'ssl',
+    };
 
-      console.log("vpcData\n", vpcData);
+    // Generate secure hash
+    const secureHash = MigsHashUtil.generateSecureHash(
+      vpcData,
+      config.secureSecret,
+      this.vpcSecureAlgo
+    );
 
-      this.logger.log('Making payment query request', {
-        merchantTxnRef: trimmedRef,
-        gatewayUrl: this.config.gatewayQueryUrl,
-        vpcVersion: vpcData.vpc_Version,
-        command: vpcData.vpc_Command
-      });
+    vpcData["vpc_SecureHash"] = secureHash;
+    vpcData["vpc_SecureHashType"] = this.vpcSecureAlgo;
 
-      const url = this.buildPaymentUrl(vpcData)
-      console.log(`hii - ${url}`)
-      // Make API call to MIGS gateway
-      const response = await this.makeApiCall(vpcData);
+    this.logger.log('Making payment query request', {
+      merchantTxnRef,
+      gatewayUrl: this.config.gatewayQueryUrl,
+      vpcVersion: vpcData.vpc_Version,
+      command: vpcData.vpc_Command
+    });
 
-      // Validate and process response
-      const processedResponse = this.processQueryResponse(response, trimmedRef);
+    // Make API call to MIGS gateway
+    const response = await this.gatewayClient.send(this.config.gatewayQueryUrl, vpcData);
 
-      this.logger.log('Payment query completed successfully', {
-        merchantTxnRef: trimmedRef,
-        responseReceived: !!response,
-        responseCode: processedResponse?.vpc_TxnResponseCode || 'N/A',
-        transactionNo: processedResponse?.vpc_TransactionNo || 'N/A'
+    // Validate and process response
+    const processedResponse = this.processQueryResponse(response, merchantTxnRef, config);
+
+    this.logger.log('Payment query completed successfully', {
+      merchantTxnRef,
+      responseReceived: !!response,
+      responseCode: processedResponse?.vpc_TxnResponseCode || 'N/A',
+      transactionNo: processedResponse?.vpc_TransactionNo || 'N/A'
+    });
+
+    return processedResponse;
+  }
+
+  /**
+   * Applies a refund the gateway approved to its payment and marks the
+   * ledger entry applied, unless a concurrent run got there first
+   * 
+   * @private
+   * @param refundId - Refund ledger entry ID
+   * @param refundedAmount - Amount the gateway refunded
+   * @param outcome - Gateway outcome to record with it, for a refund still PENDING
+   * @returns The refund's status
+   */
+  private async applyApprovedRefund(
+    refundId: string,
+    refundedAmount: Money,
+    outcome?: Record<string, any>
+  ): Promise<RefundStatus> {
+    const transaction = await this.sequelize.transaction();
+
+    try {
+      const refundRecord = await this.refundModel.findByPk(refundId, { transaction });
+      const { paymentId, refundTxnRef } = refundRecord!.dataValues;
+
+      // Same lock order and strength as refundPayment: payment, then ledger row
+      const paymentTransaction = await this.paymentModel.findByPk(paymentId, {
+        transaction,
+        lock: transaction.LOCK.NO_KEY_UPDATE,
       });
+      await refundRecord!.reload({ transaction, lock: true });
 
-      return processedResponse;
+      const { status, appliedAt } = refundRecord!.dataValues;
+      const applicable = outcome ? status === RefundStatus.PENDING : status === RefundStatus.SUCCESS && !appliedAt;
 
-    } catch (error) {
-      this.logger.error('Payment query failed', {
-        merchantTxnRef,
-        error: error.message,
-        errorType: error.constructor.name,
-        stack: process.env.NODE_ENV === 'development' ? error.stack : undefined
+      if (!paymentTransaction || !applicable) {
+        await transaction.commit();
+        return status;
+      }
+
+      await refundRecord!.update({ ...outcome, appliedAt: new Date() }, { transaction });
+      const newStatus = await this.applyRefundToPayment(
+        paymentTransaction,
+        refundedAmount,
+        {
+          source: StatusChangeSource.REFUND,
+          reason: outcome
+            ? 'Refund approved by the gateway, confirmed by queryDR'
+            : 'Refund approved by the gateway, applied after the original update rolled back',
+          metadata: { refundTxnRef, refundAmount: refundedAmount.toNumber() },
+        },
+        transaction
+      );
+
+      await transaction.commit();
+
+      this.logger.log('Approved refund applied to the payment', {
+        paymentId,
+        refundTxnRef,
+        refundAmount: refundedAmount.toNumber(),
+        newStatus,
       });
+
+      await this.webhookService.notifyStatusChange(await paymentTransaction.reload());
+      return RefundStatus.SUCCESS;
+    } catch (error) {
+      await transaction.rollback();
       throw error;
     }
   }
 
+  /**
+   * Sums the refunds that may have moved money but are not in the payment's
+   * refundedAmount yet: PENDING ones, whose outcome is unknown, and approved
+   * ones whose payment update rolled back
+   * 
+   * @private
+   * @param paymentId - Payment transaction ID
+   * @param currency - Currency of the payment
+   * @param transaction - Database transaction holding the payment's lock
+   */
+  private async sumOutstandingRefunds(paymentId: string, currency: string, transaction: Transaction): Promise<Money> {
+    const outstanding = await this.refundModel.findAll({
+      where: {
+        paymentId,
+        [Op.or]: [
+          { status: RefundStatus.PENDING },
+          { status: RefundStatus.SUCCESS, appliedAt: null },
+        ],
+      },
+      attributes: ['amount'],
+      transaction,
+    });
+
+    return outstanding.reduce(
+      (total, refund) => total.add(Money.fromDecimal(refund.dataValues.amount, currency)),
+      Money.zero(currency)
+    );
+  }
+
+  /**
+   * Adds an approved refund to the payment's refunded amount and moves it to
+   * REFUNDED or PARTIALLY_REFUNDED
+   * 
+   * @private
+   * @param paymentTransaction - Payment locked by the caller
+   * @param refundedAmount - Amount the gateway refunded
+   * @param context - Source and reason of the status change
+   * @param transaction - Database transaction holding the payment's lock
+   * @returns The payment's new status
+   */
+  private async applyRefundToPayment(
+    paymentTransaction: PaymentTransaction,
+    refundedAmount: Money,
+    context: StatusTransitionContext,
+    transaction: Transaction
+  ): Promise<TransactionStatus> {
+    const { dataValues } = paymentTransaction;
+    const newRefundedAmount = Money.fromDecimal(dataValues.refundedAmount, dataValues.currency).add(refundedAmount);
+    const newStatus = newRefundedAmount.compare(Money.fromDecimal(dataValues.amount, dataValues.currency)) >= 0
+      ? TransactionStatus.REFUNDED
+      : TransactionStatus.PARTIALLY_REFUNDED;
+
+    await this.transactionStatusService.transition(
+      paymentTransaction,
+      newStatus,
+      context,
+      { refundedAmount: newRefundedAmount.toNumber() },
+      transaction
+    );
+
+    return newStatus;
+  }
+
+  /**
+   * Whether a failed refund attempt may still have been carried out by the
+   * gateway: the request was sent and no answer was processed. The circuit
+   * breaker rejects requests before sending them.
+   * 
+   * @private
+   */
+  private isRefundOutcomeUncertain(error: unknown, gatewayCalled: boolean): boolean {
+    return gatewayCalled && !(error instanceof ApiError && error.code === ErrorCode.GATEWAY_CIRCUIT_OPEN);
+  }
+
   /**
    * Processes and validates the query response from MIGS gateway
    * 
    * @private
    * @param response - Raw response from gateway
    * @param merchantTxnRef - Original merchant transaction reference
+   * @param config - Configuration of the merchant the request was made for
    * @returns Processed response object
    */
-  private processQueryResponse(response: any, merchantTxnRef?: string): any {
+  private processQueryResponse(
+    response: any,
+    merchantTxnRef?: string,
+    config: MigsConfiguration = this.config
+  ): any {
     if (!response) {
-      throw new ServiceUnavailableException('Empty response received from gateway');
+      throw new ApiError(ErrorCode.GATEWAY_INVALID_RESPONSE, { message: 'Empty response received from gateway' });
     }
 
     // If response is a string and looks like an error, handle it
@@ -497,40 +1218,67 @@ export class PaymentService {
         merchantTxnRef,
         responseStart: response.substring(0, 100)
       });
-      throw new ServiceUnavailableException('Invalid response format from gateway');
+      throw new ApiError(ErrorCode.GATEWAY_INVALID_RESPONSE, { message: 'Invalid response format from gateway' });
     }
 
-    const { vpc_SecureHash, vpc_SecureHashType, ...dataForHash } = response;
-    // Validate secure hash if present (recommended for security)
+    // Validate secure hash if present (recommended for security); the verifier
+    // reads vpc_SecureHash itself and leaves it out of the hashed fields
     if (response.vpc_SecureHash) {
-      const isValidHash = MigsHashUtil.verifySecureHash(dataForHash, this.config.secureSecret, vpc_SecureHashType);
+      const isValidHash = MigsHashUtil.verifySecureHashWithAny(
+        response,
+        [config.secureSecret, config.previousSecureSecret],
+        response.vpc_SecureHashType || this.vpcSecureAlgo
+      );
       if (!isValidHash) {
+        this.metricsService.recordHashVerificationFailure('query');
         this.logger.error('Invalid secure hash in response', { merchantTxnRef });
-        throw new ServiceUnavailableException('Response validation failed');
+        throw new ApiError(ErrorCode.HASH_MISMATCH, { message: 'Gateway response failed secure hash validation' });
       }
     }
 
     // Log important response details
     if (response.vpc_TxnResponseCode) {
-      const responseCode = response.vpc_TxnResponseCode;
+      const result = MigsResponseCodeUtil.describe(response.vpc_TxnResponseCode, response.vpc_AcqResponseCode);
       const message = response.vpc_Message || 'No message';
 
       this.logger.log('Gateway response details', {
         merchantTxnRef,
-        responseCode,
+        responseCode: result.code,
+        acquirerCode: result.acquirerCode,
+        category: result.category,
         message,
         transactionNo: response.vpc_TransactionNo
       });
 
-      // You might want to handle specific response codes
-      if (responseCode === '99') {
-        this.logger.warn('Gateway returned unknown error', { merchantTxnRef, response });
+      // System failures mean the bank or gateway was unavailable, not that the card was declined
+      if (result.category === ResponseCodeCategory.SYSTEM) {
+        this.logger.warn('Gateway reported a system error', {
+          merchantTxnRef,
+          responseCode: result.code,
+          retryable: result.retryable,
+        });
       }
     }
 
     return response;
   }
 
+  /**
+   * Resolves the MIGS configuration of the merchant a transaction belongs to
+   * 
+   * @private
+   * @param merchantAccountId - Merchant account stored on the transaction, empty for the default merchant
+   * @returns Promise resolving to the merchant's MIGS configuration
+   */
+  private async resolveMerchantConfig(merchantAccountId?: string | null): Promise<MigsConfiguration> {
+    if (!merchantAccountId) {
+      return this.config;
+    }
+
+    const merchantAccount = await this.merchantAccountService.getAccount(merchantAccountId);
+    return this.merchantAccountService.toConfiguration(this.config, merchantAccount);
+  }
+
   /**
    * Builds payment URL with encoded parameters
    * 
@@ -541,7 +1289,7 @@ export class PaymentService {
   private buildPaymentUrl(params: Record<string, string>): string {
     try {
       const query = Object.entries(params)
-        .filter(([key, value]) => value != null) // Filter out null/undefined values
+        .filter(([, value]) => value != null) // Filter out null/undefined values
         .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
         .join('&');
 
@@ -553,126 +1301,6 @@ export class PaymentService {
   }
 
 
-
-/**
- * Makes HTTP API call to MIGS gateway with enhanced error handling
- * 
- * @private
- * @param data - Request data
- * @returns Promise resolving to gateway response
- */
-private async makeApiCall(data: Record<string, any>): Promise<any> {
-  const formData = new URLSearchParams();
-
-  // Build form data
-  Object.entries(data).forEach(([key, value]) => {
-    if (value != null && value !== '') { // Only append non-null, non-empty values
-      formData.append(key, String(value));
-    }
-  });
-
-
-  try {
-    const response: AxiosResponse = await axios.post(
-      this.config.gatewayQueryUrl,
-      formData.toString(),
-      {
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
-          'User-Agent': 'MIGS-Client/1.0',
-          'Accept': 'application/x-www-form-urlencoded, text/plain',
-        },
-        timeout: 30000, // 30 seconds timeout
-        validateStatus: (status) => status < 500, // Don't throw for 4xx errors
-        maxRedirects: 0,
-      }
-    );
-
-    // Handle different response status codes
-    if (response.status >= 400) {
-      this.logger.error('Gateway returned error status', {
-        status: response.status,
-        statusText: response.statusText,
-        data: response.data
-      });
-      throw new ServiceUnavailableException(`Gateway returned error status: ${response.status}`);
-    }
-
-    // Parse the response
-    if (typeof response.data === 'string') {
-      // Check if it's URL-encoded format
-      if (response.data.includes('=') && (response.data.includes('&') || !response.data.includes(' '))) {
-        return this.parseResponse(response.data);
-      }
-      // Handle plain text responses
-      return { rawResponse: response.data };
-    }
-
-    // If it's already an object, return it
-    return response.data;
-
-  } catch (error) {
-    if (axios.isAxiosError(error)) {
-      this.logger.error('Axios error in MIGS API call', {
-        message: error.message,
-        code: error.code,
-        status: error.response?.status,
-        statusText: error.response?.statusText,
-        url: error.config?.url
-      });
-      
-      if (error.code === 'ECONNABORTED') {
-        throw new GatewayTimeoutException('Gateway request timed out');
-      }
-      
-      if (error.code === 'ENOTFOUND' || error.code === 'ECONNREFUSED') {
-        throw new ServiceUnavailableException('Gateway service is not reachable');
-      }
-      
-      throw new ServiceUnavailableException(`Gateway communication failed: ${error.message}`);
-    }
-    
-    this.logger.error('Unexpected error in MIGS API call', { 
-      error: error.message,
-      stack: error.stack 
-    });
-    throw new ServiceUnavailableException('Unexpected error during gateway communication');
-  }
-}
-
-  /**
-   * Parses URL-encoded response string into object
-   * 
-   * @private
-   * @param responseString - URL-encoded response
-   * @returns Parsed response object
-   */
-  private parseResponse(responseString: string): Record<string, any> {
-    try {
-      const params = new URLSearchParams(responseString);
-      const result: Record<string, any> = {};
-
-      for (const [key, value] of params.entries()) {
-        // Try to parse numeric values
-        if (/^\d+$/.test(value)) {
-          result[key] = parseInt(value, 10);
-        } else if (/^\d+\.\d+$/.test(value)) {
-          result[key] = parseFloat(value);
-        } else {
-          result[key] = value;
-        }
-      }
-      return result;
-
-    } catch (error) {
-      this.logger.error('Failed to parse response', {
-        responseString: responseString.substring(0, 200),
-        error: error.message
-      });
-      throw new Error('Failed to parse gateway response');
-    }
-  }
-
   /**
    * Generates unique merchant transaction reference
    * 
@@ -692,6 +1320,18 @@ private async makeApiCall(data: Record<string, any>): Promise<any> {
   private generateRefundTxnRef(): string {
     return `REF_${Date.now()}_${uuidv4().substring(0, 8).toUpperCase()}`;
   }
+
+  /**
+   * Generates unique capture or void transaction reference
+   * 
+   * @private
+   * @param command - AMA command the reference is generated for
+   * @returns Unique capture/void reference
+   */
+  private generateAuthorisationTxnRef(command: 'capture' | 'voidAuthorisation'): string {
+    const prefix = command === 'capture' ? 'CAP' : 'VOID';
+    return `${prefix}_${Date.now()}_${uuidv4().substring(0, 8).toUpperCase()}`;
+  }
 }
 
 /* ========================================================================
@@ -838,6 +1478,17 @@ private async makeApiCall(data: Record<string, any>): Promise<any> {
  * - MIGS_GATEWAY_URL: MIGS gateway endpoint URL
  * - MIGS_CURRENCY: Default currency code (e.g., AUD, USD)
  * - MIGS_RETURN_URL: Default return URL after payment
+ * - MIGS_PREVIOUS_SECURE_SECRET: Outgoing secret, accepted for verification during a rotation
+ * - SECRET_ENCRYPTION_KEY: 32-byte key (hex or base64) encrypting stored secure secrets
+ * 
+ * MIGS_SECURE_SECRET and MIGS_PREVIOUS_SECURE_SECRET may be given in plain text
+ * or as "enc:v1:..." values encrypted with SECRET_ENCRYPTION_KEY.
+ * 
+ * The MIGS_MERCHANT_ID, MIGS_ACCESS_CODE, MIGS_SECURE_SECRET, MIGS_CURRENCY and
+ * MIGS_RETURN_URL values form the default merchant. Additional brands are stored
+ * in merchant_accounts and selected with merchantCode on payment creation.
+ * MIGS_ALLOWED_CURRENCIES lists further ISO 4217 codes the default merchant
+ * accepts; merchant accounts keep their own list in allowed_currencies.
  * 
  * ENV-002: Optional Configuration
  * - Database connection settings
@@ -851,21 +1502,30 @@ private async makeApiCall(data: Record<string, any>): Promise<any> {
  * 
  * BR-001: Transaction Status Flow
  * PENDING -> SUCCESS (payment successful)
+ * PENDING -> AUTHORIZED (manual capture payment approved)
+ * AUTHORIZED -> SUCCESS (authorisation captured)
+ * AUTHORIZED -> CANCELLED (authorisation voided)
  * PENDING -> FAILED (payment declined)
  * PENDING -> CANCELLED (user/system cancellation)
  * SUCCESS -> PARTIALLY_REFUNDED (partial refund)
  * SUCCESS -> REFUNDED (full refund)
+ * PARTIALLY_REFUNDED -> PARTIALLY_REFUNDED (further partial refund)
  * PARTIALLY_REFUNDED -> REFUNDED (remaining amount refunded)
+ * FAILED, CANCELLED and REFUNDED are terminal. The table lives in
+ * TransactionStateMachine and every move is written to payment_status_history.
  * 
  * BR-002: Refund Rules
- * - Only SUCCESS transactions can be refunded
+ * - Only SUCCESS and PARTIALLY_REFUNDED transactions can be refunded
  * - Refund amount cannot exceed available amount
  * - Multiple partial refunds are supported
  * - Refund tracking is maintained for audit
  * 
  * BR-003: Amount Handling
  * - All amounts stored in base currency units (dollars/euros)
- * - Gateway amounts sent in minor units (cents)
+ * - Gateway amounts sent in the currency's minor units (fils, cents; none for JPY)
+ * - Arithmetic and comparisons go through Money, in integer minor units
+ * - Amounts with more decimals than their currency are rejected, never rounded
+ * - Payments are only created in currencies enabled for their merchant
  * - Refund calculations must account for previous refunds
  * - Amount validation prevents negative values
  * 
@@ -876,7 +1536,7 @@ private async makeApiCall(data: Record<string, any>): Promise<any> {
  * INT-001: MIGS Gateway Integration
  * - VPC protocol implementation
  * - Secure hash generation and verification
- * - Support for pay, refund, and queryDR commands
+ * - Support for pay, authorise, capture, voidAuthorisation, refund, and queryDR commands
  * - HTML response handling for 3D Secure
  * 
  * INT-002: Database Integration
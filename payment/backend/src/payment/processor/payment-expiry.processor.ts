@@ -0,0 +1,228 @@
+import { Processor, Process } from '@nestjs/bull';
+import { Job } from 'bull';
+import { Logger, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/sequelize';
+import { Sequelize } from 'sequelize-typescript';
+import { Op } from 'sequelize';
+import PaymentTransaction, { TransactionStatus } from '../models/payment-transaction.model';
+import { StatusChangeSource } from '../models/payment-status-history.model';
+import { PaymentService } from '../payment.service';
+import { WebhookService } from '../webhook.service';
+import { TransactionStatusService } from '../transaction-status.service';
+import { MigsResponseCodeUtil } from '../utils/migs-response-code.util';
+import { ExpiryJobData, ExpiryJobResult, SyncError } from '../interfaces/payment.interface';
+import { RequestContext } from '../../request-context/request-context';
+
+type ExpiryOutcome = 'expired' | 'resolved' | 'deferred' | 'skipped';
+
+/**
+ * Expires payments that stayed PENDING past their expiresAt. Each payment
+ * gets a final queryDR first: a result the gateway has settled is applied
+ * instead, anything else moves the payment to EXPIRED with the reason
+ * recorded in its status history.
+ */
+@Injectable()
+@Processor('payment-expiry')
+export class PaymentExpiryProcessor {
+  private readonly logger = new Logger(PaymentExpiryProcessor.name);
+  private readonly batchSize: number;
+  private readonly queryGraceMs: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly sequelize: Sequelize,
+    @InjectModel(PaymentTransaction)
+    private readonly paymentModel: typeof PaymentTransaction,
+    private readonly paymentService: PaymentService,
+    private readonly webhookService: WebhookService,
+    private readonly transactionStatusService: TransactionStatusService,
+  ) {
+    this.batchSize = this.configService.get<number>('payments.expiryBatchSize') || 50;
+    this.queryGraceMs = (this.configService.get<number>('payments.expiryQueryGraceMinutes') ?? 60) * 60 * 1000;
+  }
+
+  @Process('expire-pending-payments')
+  handlePaymentExpiry(job: Job<ExpiryJobData>): Promise<ExpiryJobResult> {
+    return RequestContext.runForJob(job, () => this.expirePendingPayments(job));
+  }
+
+  private async expirePendingPayments(job: Job<ExpiryJobData>): Promise<ExpiryJobResult> {
+    const startTime = Date.now();
+    const result: ExpiryJobResult = {
+      processedCount: 0,
+      expiredCount: 0,
+      resolvedCount: 0,
+      deferredCount: 0,
+      errorCount: 0,
+      processingTime: 0,
+      errors: [],
+    };
+
+    const stalePayments = await this.paymentModel.findAll({
+      where: {
+        status: TransactionStatus.PENDING,
+        expiresAt: { [Op.lt]: new Date() },
+      },
+      attributes: ['id', 'merchantTxnRef', 'expiresAt'],
+      limit: job.data.batchSize || this.batchSize,
+      order: [['expiresAt', 'ASC']],
+    });
+
+    if (stalePayments.length > 0) {
+      this.logger.log(`Found ${stalePayments.length} expired pending payments`, { jobId: job.id });
+    }
+
+    for (const payment of stalePayments) {
+      const { id, merchantTxnRef, expiresAt } = payment.dataValues;
+      result.processedCount++;
+
+      try {
+        const outcome = await this.expirePayment(id, merchantTxnRef, expiresAt, job.id);
+
+        if (outcome === 'expired') {
+          result.expiredCount++;
+        } else if (outcome === 'resolved') {
+          result.resolvedCount++;
+        } else if (outcome === 'deferred') {
+          result.deferredCount++;
+        }
+      } catch (error) {
+        result.errorCount++;
+        const errorDetail: SyncError = {
+          merchantTxnRef,
+          error: error.message,
+          retryable: true,
+        };
+        result.errors.push(errorDetail);
+
+        this.logger.error('Failed to expire pending payment', {
+          merchantTxnRef,
+          error: error.message,
+        });
+      }
+    }
+
+    result.processingTime = Date.now() - startTime;
+
+    if (result.processedCount > 0) {
+      this.logger.log('Pending payment expiry completed', result);
+    }
+
+    return result;
+  }
+
+  /**
+   * Runs the final queryDR for one payment and either applies the gateway's
+   * result or expires the payment
+   * 
+   * @private
+   * @param paymentId - Payment transaction ID
+   * @param merchantTxnRef - Merchant transaction reference
+   * @param expiresAt - When the payment's pending TTL ran out
+   * @param jobId - Bull job ID, recorded in the status history
+   * @returns What happened to the payment
+   */
+  private async expirePayment(
+    paymentId: string,
+    merchantTxnRef: string,
+    expiresAt: Date,
+    jobId: string | number,
+  ): Promise<ExpiryOutcome> {
+    let finalQuery: Record<string, any> | null = null;
+    let queryError: string | null = null;
+
+    try {
+      finalQuery = await this.paymentService.queryPaymentByTxnRef(merchantTxnRef);
+    } catch (error) {
+      queryError = error.message;
+    }
+
+    // Expiring a payment the bank may have approved is only done once the
+    // gateway has been unreachable for the whole grace period
+    if (queryError && Date.now() - new Date(expiresAt).getTime() < this.queryGraceMs) {
+      this.logger.warn('Final queryDR failed, expiry deferred', { merchantTxnRef, error: queryError });
+      return 'deferred';
+    }
+
+    const transaction = await this.sequelize.transaction();
+
+    try {
+      const payment = await this.paymentModel.findByPk(paymentId, { transaction, lock: true });
+
+      // A callback or notification may have settled the payment meanwhile
+      if (!payment || payment.dataValues.status !== TransactionStatus.PENDING) {
+        await transaction.commit();
+        return 'skipped';
+      }
+
+      const drExists = finalQuery != null && String(finalQuery.vpc_DRExists ?? 'Y').toUpperCase() !== 'N';
+      const result = drExists
+        ? MigsResponseCodeUtil.describe(finalQuery!.vpc_TxnResponseCode, finalQuery!.vpc_AcqResponseCode)
+        : null;
+      const gatewayStatus = result
+        ? MigsResponseCodeUtil.resolveStatus(result, payment.dataValues.captureMode)
+        : null;
+
+      if (result && gatewayStatus) {
+        await this.transactionStatusService.transition(
+          payment,
+          gatewayStatus,
+          {
+            source: StatusChangeSource.EXPIRY,
+            reason: `Final queryDR before expiry returned response code ${result.code}: ${result.category}`,
+            metadata: { jobId, expiresAt, acquirerCode: result.acquirerCode },
+          },
+          {
+            responseCode: finalQuery!.vpc_TxnResponseCode,
+            responseMessage: finalQuery!.vpc_Message,
+            transactionId: finalQuery!.vpc_TransactionNo,
+            authCode: finalQuery!.vpc_AuthorizeId,
+            receiptNo: finalQuery!.vpc_ReceiptNo,
+            processedAt: new Date(),
+          },
+          transaction
+        );
+      } else {
+        const reason = queryError
+          ? `Pending payment expired; final queryDR failed: ${queryError}`
+          : result
+            ? `Pending payment expired; gateway result still pending (response code ${result.code})`
+            : 'Pending payment expired; gateway has no record of the payment';
+
+        await this.transactionStatusService.transition(
+          payment,
+          TransactionStatus.EXPIRED,
+          {
+            source: StatusChangeSource.EXPIRY,
+            reason,
+            metadata: {
+              jobId,
+              expiresAt,
+              drExists: finalQuery ? drExists : undefined,
+              responseCode: result?.code,
+              queryError: queryError ?? undefined,
+            },
+          },
+          { expiredAt: new Date() },
+          transaction
+        );
+      }
+
+      await transaction.commit();
+
+      const updatedPayment = await payment.reload();
+      await this.webhookService.notifyStatusChange(updatedPayment);
+
+      this.logger.log('Pending payment ended by expiry job', {
+        merchantTxnRef,
+        status: updatedPayment.dataValues.status,
+      });
+
+      return gatewayStatus ? 'resolved' : 'expired';
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  }
+}
@@ -1,25 +1,61 @@
 import { Processor, Process } from '@nestjs/bull';
 import { Job } from 'bull';
 import { Logger, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { InjectModel } from '@nestjs/sequelize';
+import { Sequelize } from 'sequelize-typescript';
 import { Op } from 'sequelize';
 import PaymentTransaction, { TransactionStatus } from '../models/payment-transaction.model';
 import { PaymentService } from '../payment.service';
-import { SyncError } from '../interfaces/payment.interface';
+import { WebhookService } from '../webhook.service';
+import { TransactionStatusService } from '../transaction-status.service';
+import { StatusChangeSource } from '../models/payment-status-history.model';
+import { TransactionStateMachine } from '../utils/transaction-state-machine.util';
+import { MigsResponseCodeUtil } from '../utils/migs-response-code.util';
+import { GatewayResultData, SyncError, SyncJobData, SyncJobResult } from '../interfaces/payment.interface';
+import { MetricsService } from '../../metrics/metrics.service';
+import { RequestContext } from '../../request-context/request-context';
+import { ApiError } from '../../errors/api-error';
 
+/**
+ * Resolves pending payments by querying the gateway. A transaction whose
+ * query keeps failing is retried with exponential backoff through its own
+ * syncAttempts / nextSyncAt, and is dead-lettered after the configured
+ * number of attempts (or at once for errors that retrying cannot fix).
+ */
 @Injectable()
 @Processor('payment-status-sync')
 export class PaymentStatusSyncProcessor {
   private readonly logger = new Logger(PaymentStatusSyncProcessor.name);
+  private readonly batchSize: number;
+  private readonly minAgeMs: number;
+  private readonly maxAttempts: number;
+  private readonly backoffBaseMs: number;
+  private readonly backoffMaxMs: number;
 
   constructor(
+    private readonly configService: ConfigService,
+    private readonly sequelize: Sequelize,
     @InjectModel(PaymentTransaction)
     private readonly paymentModel: typeof PaymentTransaction,
     private readonly paymentService: PaymentService,
-  ) {}
+    private readonly webhookService: WebhookService,
+    private readonly transactionStatusService: TransactionStatusService,
+    private readonly metricsService: MetricsService,
+  ) {
+    this.batchSize = this.configService.get<number>('sync.batchSize') || 50;
+    this.minAgeMs = (this.configService.get<number>('sync.minAgeMinutes') ?? 5) * 60 * 1000;
+    this.maxAttempts = this.configService.get<number>('sync.maxAttempts') || 5;
+    this.backoffBaseMs = (this.configService.get<number>('sync.backoffBaseMinutes') || 5) * 60 * 1000;
+    this.backoffMaxMs = (this.configService.get<number>('sync.backoffMaxMinutes') || 240) * 60 * 1000;
+  }
 
   @Process('sync-pending-payments')
-  async handlePaymentStatusSync(job: Job<any>): Promise<any> {
+  handlePaymentStatusSync(job: Job<SyncJobData>): Promise<SyncJobResult> {
+    return RequestContext.runForJob(job, () => this.syncPendingPayments(job));
+  }
+
+  private async syncPendingPayments(job: Job<SyncJobData>): Promise<SyncJobResult> {
     const startTime = Date.now();
     let processedCount = 0;
     let updatedCount = 0;
@@ -34,16 +70,22 @@ export class PaymentStatusSyncProcessor {
         triggeredBy: job.data.triggeredBy || 'scheduled',
       });
 
-      // Fetch pending transactions older than 5 minutes
-      const fiveMinutesAgo = new Date(Date.now() - 5 * 60 * 1000);
-      const batchSize = job.data.batchSize || 50;
+      // Fetch pending transactions old enough to sync whose retry time has come;
+      // dead-lettered transactions wait for an operator to requeue them
+      const now = new Date();
+      const batchSize = job.data.batchSize || this.batchSize;
 
       const pendingTransactions = await this.paymentModel.findAll({
         where: {
           status: TransactionStatus.PENDING,
           createdAt: {
-            [Op.lt]: fiveMinutesAgo,
+            [Op.lt]: new Date(now.getTime() - this.minAgeMs),
           },
+          syncDeadLetteredAt: null,
+          [Op.or]: [
+            { nextSyncAt: null },
+            { nextSyncAt: { [Op.lte]: now } },
+          ],
         },
         limit: batchSize,
         order: [['createdAt', 'ASC']],
@@ -52,6 +94,8 @@ export class PaymentStatusSyncProcessor {
       this.logger.log(`Found ${pendingTransactions.length} pending transactions to sync`);
 
       for (const transaction of pendingTransactions) {
+        const { merchantTxnRef } = transaction.dataValues;
+
         try {
           processedCount++;
 
@@ -59,35 +103,47 @@ export class PaymentStatusSyncProcessor {
           await job.progress((processedCount / pendingTransactions.length) * 100);
 
           // Query gateway for current status
-          const gatewayResponse = await this.paymentService.queryPaymentByTxnRef(
-            transaction.merchantTxnRef
-          );
+          const gatewayResponse = await this.paymentService.queryPaymentByTxnRef(merchantTxnRef);
 
-          // Check if status has changed
-          const gatewayStatus = this.mapGatewayStatusToLocal(
-            gatewayResponse.vpc_TxnResponseCode
+          // Check if status has changed; results still pending at the gateway map to null
+          const result = MigsResponseCodeUtil.describe(
+            gatewayResponse.vpc_TxnResponseCode,
+            gatewayResponse.vpc_AcqResponseCode
           );
+          const gatewayStatus = MigsResponseCodeUtil.resolveStatus(
+            result,
+            transaction.dataValues.captureMode
+          );
+
+          const oldStatus = transaction.dataValues.status as TransactionStatus;
+
+          if (gatewayStatus && TransactionStateMachine.canTransition(oldStatus, gatewayStatus)) {
+            const updatedPayment = await this.applyGatewayStatus(
+              transaction.dataValues.id,
+              gatewayStatus,
+              result,
+              gatewayResponse,
+              job.id
+            );
+
+            if (updatedPayment) {
+              await this.webhookService.notifyStatusChange(updatedPayment);
+
+              updatedCount++;
 
-          if (gatewayStatus && gatewayStatus !== transaction.status) {
-            // Update transaction status
-            await transaction.update({
-              status: gatewayStatus,
-              responseCode: gatewayResponse.vpc_TxnResponseCode,
-              responseMessage: gatewayResponse.vpc_Message,
-              transactionId: gatewayResponse.vpc_TransactionNo,
-              authCode: gatewayResponse.vpc_AuthorizeId,
-              receiptNo: gatewayResponse.vpc_ReceiptNo,
-              processedAt: new Date(),
-            });
-
-            updatedCount++;
-
-            this.logger.log('Transaction status updated', {
-              merchantTxnRef: transaction.merchantTxnRef,
-              oldStatus: transaction.status,
-              newStatus: gatewayStatus,
-            });
+              this.logger.log('Transaction status updated', {
+                merchantTxnRef,
+                oldStatus,
+                newStatus: gatewayStatus,
+              });
+            } else {
+              skippedCount++;
+            }
           } else {
+            // The gateway answered, so earlier failures no longer count
+            if (transaction.dataValues.syncAttempts > 0) {
+              await transaction.update(this.clearedRetryState());
+            }
             skippedCount++;
           }
 
@@ -97,21 +153,23 @@ export class PaymentStatusSyncProcessor {
         } catch (error) {
           errorCount++;
           const errorDetail: SyncError = {
-            merchantTxnRef: transaction.merchantTxnRef,
+            merchantTxnRef,
             error: error.message,
             retryable: this.isRetryableError(error),
           };
           errors.push(errorDetail);
 
           this.logger.error('Failed to sync transaction status', {
-            merchantTxnRef: transaction.merchantTxnRef,
+            merchantTxnRef,
             error: error.message,
           });
+
+          await this.recordFailedAttempt(transaction, errorDetail);
         }
       }
 
       const processingTime = Date.now() - startTime;
-      const result = {
+      const result: SyncJobResult = {
         processedCount,
         updatedCount,
         errorCount,
@@ -121,6 +179,7 @@ export class PaymentStatusSyncProcessor {
       };
 
       this.logger.log('Payment status synchronization completed', result);
+      this.metricsService.recordSyncJobResult(result);
 
       return result;
 
@@ -134,24 +193,120 @@ export class PaymentStatusSyncProcessor {
     }
   }
 
-  private mapGatewayStatusToLocal(responseCode: string): string | null {
-    switch (responseCode) {
-      case '0':
-        return TransactionStatus.SUCCESS;
-      case '1':
-      case '2':
-      case '3':
-      case '4':
-      case '5':
-      case '6':
-      case '7':
-        return TransactionStatus.FAILED;
-      default:
-        return null; // Unknown status, don't update
+  /**
+   * Applies the gateway's status to a payment under a row lock. The batch was
+   * read without one, so a callback or notification may have settled the
+   * payment since; it is then left alone.
+   * 
+   * @private
+   * @param paymentId - Payment to update
+   * @param gatewayStatus - Status resolved from the queryDR response
+   * @param result - Described queryDR response code
+   * @param gatewayResponse - The queryDR response
+   * @param jobId - Sync job applying the change
+   * @returns The updated payment, or null if it was no longer pending
+   */
+  private async applyGatewayStatus(
+    paymentId: string,
+    gatewayStatus: TransactionStatus,
+    result: GatewayResultData,
+    gatewayResponse: Record<string, any>,
+    jobId: string | number,
+  ): Promise<PaymentTransaction | null> {
+    const transaction = await this.sequelize.transaction();
+
+    try {
+      const payment = await this.paymentModel.findByPk(paymentId, { transaction, lock: true });
+
+      if (!payment || payment.dataValues.status !== TransactionStatus.PENDING) {
+        await transaction.commit();
+        return null;
+      }
+
+      await this.transactionStatusService.transition(
+        payment,
+        gatewayStatus,
+        {
+          source: StatusChangeSource.SYNC,
+          reason: `Gateway queryDR response code ${result.code}: ${result.category}`,
+          metadata: { jobId, acquirerCode: result.acquirerCode, retryable: result.retryable },
+        },
+        {
+          responseCode: gatewayResponse.vpc_TxnResponseCode,
+          responseMessage: gatewayResponse.vpc_Message,
+          transactionId: gatewayResponse.vpc_TransactionNo,
+          authCode: gatewayResponse.vpc_AuthorizeId,
+          receiptNo: gatewayResponse.vpc_ReceiptNo,
+          processedAt: new Date(),
+          ...this.clearedRetryState(),
+        },
+        transaction
+      );
+
+      await transaction.commit();
+      return payment.reload();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  }
+
+  /**
+   * Counts a failed sync attempt against the transaction and schedules the
+   * next one, or moves the transaction to the dead-letter list
+   * 
+   * @private
+   * @param transaction - Transaction whose gateway query failed
+   * @param errorDetail - The failure
+   */
+  private async recordFailedAttempt(transaction: PaymentTransaction, errorDetail: SyncError): Promise<void> {
+    const attempts = (transaction.dataValues.syncAttempts || 0) + 1;
+    const deadLetter = !errorDetail.retryable || attempts >= this.maxAttempts;
+
+    try {
+      if (deadLetter) {
+        await transaction.update({
+          syncAttempts: attempts,
+          lastSyncError: errorDetail.error,
+          nextSyncAt: null,
+          syncDeadLetteredAt: new Date(),
+        });
+
+        this.logger.warn('Transaction moved to sync dead-letter list', {
+          merchantTxnRef: errorDetail.merchantTxnRef,
+          attempts,
+          retryable: errorDetail.retryable,
+        });
+        return;
+      }
+
+      const delay = Math.min(this.backoffBaseMs * 2 ** (attempts - 1), this.backoffMaxMs);
+      await transaction.update({
+        syncAttempts: attempts,
+        lastSyncError: errorDetail.error,
+        nextSyncAt: new Date(Date.now() + delay),
+      });
+    } catch (error) {
+      this.logger.error('Failed to record sync attempt', {
+        merchantTxnRef: errorDetail.merchantTxnRef,
+        error: error.message,
+      });
     }
   }
 
+  private clearedRetryState(): Record<string, any> {
+    return {
+      syncAttempts: 0,
+      nextSyncAt: null,
+      lastSyncError: null,
+    };
+  }
+
   private isRetryableError(error: any): boolean {
+    if (error instanceof ApiError) {
+      return error.retryable;
+    }
+
     // Network errors, timeouts, and temporary gateway errors are retryable
     return error.code === 'ECONNRESET' ||
            error.code === 'ETIMEDOUT' ||
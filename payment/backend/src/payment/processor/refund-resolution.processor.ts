@@ -0,0 +1,107 @@
+import { Processor, Process } from '@nestjs/bull';
+import { Job } from 'bull';
+import { Logger, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/sequelize';
+import { Op } from 'sequelize';
+import PaymentRefund, { RefundStatus } from '../models/payment-refund.model';
+import { PaymentService } from '../payment.service';
+import { RefundResolutionJobResult, SyncJobData } from '../interfaces/payment.interface';
+import { RequestContext } from '../../request-context/request-context';
+import { ApiError } from '../../errors/api-error';
+
+/**
+ * Settles refunds left PENDING because the gateway timed out or could not
+ * be reached after the refund was sent. Each one gets a queryDR on its
+ * refundTxnRef; until the gateway has a final result it stays pending and
+ * keeps counting against the payment's refundable amount.
+ * 
+ * Also repairs approved refunds whose payment update rolled back, adding
+ * them to the payment's refundedAmount.
+ */
+@Injectable()
+@Processor('payment-status-sync')
+export class RefundResolutionProcessor {
+  private readonly logger = new Logger(RefundResolutionProcessor.name);
+  private readonly batchSize: number;
+  private readonly minAgeMs: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @InjectModel(PaymentRefund)
+    private readonly refundModel: typeof PaymentRefund,
+    private readonly paymentService: PaymentService,
+  ) {
+    this.batchSize = this.configService.get<number>('sync.batchSize') || 50;
+    this.minAgeMs = (this.configService.get<number>('sync.minAgeMinutes') ?? 5) * 60 * 1000;
+  }
+
+  @Process('resolve-pending-refunds')
+  handleRefundResolution(job: Job<SyncJobData>): Promise<RefundResolutionJobResult> {
+    return RequestContext.runForJob(job, () => this.resolveRefunds(job));
+  }
+
+  private async resolveRefunds(job: Job<SyncJobData>): Promise<RefundResolutionJobResult> {
+    const startTime = Date.now();
+    const result: RefundResolutionJobResult = {
+      processedCount: 0,
+      succeededCount: 0,
+      failedCount: 0,
+      pendingCount: 0,
+      errorCount: 0,
+      processingTime: 0,
+      errors: [],
+    };
+
+    // Refunds younger than the minimum age may still be waiting for the gateway's answer
+    const unsettledRefunds = await this.refundModel.findAll({
+      where: {
+        [Op.or]: [
+          { status: RefundStatus.PENDING },
+          { status: RefundStatus.SUCCESS, appliedAt: null },
+        ],
+        createdAt: { [Op.lt]: new Date(Date.now() - this.minAgeMs) },
+      },
+      attributes: ['id', 'refundTxnRef'],
+      limit: job.data.batchSize || this.batchSize,
+      order: [['createdAt', 'ASC']],
+    });
+
+    for (const refund of unsettledRefunds) {
+      const { id, refundTxnRef } = refund.dataValues;
+      result.processedCount++;
+
+      try {
+        const status = await this.paymentService.resolveRefund(id);
+
+        if (status === RefundStatus.SUCCESS) {
+          result.succeededCount++;
+        } else if (status === RefundStatus.FAILED) {
+          result.failedCount++;
+        } else {
+          result.pendingCount++;
+        }
+      } catch (error) {
+        result.errorCount++;
+        result.errors.push({
+          merchantTxnRef: refundTxnRef,
+          error: error.message,
+          retryable: error instanceof ApiError ? error.retryable : true,
+        });
+
+        this.logger.error('Failed to resolve refund', {
+          refundTxnRef,
+          error: error.message,
+        });
+      }
+    }
+
+    result.processingTime = Date.now() - startTime;
+
+    if (result.processedCount > 0) {
+      this.logger.log('Refund resolution completed', result);
+    }
+
+    return result;
+  }
+}
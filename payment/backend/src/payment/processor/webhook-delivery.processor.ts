@@ -0,0 +1,126 @@
+import { Processor, Process } from '@nestjs/bull';
+import { Job } from 'bull';
+import { Logger, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/sequelize';
+import axios from 'axios';
+import WebhookEndpoint from '../models/webhook-endpoint.model';
+import WebhookDelivery, { WebhookDeliveryStatus } from '../models/webhook-delivery.model';
+import { WebhookSignatureUtil } from '../utils/webhook-signature.util';
+import { WebhookDeliveryJobData } from '../interfaces/payment.interface';
+import { RequestContext } from '../../request-context/request-context';
+
+@Injectable()
+@Processor('merchant-webhooks')
+export class WebhookDeliveryProcessor {
+  private readonly logger = new Logger(WebhookDeliveryProcessor.name);
+  private readonly timeoutMs: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @InjectModel(WebhookDelivery)
+    private readonly deliveryModel: typeof WebhookDelivery,
+    @InjectModel(WebhookEndpoint)
+    private readonly endpointModel: typeof WebhookEndpoint,
+  ) {
+    this.timeoutMs = this.configService.get<number>('webhooks.timeoutMs') || 10000;
+  }
+
+  @Process('deliver-webhook')
+  handleDelivery(job: Job<WebhookDeliveryJobData>): Promise<void> {
+    return RequestContext.runForJob(job, () => this.deliver(job));
+  }
+
+  private async deliver(job: Job<WebhookDeliveryJobData>): Promise<void> {
+    const delivery = await this.deliveryModel.findByPk(job.data.deliveryId);
+
+    if (!delivery) {
+      this.logger.warn('Webhook delivery not found, dropping job', { deliveryId: job.data.deliveryId });
+      return;
+    }
+
+    const { dataValues } = delivery;
+    const endpoint = await this.endpointModel.findByPk(dataValues.endpointId);
+
+    if (!endpoint || !endpoint.dataValues.isActive) {
+      await delivery.update({
+        status: WebhookDeliveryStatus.FAILED,
+        lastError: 'Endpoint removed or disabled',
+      });
+      return;
+    }
+
+    const attempt = job.attemptsMade + 1;
+    const isFinalAttempt = attempt >= (job.opts.attempts ?? 1);
+    const body = JSON.stringify(dataValues.payload);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+
+    try {
+      const response = await axios.post(endpoint.dataValues.url, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'MIGS-Webhooks/1.0',
+          'X-Webhook-Id': dataValues.eventId,
+          'X-Webhook-Event': dataValues.eventType,
+          'X-Webhook-Timestamp': timestamp,
+          'X-Webhook-Signature': WebhookSignatureUtil.buildHeader(body, endpoint.dataValues.secret, timestamp),
+        },
+        timeout: this.timeoutMs,
+        validateStatus: () => true,
+        maxRedirects: 0,
+      });
+
+      const responseBody = typeof response.data === 'string'
+        ? response.data
+        : JSON.stringify(response.data ?? '');
+
+      if (response.status < 200 || response.status >= 300) {
+        await delivery.update({
+          attempts: attempt,
+          responseStatus: response.status,
+          responseBody: responseBody.substring(0, 1000),
+          lastError: `Endpoint responded with status ${response.status}`,
+          lastAttemptAt: new Date(),
+          status: isFinalAttempt ? WebhookDeliveryStatus.FAILED : WebhookDeliveryStatus.PENDING,
+        });
+        throw new Error(`Endpoint responded with status ${response.status}`);
+      }
+
+      await delivery.update({
+        attempts: attempt,
+        responseStatus: response.status,
+        responseBody: responseBody.substring(0, 1000),
+        lastError: null,
+        lastAttemptAt: new Date(),
+        deliveredAt: new Date(),
+        status: WebhookDeliveryStatus.DELIVERED,
+      });
+
+      this.logger.log('Webhook delivered', {
+        deliveryId: dataValues.id,
+        eventType: dataValues.eventType,
+        attempt,
+      });
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        await delivery.update({
+          attempts: attempt,
+          lastError: error.message,
+          lastAttemptAt: new Date(),
+          status: isFinalAttempt ? WebhookDeliveryStatus.FAILED : WebhookDeliveryStatus.PENDING,
+        });
+      }
+
+      this.logger.warn('Webhook delivery attempt failed', {
+        deliveryId: dataValues.id,
+        eventType: dataValues.eventType,
+        attempt,
+        willRetry: !isFinalAttempt,
+        error: error.message,
+      });
+
+      // Rethrow so Bull schedules the next attempt with exponential backoff
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,177 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Body,
+  Param,
+  Query,
+  Logger,
+  ValidationPipe,
+  UploadedFile,
+  UseInterceptors,
+  BadRequestException,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ApiTags } from '@nestjs/swagger';
+
+import { ApiScope } from '../auth/models/api-client.model';
+import { RequireScopes } from '../auth/decorators/auth.decorator';
+import { AuditService } from '../audit/audit.service';
+import { AuditOperation } from '../audit/models/audit-event.model';
+import { AuditActor } from '../audit/decorators/audit-actor.decorator';
+import { AuditContext } from '../audit/interfaces/audit.interface';
+import {
+  CreateReconciliationRunDto,
+  ListReconciliationItemsQueryDto,
+  ListReconciliationRunsQueryDto,
+} from './dto/reconciliation.dto';
+import { ReconciliationService } from './reconciliation.service';
+import ReconciliationRun from './models/reconciliation-run.model';
+import { PaymentApiResponse, ReconciliationItemData, ReconciliationRunData } from './interfaces/payment.interface';
+import {
+  CreateReconciliationRunDocs,
+  GetReconciliationRunDocs,
+  ListReconciliationItemsDocs,
+  ListReconciliationRunsDocs,
+} from './decorators/reconciliation.decorator';
+
+const MAX_SETTLEMENT_FILE_SIZE = 10 * 1024 * 1024;
+
+/**
+ * ReconciliationController
+ * 
+ * Admin endpoints for importing MIGS settlement reports and reviewing
+ * stored reconciliation runs.
+ */
+@ApiTags('Settlement Reconciliation')
+@RequireScopes(ApiScope.ADMIN)
+@Controller('api/payments/admin/reconciliation')
+export class ReconciliationController {
+  private readonly logger = new Logger(ReconciliationController.name);
+
+  constructor(
+    private readonly reconciliationService: ReconciliationService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  @Post('runs')
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_SETTLEMENT_FILE_SIZE } }))
+  @CreateReconciliationRunDocs()
+  async createRun(
+    @UploadedFile() file: Express.Multer.File,
+    @Body(ValidationPipe) runData: CreateReconciliationRunDto,
+    @AuditActor() audit: AuditContext
+  ): Promise<PaymentApiResponse<ReconciliationRunData>> {
+    if (!file) {
+      throw new BadRequestException('Settlement file is required');
+    }
+
+    this.logger.log('Settlement reconciliation requested via API', {
+      fileName: file.originalname,
+      size: file.size,
+      startedBy: audit.actorId,
+    });
+
+    const run = await this.reconciliationService.reconcile(file.originalname, file.buffer, runData, audit);
+    const mismatchCount = run.dataValues.mismatchCount;
+
+    await this.auditService.record(audit, {
+      operation: AuditOperation.RECONCILIATION_RUN,
+      targetType: 'reconciliation_run',
+      targetId: run.dataValues.id,
+      metadata: {
+        fileName: file.originalname,
+        mismatchCount,
+      },
+    });
+
+    return {
+      success: true,
+      data: this.toRunData(run),
+      message: mismatchCount > 0
+        ? `Reconciliation completed with ${mismatchCount} mismatches`
+        : 'Reconciliation completed with no mismatches',
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  @Get('runs')
+  @ListReconciliationRunsDocs()
+  async listRuns(
+    @Query(new ValidationPipe({ transform: true })) query: ListReconciliationRunsQueryDto
+  ): Promise<PaymentApiResponse<ReconciliationRunData[]>> {
+    const runs = await this.reconciliationService.listRuns(query.limit);
+
+    return {
+      success: true,
+      data: runs.map((run) => this.toRunData(run)),
+      message: 'Reconciliation runs retrieved successfully',
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  @Get('runs/:runId')
+  @GetReconciliationRunDocs()
+  async getRun(
+    @Param('runId') runId: string
+  ): Promise<PaymentApiResponse<ReconciliationRunData>> {
+    const run = await this.reconciliationService.getRun(runId);
+
+    return {
+      success: true,
+      data: this.toRunData(run),
+      message: 'Reconciliation run retrieved successfully',
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  @Get('runs/:runId/items')
+  @ListReconciliationItemsDocs()
+  async listItems(
+    @Param('runId') runId: string,
+    @Query(new ValidationPipe({ transform: true })) query: ListReconciliationItemsQueryDto
+  ): Promise<PaymentApiResponse<ReconciliationItemData[]>> {
+    const items = await this.reconciliationService.getRunItems(runId, query.result);
+
+    const responseData: ReconciliationItemData[] = items.map(({ dataValues }) => ({
+      itemId: dataValues.id,
+      result: dataValues.result,
+      paymentId: dataValues.paymentId,
+      rowNumber: dataValues.rowNumber,
+      merchantTxnRef: dataValues.merchantTxnRef,
+      transactionId: dataValues.transactionId,
+      receiptNo: dataValues.receiptNo,
+      batchNo: dataValues.batchNo,
+      localAmount: dataValues.localAmount !== null ? Number(dataValues.localAmount) : undefined,
+      gatewayAmount: dataValues.gatewayAmount !== null ? Number(dataValues.gatewayAmount) : undefined,
+      localStatus: dataValues.localStatus,
+      gatewayStatus: dataValues.gatewayStatus,
+    }));
+
+    return {
+      success: true,
+      data: responseData,
+      message: 'Reconciliation findings retrieved successfully',
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  private toRunData(run: ReconciliationRun): ReconciliationRunData {
+    const { dataValues } = run;
+
+    return {
+      runId: dataValues.id,
+      fileName: dataValues.fileName,
+      settlementDate: dataValues.settlementDate,
+      batchNumbers: dataValues.batchNumbers,
+      status: dataValues.status,
+      totalRows: dataValues.totalRows,
+      matchedCount: dataValues.matchedCount,
+      mismatchCount: dataValues.mismatchCount,
+      summary: dataValues.summary,
+      errorMessage: dataValues.errorMessage,
+      startedBy: dataValues.startedBy,
+      createdAt: dataValues.createdAt,
+    };
+  }
+}
@@ -0,0 +1,445 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { Sequelize } from 'sequelize-typescript';
+import { Op } from 'sequelize';
+import { parseString } from '@fast-csv/parse';
+
+import PaymentTransaction, { TransactionStatus } from './models/payment-transaction.model';
+import ReconciliationRun, { ReconciliationRunStatus } from './models/reconciliation-run.model';
+import ReconciliationItem, { ReconciliationResult } from './models/reconciliation-item.model';
+import { CreateReconciliationRunDto } from './dto/reconciliation.dto';
+import { SettlementRecord } from './interfaces/payment.interface';
+import { Money } from './utils/money.util';
+import { AuditContext } from '../audit/interfaces/audit.interface';
+
+/**
+ * Accepted header spellings per settlement field, compared after lower-casing
+ * and stripping everything except letters and digits
+ */
+const SETTLEMENT_COLUMNS: Record<keyof Omit<SettlementRecord, 'rowNumber' | 'raw'>, string[]> = {
+  merchantTxnRef: ['merchanttransactionreference', 'merchanttxnref', 'merchtxnref', 'vpcmerchtxnref', 'orderreference'],
+  transactionId: ['transactionnumber', 'transactionno', 'transactionid', 'transno', 'vpctransactionno'],
+  receiptNo: ['receiptnumber', 'receiptno', 'rrn', 'vpcreceiptno'],
+  batchNo: ['batchnumber', 'batchno', 'vpcbatchno'],
+  amount: ['amount', 'transactionamount', 'settledamount'],
+  currency: ['currency', 'currencycode'],
+  status: ['status', 'transactionstatus', 'responsecode', 'vpctxnresponsecode', 'result'],
+  transactionType: ['transactiontype', 'type', 'command'],
+};
+
+/**
+ * Local statuses that mean the purchase reached settlement
+ */
+const SETTLED_STATUSES: TransactionStatus[] = [
+  TransactionStatus.SUCCESS,
+  TransactionStatus.REFUNDED,
+  TransactionStatus.PARTIALLY_REFUNDED,
+];
+
+const LOOKUP_CHUNK_SIZE = 1000;
+
+/**
+ * ReconciliationService
+ * 
+ * Imports MIGS settlement/batch reports and compares each row with the
+ * locally stored payment_transactions. Every import is stored as a
+ * reconciliation run with one item per finding.
+ */
+@Injectable()
+export class ReconciliationService {
+  private readonly logger = new Logger(ReconciliationService.name);
+
+  constructor(
+    private readonly sequelize: Sequelize,
+    @InjectModel(PaymentTransaction)
+    private readonly paymentModel: typeof PaymentTransaction,
+    @InjectModel(ReconciliationRun)
+    private readonly runModel: typeof ReconciliationRun,
+    @InjectModel(ReconciliationItem)
+    private readonly itemModel: typeof ReconciliationItem,
+  ) {}
+
+  /**
+   * Parses a settlement CSV, reconciles it against local transactions and stores the run
+   * 
+   * @param fileName - Original name of the uploaded file
+   * @param content - Raw CSV content
+   * @param runData - Settlement date
+   * @param audit - Actor starting the run, stored as its startedBy
+   * @returns Promise resolving to the stored reconciliation run
+   * @throws {BadRequestException} If the file cannot be parsed
+   */
+  async reconcile(
+    fileName: string,
+    content: Buffer,
+    runData: CreateReconciliationRunDto,
+    audit: AuditContext
+  ): Promise<ReconciliationRun> {
+    const startTime = Date.now();
+
+    let records: SettlementRecord[];
+    try {
+      records = await this.parseSettlementFile(content);
+    } catch (error) {
+      this.logger.error('Settlement file could not be parsed', {
+        fileName,
+        error: error.message,
+      });
+
+      await this.runModel.create({
+        fileName,
+        settlementDate: runData.settlementDate,
+        status: ReconciliationRunStatus.FAILED,
+        errorMessage: error.message,
+        startedBy: audit.actorId,
+      });
+
+      throw new BadRequestException(`Invalid settlement file: ${error.message}`);
+    }
+
+    const batchNumbers = [...new Set(records.map((record) => record.batchNo).filter(Boolean))] as string[];
+    const findings = await this.matchRecords(records, batchNumbers, runData.settlementDate);
+
+    const summary = Object.values(ReconciliationResult).reduce<Record<string, number>>((counts, result) => {
+      counts[result] = findings.filter((finding) => finding.result === result).length;
+      return counts;
+    }, {});
+    const matchedCount = summary[ReconciliationResult.MATCHED];
+
+    const transaction = await this.sequelize.transaction();
+
+    try {
+      const run = await this.runModel.create({
+        fileName,
+        settlementDate: runData.settlementDate,
+        batchNumbers,
+        status: ReconciliationRunStatus.COMPLETED,
+        totalRows: records.length,
+        matchedCount,
+        mismatchCount: findings.length - matchedCount,
+        summary,
+        startedBy: audit.actorId,
+      }, { transaction });
+
+      await this.itemModel.bulkCreate(
+        findings.map((finding) => ({ ...finding, runId: run.dataValues.id })),
+        { transaction }
+      );
+
+      await transaction.commit();
+
+      this.logger.log('Settlement reconciliation completed', {
+        runId: run.dataValues.id,
+        fileName,
+        totalRows: records.length,
+        summary,
+        processingTime: Date.now() - startTime,
+      });
+
+      return run;
+    } catch (error) {
+      await transaction.rollback();
+
+      this.logger.error('Failed to store reconciliation run', {
+        fileName,
+        error: error.message,
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Lists reconciliation runs, newest first
+   * 
+   * @param limit - Maximum number of runs to return
+   */
+  async listRuns(limit = 20): Promise<ReconciliationRun[]> {
+    return this.runModel.findAll({
+      order: [['createdAt', 'DESC']],
+      limit,
+    });
+  }
+
+  /**
+   * Retrieves a reconciliation run
+   * 
+   * @param runId - Reconciliation run ID
+   * @throws {NotFoundException} If the run does not exist
+   */
+  async getRun(runId: string): Promise<ReconciliationRun> {
+    const run = await this.runModel.findByPk(runId);
+    if (!run) {
+      throw new NotFoundException('Reconciliation run not found');
+    }
+    return run;
+  }
+
+  /**
+   * Lists the findings of a reconciliation run
+   * 
+   * @param runId - Reconciliation run ID
+   * @param result - Optional result filter
+   * @throws {NotFoundException} If the run does not exist
+   */
+  async getRunItems(runId: string, result?: ReconciliationResult): Promise<ReconciliationItem[]> {
+    await this.getRun(runId);
+
+    return this.itemModel.findAll({
+      where: result ? { runId, result } : { runId },
+      order: [['rowNumber', 'ASC']],
+    });
+  }
+
+  /**
+   * Parses the CSV into settlement records, mapping known header spellings
+   */
+  private async parseSettlementFile(content: Buffer): Promise<SettlementRecord[]> {
+    const rows = await new Promise<Record<string, string>[]>((resolve, reject) => {
+      const parsed: Record<string, string>[] = [];
+      parseString(content.toString('utf8').replace(/^\uFEFF/, ''), {
+        headers: true,
+        ignoreEmpty: true,
+        trim: true,
+      })
+        .on('error', reject)
+        .on('data', (row: Record<string, string>) => parsed.push(row))
+        .on('end', () => resolve(parsed));
+    });
+
+    if (rows.length === 0) {
+      throw new Error('file contains no rows');
+    }
+
+    const headerMap = this.resolveHeaders(Object.keys(rows[0]));
+    if (!headerMap.merchantTxnRef && !headerMap.transactionId && !headerMap.receiptNo) {
+      throw new Error('no merchant reference, transaction number or receipt number column found');
+    }
+    if (!headerMap.amount) {
+      throw new Error('no amount column found');
+    }
+
+    return rows.map((raw, index) => {
+      const value = (field: string) => (headerMap[field] ? raw[headerMap[field]] || undefined : undefined);
+      const amount = value('amount');
+
+      return {
+        rowNumber: index + 2,
+        merchantTxnRef: value('merchantTxnRef'),
+        transactionId: value('transactionId'),
+        receiptNo: value('receiptNo'),
+        batchNo: value('batchNo'),
+        amount: amount !== undefined ? Number(amount.replace(/,/g, '')) : undefined,
+        currency: value('currency'),
+        status: value('status'),
+        transactionType: value('transactionType'),
+        raw,
+      };
+    });
+  }
+
+  /**
+   * Compares a settled amount with the local one exactly, in the payment
+   * currency's minor units. A settled amount with more decimals than the
+   * currency has never matches.
+   */
+  private amountsMatch(settledAmount: number | undefined, localAmount: number, currency: string): boolean {
+    if (settledAmount === undefined || Number.isNaN(settledAmount)) {
+      return false;
+    }
+
+    try {
+      return Money.fromDecimal(settledAmount, currency).equals(Money.fromDecimal(localAmount, currency));
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Maps each settlement field to the matching header in the uploaded file
+   */
+  private resolveHeaders(headers: string[]): Record<string, string> {
+    const normalised = new Map(headers.map((header) => [header.toLowerCase().replace(/[^a-z0-9]/g, ''), header]));
+
+    return Object.entries(SETTLEMENT_COLUMNS).reduce<Record<string, string>>((map, [field, aliases]) => {
+      const alias = aliases.find((candidate) => normalised.has(candidate));
+      if (alias) {
+        map[field] = normalised.get(alias) as string;
+      }
+      return map;
+    }, {});
+  }
+
+  /**
+   * Compares settlement records with local transactions and returns one finding per discrepancy
+   */
+  private async matchRecords(
+    records: SettlementRecord[],
+    batchNumbers: string[],
+    settlementDate?: string
+  ): Promise<Partial<ReconciliationItem>[]> {
+    const payments = await this.findLocalPayments(records);
+
+    const byMerchantTxnRef = new Map<string, PaymentTransaction>();
+    const byTransactionId = new Map<string, PaymentTransaction>();
+    const byReceiptNo = new Map<string, PaymentTransaction>();
+    for (const payment of payments) {
+      const { merchantTxnRef, transactionId, receiptNo } = payment.dataValues;
+      if (merchantTxnRef) byMerchantTxnRef.set(merchantTxnRef, payment);
+      if (transactionId) byTransactionId.set(transactionId, payment);
+      if (receiptNo) byReceiptNo.set(receiptNo, payment);
+    }
+
+    const findings: Partial<ReconciliationItem>[] = [];
+    const matchedPaymentIds = new Set<string>();
+
+    for (const record of records) {
+      if (record.transactionType && /refund|void|reversal/i.test(record.transactionType)) {
+        continue;
+      }
+
+      const payment = (record.merchantTxnRef && byMerchantTxnRef.get(record.merchantTxnRef))
+        || (record.transactionId && byTransactionId.get(record.transactionId))
+        || (record.receiptNo && byReceiptNo.get(record.receiptNo))
+        || null;
+
+      const base = {
+        rowNumber: record.rowNumber,
+        merchantTxnRef: record.merchantTxnRef,
+        transactionId: record.transactionId,
+        receiptNo: record.receiptNo,
+        batchNo: record.batchNo,
+        gatewayAmount: record.amount,
+        gatewayStatus: record.status,
+        rawRow: record.raw,
+      };
+
+      if (!payment) {
+        findings.push({ ...base, result: ReconciliationResult.MISSING_LOCALLY });
+        continue;
+      }
+
+      const { id, amount, currency, status } = payment.dataValues;
+      matchedPaymentIds.add(id);
+
+      const matched = {
+        ...base,
+        paymentId: id,
+        merchantTxnRef: record.merchantTxnRef || payment.dataValues.merchantTxnRef,
+        localAmount: amount,
+        localStatus: status,
+      };
+
+      const amountDiffers = !this.amountsMatch(record.amount, amount, currency);
+      const statusDiffers = !this.statusMatches(status, record.status);
+
+      if (amountDiffers) {
+        findings.push({ ...matched, result: ReconciliationResult.AMOUNT_MISMATCH });
+      }
+      if (statusDiffers) {
+        findings.push({ ...matched, result: ReconciliationResult.STATUS_MISMATCH });
+      }
+      if (!amountDiffers && !statusDiffers) {
+        findings.push({ ...matched, result: ReconciliationResult.MATCHED });
+      }
+    }
+
+    const unsettled = await this.findUnsettledPayments(batchNumbers, matchedPaymentIds, settlementDate);
+    for (const payment of unsettled) {
+      const { dataValues } = payment;
+      findings.push({
+        result: ReconciliationResult.MISSING_AT_GATEWAY,
+        paymentId: dataValues.id,
+        merchantTxnRef: dataValues.merchantTxnRef,
+        transactionId: dataValues.transactionId,
+        receiptNo: dataValues.receiptNo,
+        batchNo: dataValues.batchNo,
+        localAmount: dataValues.amount,
+        localStatus: dataValues.status,
+      });
+    }
+
+    return findings;
+  }
+
+  /**
+   * Loads every local transaction referenced by the settlement records
+   */
+  private async findLocalPayments(records: SettlementRecord[]): Promise<PaymentTransaction[]> {
+    const payments: PaymentTransaction[] = [];
+
+    for (let offset = 0; offset < records.length; offset += LOOKUP_CHUNK_SIZE) {
+      const chunk = records.slice(offset, offset + LOOKUP_CHUNK_SIZE);
+      const collect = (field: 'merchantTxnRef' | 'transactionId' | 'receiptNo') =>
+        chunk.map((record) => record[field]).filter(Boolean) as string[];
+
+      payments.push(...await this.paymentModel.findAll({
+        where: {
+          [Op.or]: [
+            { merchantTxnRef: { [Op.in]: collect('merchantTxnRef') } },
+            { transactionId: { [Op.in]: collect('transactionId') } },
+            { receiptNo: { [Op.in]: collect('receiptNo') } },
+          ],
+        },
+      }));
+    }
+
+    return payments;
+  }
+
+  /**
+   * Finds settled local transactions in the reported batches (or processed
+   * on the settlement date) that the settlement file does not contain
+   */
+  private async findUnsettledPayments(
+    batchNumbers: string[],
+    matchedPaymentIds: Set<string>,
+    settlementDate?: string
+  ): Promise<PaymentTransaction[]> {
+    const scope: any[] = [];
+    if (batchNumbers.length > 0) {
+      scope.push({ batchNo: { [Op.in]: batchNumbers } });
+    }
+    if (settlementDate) {
+      const dayStart = new Date(`${settlementDate.slice(0, 10)}T00:00:00.000Z`);
+      const dayEnd = new Date(dayStart.getTime() + 24 * 60 * 60 * 1000);
+      scope.push({ processedAt: { [Op.gte]: dayStart, [Op.lt]: dayEnd } });
+    }
+    if (scope.length === 0) {
+      return [];
+    }
+
+    const candidates = await this.paymentModel.findAll({
+      where: {
+        status: { [Op.in]: SETTLED_STATUSES },
+        [Op.or]: scope,
+      },
+    });
+
+    return candidates.filter((payment) => !matchedPaymentIds.has(payment.dataValues.id));
+  }
+
+  /**
+   * Checks whether the settlement status agrees with the local status.
+   * Accepts MIGS response codes ("0" approved) and textual statuses.
+   */
+  private statusMatches(localStatus: TransactionStatus, gatewayStatus?: string): boolean {
+    if (!gatewayStatus) {
+      return true;
+    }
+
+    const normalised = gatewayStatus.trim().toLowerCase();
+
+    if (normalised === '0' || /approved|success|settled|captured/.test(normalised)) {
+      return SETTLED_STATUSES.includes(localStatus);
+    }
+    if (/declin|fail|reject|^[1-9a-z]$/.test(normalised)) {
+      return localStatus === TransactionStatus.FAILED;
+    }
+    if (/void|cancel|revers/.test(normalised)) {
+      return localStatus === TransactionStatus.CANCELLED;
+    }
+
+    return false;
+  }
+}
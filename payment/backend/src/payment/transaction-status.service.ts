@@ -0,0 +1,140 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { Transaction } from 'sequelize';
+
+import PaymentTransaction, { TransactionStatus } from './models/payment-transaction.model';
+import PaymentStatusHistory, { StatusChangeSource } from './models/payment-status-history.model';
+import { TransactionStateMachine } from './utils/transaction-state-machine.util';
+import { StatusTransitionContext } from './interfaces/payment.interface';
+import { MetricsService } from '../metrics/metrics.service';
+import { ApiError } from '../errors/api-error';
+import { ErrorCode } from '../errors/error-catalogue';
+
+/**
+ * TransactionStatusService
+ * 
+ * Single entry point for changing PaymentTransaction.status. Every move is
+ * validated against the transition table and written to payment_status_history.
+ */
+@Injectable()
+export class TransactionStatusService {
+  private readonly logger = new Logger(TransactionStatusService.name);
+
+  constructor(
+    @InjectModel(PaymentTransaction)
+    private readonly paymentModel: typeof PaymentTransaction,
+    @InjectModel(PaymentStatusHistory)
+    private readonly historyModel: typeof PaymentStatusHistory,
+    private readonly metricsService: MetricsService,
+  ) {}
+
+  /**
+   * Records the initial status of a newly created payment
+   * 
+   * @param payment - Newly created payment transaction
+   * @param source - Where the payment was created from
+   * @param transaction - Optional database transaction
+   */
+  async recordInitial(
+    payment: PaymentTransaction,
+    source: StatusChangeSource,
+    transaction?: Transaction,
+  ): Promise<void> {
+    await this.historyModel.create({
+      paymentId: payment.dataValues.id,
+      fromStatus: null,
+      toStatus: payment.dataValues.status,
+      source,
+    }, { transaction });
+
+    this.recordTransitionMetric(null, payment.dataValues.status, source, transaction);
+  }
+
+  /**
+   * Moves a payment to a new status, applying any accompanying field changes
+   * 
+   * @param payment - Payment transaction to update
+   * @param toStatus - Target status
+   * @param context - Source and reason of the change
+   * @param changes - Additional fields to update together with the status
+   * @param transaction - Optional database transaction
+   * @throws {ApiError} INVALID_PAYMENT_STATE if the move is not allowed
+   */
+  async transition(
+    payment: PaymentTransaction,
+    toStatus: TransactionStatus,
+    context: StatusTransitionContext,
+    changes: Record<string, any> = {},
+    transaction?: Transaction,
+  ): Promise<void> {
+    const fromStatus = payment.dataValues.status as TransactionStatus;
+
+    TransactionStateMachine.assertTransition(fromStatus, toStatus);
+
+    await payment.update({ ...changes, status: toStatus }, { transaction });
+
+    await this.historyModel.create({
+      paymentId: payment.dataValues.id,
+      fromStatus,
+      toStatus,
+      source: context.source,
+      reason: context.reason,
+      metadata: context.metadata,
+    }, { transaction });
+
+    this.recordTransitionMetric(fromStatus, toStatus, context.source, transaction);
+
+    this.logger.log('Payment status changed', {
+      paymentId: payment.dataValues.id,
+      fromStatus,
+      toStatus,
+      source: context.source,
+    });
+  }
+
+  /**
+   * Counts a status transition once it is persisted, so transitions rolled
+   * back with their transaction are not counted
+   * 
+   * @private
+   * @param fromStatus - Previous status, null for a new payment
+   * @param toStatus - New status
+   * @param source - Where the change came from
+   * @param transaction - Database transaction the change was written in, if any
+   */
+  private recordTransitionMetric(
+    fromStatus: string | null,
+    toStatus: string,
+    source: StatusChangeSource,
+    transaction?: Transaction,
+  ): void {
+    if (!transaction) {
+      this.metricsService.recordStatusTransition(fromStatus, toStatus, source);
+      return;
+    }
+
+    transaction.afterCommit(() => {
+      this.metricsService.recordStatusTransition(fromStatus, toStatus, source);
+    });
+  }
+
+  /**
+   * Lists the status history of a payment, oldest first
+   * 
+   * @param paymentId - Payment transaction ID
+   * @returns Promise resolving to history entries
+   * @throws {ApiError} PAYMENT_NOT_FOUND if payment is not found
+   */
+  async getHistory(paymentId: string): Promise<PaymentStatusHistory[]> {
+    const payment = await this.paymentModel.findByPk(paymentId, { attributes: ['id'] });
+
+    if (!payment) {
+      throw new ApiError(ErrorCode.PAYMENT_NOT_FOUND, { message: `Payment not found: ${paymentId}` });
+    }
+
+    return this.historyModel.findAll({
+      where: { paymentId },
+      order: [['createdAt', 'ASC']],
+    });
+  }
+}
@@ -1,8 +1,17 @@
 import { InjectQueue } from "@nestjs/bull";
-import { Injectable, Logger, OnModuleInit } from "@nestjs/common";
+import { Injectable, Logger, NotFoundException, OnModuleInit } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { InjectModel } from "@nestjs/sequelize";
+import { Op } from "sequelize";
 import { Cron } from "@nestjs/schedule";
 import { Queue } from "bull";
-import { PaymentApiResponse } from "./interfaces/payment.interface";
+import { ExpiryJobData, PaymentApiResponse } from "./interfaces/payment.interface";
+import PaymentTransaction from "./models/payment-transaction.model";
+import { MetricsService } from "../metrics/metrics.service";
+import { AuditService } from "../audit/audit.service";
+import { AuditOperation } from "../audit/models/audit-event.model";
+import { AuditContext } from "../audit/interfaces/audit.interface";
+import { RequestContext } from "../request-context/request-context";
 
 
 @Injectable()
@@ -10,8 +19,15 @@ export class UpdateQueueService implements OnModuleInit{
     private readonly logger = new Logger(UpdateQueueService.name);
 
     constructor(
+        private readonly configService: ConfigService,
+        @InjectModel(PaymentTransaction)
+        private readonly paymentModel: typeof PaymentTransaction,
         @InjectQueue('payment-status-sync')
-        private readonly paymentStatusQueue: Queue
+        private readonly paymentStatusQueue: Queue,
+        @InjectQueue('payment-expiry')
+        private readonly paymentExpiryQueue: Queue<ExpiryJobData>,
+        private readonly metricsService: MetricsService,
+        private readonly auditService: AuditService
     ){}
 
       /**
@@ -19,6 +35,9 @@ export class UpdateQueueService implements OnModuleInit{
        * Sets up recurring jobs for payment status synchronization
        */
       async onModuleInit(): Promise<void> {
+        this.metricsService.registerQueue(this.paymentStatusQueue);
+        this.metricsService.registerQueue(this.paymentExpiryQueue);
+
         try {
             this.paymentStatusQueue.on('error', (error) => {
             this.logger.error(`❌ Queue error: ${error.message}`, error.stack);
@@ -64,22 +83,72 @@ export class UpdateQueueService implements OnModuleInit{
           );
     
           this.logger.log('Payment status synchronization job scheduled successfully');
+
+          // Refunds whose gateway outcome is unknown are settled with queryDR
+          await this.paymentStatusQueue.add(
+            'resolve-pending-refunds',
+            {},
+            {
+              repeat: { cron: '*/5 * * * *' },
+              removeOnComplete: 10,
+              removeOnFail: 5,
+              jobId: 'resolve-pending-refunds-recurring',
+            }
+          );
+
+          this.logger.log('Pending refund resolution job scheduled successfully');
         } catch (error) {
           this.logger.error('Failed to initialize payment status sync jobs', {
             error: error.message,
             stack: error.stack,
           });
         }
+
+        await this.schedulePaymentExpiry();
       }
 
+      /**
+       * Schedules the recurring job that expires abandoned pending payments
+       * Repeat jobs left over from a previous cron setting are removed first
+       */
+      private async schedulePaymentExpiry(): Promise<void> {
+        try {
+          const cron = this.configService.get<string>('payments.expiryCheckCron') || '* * * * *';
+
+          const repeatableJobs = await this.paymentExpiryQueue.getRepeatableJobs();
+          await Promise.all(
+            repeatableJobs
+              .filter(job => job.cron !== cron)
+              .map(job => this.paymentExpiryQueue.removeRepeatableByKey(job.key))
+          );
+
+          await this.paymentExpiryQueue.add(
+            'expire-pending-payments',
+            { triggeredBy: 'scheduled' },
+            {
+              repeat: { cron },
+              jobId: 'expire-pending-payments-recurring',
+            }
+          );
+
+          this.logger.log('Pending payment expiry job scheduled successfully', { cron });
+        } catch (error) {
+          this.logger.error('Failed to schedule pending payment expiry job', {
+            error: error.message,
+            stack: error.stack,
+          });
+        }
+      }
 
-      async triggerStatusSync(): Promise<PaymentApiResponse<any>> {
+
+      async triggerStatusSync(audit: AuditContext): Promise<PaymentApiResponse<any>> {
           try {
             const job = await this.paymentStatusQueue.add(
               'sync-pending-payments',
               { 
                 triggeredBy: 'manual',
                 timestamp: new Date().toISOString(),
+                requestId: RequestContext.getRequestId(),
               },
               {
                 priority: 1, // High priority for manual triggers
@@ -92,6 +161,13 @@ export class UpdateQueueService implements OnModuleInit{
               jobId: job.id,
               triggeredAt: new Date().toISOString(),
             });
+
+            await this.auditService.record(audit, {
+              operation: AuditOperation.SYNC_TRIGGER,
+              targetType: 'queue',
+              targetId: this.paymentStatusQueue.name,
+              metadata: { jobId: job.id },
+            });
       
             return {
               success: true,
@@ -158,12 +234,13 @@ export class UpdateQueueService implements OnModuleInit{
 
         async getQueueStatus(): Promise<PaymentApiResponse<any>> {
         try {
-        const [waiting, active, completed, failed, delayed] = await Promise.all([
+        const [waiting, active, completed, failed, delayed, deadLettered] = await Promise.all([
             this.paymentStatusQueue.getWaiting(),
             this.paymentStatusQueue.getActive(),
             this.paymentStatusQueue.getCompleted(),
             this.paymentStatusQueue.getFailed(),
             this.paymentStatusQueue.getDelayed(),
+            this.paymentModel.count({ where: { syncDeadLetteredAt: { [Op.ne]: null } } }),
         ]);
 
         const queueStatus = {
@@ -173,6 +250,7 @@ export class UpdateQueueService implements OnModuleInit{
             completed: completed.length,
             failed: failed.length,
             delayed: delayed.length,
+            deadLettered,
             paused: await this.paymentStatusQueue.isPaused(),
             lastJobTimestamp: active.length > 0 ? active[0].timestamp : null,
         };
@@ -192,4 +270,72 @@ export class UpdateQueueService implements OnModuleInit{
         }
     }
 
+    /**
+     * Lists transactions whose status sync was given up on, most recent first
+     * 
+     * @param limit - Maximum number of transactions to return
+     * @returns Promise resolving to dead-lettered transactions
+     */
+    async listDeadLetters(limit = 50): Promise<PaymentTransaction[]> {
+        return this.paymentModel.findAll({
+            where: { syncDeadLetteredAt: { [Op.ne]: null } },
+            order: [['syncDeadLetteredAt', 'DESC']],
+            limit,
+        });
+    }
+
+    /**
+     * Puts a dead-lettered transaction back into the status sync with a
+     * fresh attempt counter; it is picked up by the next sync run
+     * 
+     * @param paymentId - Payment transaction ID
+     * @param audit - Actor of the requeue, for the audit trail
+     * @returns Promise resolving to the requeued transaction
+     * @throws {NotFoundException} If the transaction is not dead-lettered
+     */
+    async requeueDeadLetter(paymentId: string, audit: AuditContext): Promise<PaymentTransaction> {
+        const transaction = await this.paymentModel.findOne({
+            where: { id: paymentId, syncDeadLetteredAt: { [Op.ne]: null } },
+        });
+
+        if (!transaction) {
+            throw new NotFoundException('Dead-lettered transaction not found');
+        }
+
+        const before = this.snapshotSyncState(transaction);
+
+        await transaction.update({
+            syncAttempts: 0,
+            nextSyncAt: new Date(),
+            lastSyncError: null,
+            syncDeadLetteredAt: null,
+        });
+
+        await this.auditService.record(audit, {
+            operation: AuditOperation.SYNC_REQUEUE,
+            paymentId,
+            before,
+            after: this.snapshotSyncState(transaction),
+        });
+
+        this.logger.log('Dead-lettered transaction requeued for status sync', {
+            paymentId,
+            merchantTxnRef: transaction.dataValues.merchantTxnRef,
+        });
+
+        return transaction;
+    }
+
+    private snapshotSyncState(transaction: PaymentTransaction): Record<string, any> {
+        const { dataValues } = transaction;
+
+        return {
+            status: dataValues.status,
+            syncAttempts: dataValues.syncAttempts,
+            nextSyncAt: dataValues.nextSyncAt,
+            lastSyncError: dataValues.lastSyncError,
+            syncDeadLetteredAt: dataValues.syncDeadLetteredAt,
+        };
+    }
+
 }
\ No newline at end of file
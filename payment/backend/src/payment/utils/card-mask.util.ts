@@ -0,0 +1,42 @@
+const CARD_FIELD_PATTERN = /card|pan|cvv|cvc|cvn|expiry|exp$|cardexp/i;
+
+export class CardMaskUtil {
+  /**
+   * Mask a primary account number, keeping only the last four digits.
+   * Numbers the gateway already masked (512345xxxxxx0008) keep their length.
+   */
+  public static maskPan(pan: string | number | null | undefined): string {
+    if (pan === null || pan === undefined) {
+      return '';
+    }
+
+    const compact = String(pan).replace(/[\s-]/g, '');
+    const lastFour = compact.slice(-4);
+    if (compact.length <= 4 || !/^\d{4}$/.test(lastFour)) {
+      return '*'.repeat(compact.length);
+    }
+
+    return `${'*'.repeat(compact.length - 4)}${lastFour}`;
+  }
+
+  /**
+   * Return a copy of a gateway response with every card-related field masked.
+   * vpc_Card (the card brand) is kept as-is.
+   */
+  public static maskGatewayResponse(response: Record<string, any> | null | undefined): Record<string, any> {
+    if (!response) {
+      return {};
+    }
+
+    return Object.entries(response).reduce<Record<string, any>>((masked, [key, value]) => {
+      if (key === 'vpc_Card' || !CARD_FIELD_PATTERN.test(key)) {
+        masked[key] = value;
+      } else if (/num|pan/i.test(key)) {
+        masked[key] = this.maskPan(value);
+      } else {
+        masked[key] = '****';
+      }
+      return masked;
+    }, {});
+  }
+}
@@ -0,0 +1,61 @@
+import { CircuitBreaker, CircuitState } from './circuit-breaker.util';
+
+describe('CircuitBreaker', () => {
+  let now: number;
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    now = 0;
+    breaker = new CircuitBreaker({ failureThreshold: 3, resetMs: 1000 }, () => now);
+  });
+
+  const fail = (times: number) => {
+    for (let i = 0; i < times; i++) {
+      breaker.tryAcquire();
+      breaker.recordFailure();
+    }
+  };
+
+  it('opens after the configured number of consecutive failures', () => {
+    fail(2);
+    expect(breaker.tryAcquire()).toBe(true);
+
+    breaker.recordFailure();
+
+    expect(breaker.snapshot().state).toBe(CircuitState.OPEN);
+    expect(breaker.tryAcquire()).toBe(false);
+    expect(breaker.retryAfterMs()).toBe(1000);
+  });
+
+  it('resets the failure count on success', () => {
+    fail(2);
+    breaker.recordSuccess();
+    fail(2);
+
+    expect(breaker.snapshot()).toMatchObject({ state: CircuitState.CLOSED, consecutiveFailures: 2 });
+  });
+
+  it('lets a single trial request through once the reset time has passed', () => {
+    fail(3);
+    now = 1000;
+
+    expect(breaker.snapshot().state).toBe(CircuitState.HALF_OPEN);
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.tryAcquire()).toBe(false);
+
+    breaker.recordSuccess();
+
+    expect(breaker.snapshot().state).toBe(CircuitState.CLOSED);
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+
+  it('opens again when the trial request fails', () => {
+    fail(3);
+    now = 1500;
+    breaker.tryAcquire();
+    breaker.recordFailure();
+
+    expect(breaker.snapshot()).toMatchObject({ state: CircuitState.OPEN, retryAt: new Date(2500) });
+    expect(breaker.tryAcquire()).toBe(false);
+  });
+});
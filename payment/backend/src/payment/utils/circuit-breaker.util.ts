@@ -0,0 +1,103 @@
+export enum CircuitState {
+  CLOSED = 'closed',
+  OPEN = 'open',
+  HALF_OPEN = 'half_open',
+}
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit */
+  failureThreshold: number;
+  /** How long the circuit stays open before a trial request is let through */
+  resetMs: number;
+}
+
+export interface CircuitBreakerSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: Date;
+  retryAt?: Date;
+}
+
+/**
+ * CircuitBreaker
+ * 
+ * Counts consecutive failures of a remote dependency. Once failureThreshold
+ * is reached the circuit opens and requests fail fast for resetMs; after
+ * that a single trial request is allowed (half-open), which closes the
+ * circuit on success or opens it again on failure.
+ */
+export class CircuitBreaker {
+  private state = CircuitState.CLOSED;
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(
+    private readonly options: CircuitBreakerOptions,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  /**
+   * Whether a request may be sent now. In the half-open state only the
+   * first caller gets true until its outcome is recorded.
+   */
+  tryAcquire(): boolean {
+    this.halfOpenIfDue();
+
+    if (this.state === CircuitState.CLOSED) {
+      return true;
+    }
+
+    if (this.state === CircuitState.HALF_OPEN && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+
+    return false;
+  }
+
+  recordSuccess(): void {
+    this.state = CircuitState.CLOSED;
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+
+    if (this.state === CircuitState.HALF_OPEN || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.state = CircuitState.OPEN;
+      this.openedAt = this.now();
+    }
+  }
+
+  /**
+   * Milliseconds until an open circuit lets a trial request through
+   */
+  retryAfterMs(): number {
+    if (this.state !== CircuitState.OPEN) {
+      return 0;
+    }
+    return Math.max(0, this.openedAt! + this.options.resetMs - this.now());
+  }
+
+  snapshot(): CircuitBreakerSnapshot {
+    this.halfOpenIfDue();
+
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt !== null ? new Date(this.openedAt) : undefined,
+      retryAt: this.openedAt !== null ? new Date(this.openedAt + this.options.resetMs) : undefined,
+    };
+  }
+
+  private halfOpenIfDue(): void {
+    if (this.state === CircuitState.OPEN && this.now() - this.openedAt! >= this.options.resetMs) {
+      this.state = CircuitState.HALF_OPEN;
+      this.trialInFlight = false;
+    }
+  }
+}
@@ -66,10 +66,23 @@ export class MigsHashUtil {
   ): boolean {
     const providedHash = parameters.vpc_SecureHash;
     if (!providedHash){
-      console.log(`Not Provided hash Value!!`)
       return false;
     }
     const calculatedHash = this.generateSecureHash(parameters, vpcSecureSecret, hashType);
     return calculatedHash === providedHash;
   }
+
+  /**
+   * Verify secure hash against several secrets - used while a rotated
+   * secret's previous value is still accepted
+   */
+  public static verifySecureHashWithAny(
+    parameters: Record<string, string | null>,
+    vpcSecureSecrets: (string | undefined)[],
+    hashType: VpcSecureHashType = VpcSecureHashType.SHA256
+  ): boolean {
+    return vpcSecureSecrets
+      .filter((secret): secret is string => !!secret)
+      .some((secret) => this.verifySecureHash(parameters, secret, hashType));
+  }
 }
\ No newline at end of file
@@ -0,0 +1,181 @@
+import { CaptureMode, TransactionStatus } from '../models/payment-transaction.model';
+import { GatewayResultData } from '../interfaces/payment.interface';
+
+export enum ResponseCodeCategory {
+  APPROVED = 'approved',
+  PENDING = 'pending',
+  DECLINE = 'decline',
+  FRAUD = 'fraud',
+  SYSTEM = 'system',
+}
+
+export interface ResponseCodeEntry {
+  /**
+   * Local status for the code. SUCCESS stands for "approved" and becomes
+   * AUTHORIZED for manual capture payments; PENDING leaves the payment for
+   * the status sync to resolve.
+   */
+  status: TransactionStatus;
+  category: ResponseCodeCategory;
+  message: string;
+  retryable: boolean;
+}
+
+const entry = (
+  status: TransactionStatus,
+  category: ResponseCodeCategory,
+  message: string,
+  retryable = false,
+): ResponseCodeEntry => ({ status, category, message, retryable });
+
+const { SUCCESS, FAILED, PENDING } = TransactionStatus;
+const { APPROVED, DECLINE, FRAUD, SYSTEM } = ResponseCodeCategory;
+
+const UNKNOWN_RESPONSE = entry(PENDING, ResponseCodeCategory.PENDING, 'Your payment is being confirmed with your bank.');
+
+/**
+ * vpc_TxnResponseCode values. Letters MIGS does not assign are listed
+ * explicitly so that every 0-9 / A-Z code resolves to a known entry.
+ */
+export const MIGS_TXN_RESPONSE_CODES: Readonly<Record<string, ResponseCodeEntry>> = {
+  '0': entry(SUCCESS, APPROVED, 'Your payment was approved.'),
+  '1': entry(FAILED, SYSTEM, 'Your payment could not be processed. Please try again.', true),
+  '2': entry(FAILED, DECLINE, 'Your card was declined by your bank.'),
+  '3': entry(FAILED, SYSTEM, 'Your bank did not respond. Please try again.', true),
+  '4': entry(FAILED, DECLINE, 'Your card has expired.'),
+  '5': entry(FAILED, DECLINE, 'Your card has insufficient funds.'),
+  '6': entry(FAILED, SYSTEM, 'Your bank is currently unavailable. Please try again.', true),
+  '7': entry(FAILED, SYSTEM, 'The payment service encountered an error. Please try again.', true),
+  '8': entry(FAILED, DECLINE, 'Your card does not support this type of transaction.'),
+  '9': entry(FAILED, DECLINE, 'Your card was declined. Please use a different card.'),
+  'A': entry(FAILED, DECLINE, 'The payment was cancelled before it completed.', true),
+  'B': entry(FAILED, FRAUD, 'The payment was blocked by our risk checks.'),
+  'C': entry(FAILED, DECLINE, 'The payment was cancelled.', true),
+  'D': entry(PENDING, ResponseCodeCategory.PENDING, 'Your payment has been received and is awaiting processing.'),
+  'E': entry(FAILED, DECLINE, 'Your card was declined. Please contact your bank.'),
+  'F': entry(FAILED, FRAUD, '3-D Secure authentication failed.', true),
+  'G': UNKNOWN_RESPONSE,
+  'H': UNKNOWN_RESPONSE,
+  'I': entry(FAILED, FRAUD, 'The card security code could not be verified.', true),
+  'J': UNKNOWN_RESPONSE,
+  'K': UNKNOWN_RESPONSE,
+  'L': entry(FAILED, SYSTEM, 'The payment is temporarily locked. Please try again later.', true),
+  'M': entry(PENDING, ResponseCodeCategory.PENDING, 'Your payment has been submitted and is awaiting confirmation.'),
+  'N': entry(FAILED, FRAUD, 'Your card is not enrolled for 3-D Secure.'),
+  'O': UNKNOWN_RESPONSE,
+  'P': entry(PENDING, ResponseCodeCategory.PENDING, 'Your payment is being processed.'),
+  'Q': UNKNOWN_RESPONSE,
+  'R': entry(FAILED, SYSTEM, 'The payment could not be completed after several attempts.'),
+  'S': entry(FAILED, SYSTEM, 'The payment session was already used. Please start again.', true),
+  'T': entry(FAILED, FRAUD, 'The billing address could not be verified.', true),
+  'U': entry(FAILED, FRAUD, 'The card security code could not be verified.', true),
+  'V': entry(FAILED, FRAUD, 'The billing address and card security code could not be verified.', true),
+  'W': UNKNOWN_RESPONSE,
+  'X': UNKNOWN_RESPONSE,
+  'Y': UNKNOWN_RESPONSE,
+  'Z': UNKNOWN_RESPONSE,
+  '?': UNKNOWN_RESPONSE,
+};
+
+/**
+ * vpc_AcqResponseCode values (ISO 8583 issuer responses). These refine the
+ * category and message of a declined transaction; the local status always
+ * follows vpc_TxnResponseCode.
+ */
+export const MIGS_ACQ_RESPONSE_CODES: Readonly<Record<string, ResponseCodeEntry>> = {
+  '00': entry(SUCCESS, APPROVED, 'Your payment was approved.'),
+  '01': entry(FAILED, DECLINE, 'Your card was declined. Please contact your bank.'),
+  '02': entry(FAILED, DECLINE, 'Your card was declined. Please contact your bank.'),
+  '03': entry(FAILED, SYSTEM, 'The payment could not be processed for this merchant.'),
+  '04': entry(FAILED, FRAUD, 'Your card was declined. Please contact your bank.'),
+  '05': entry(FAILED, DECLINE, 'Your card was declined by your bank.'),
+  '07': entry(FAILED, FRAUD, 'Your card was declined. Please contact your bank.'),
+  '12': entry(FAILED, DECLINE, 'Your card does not support this type of transaction.'),
+  '13': entry(FAILED, DECLINE, 'The payment amount was rejected by your bank.'),
+  '14': entry(FAILED, DECLINE, 'The card number is invalid.'),
+  '19': entry(FAILED, SYSTEM, 'The payment could not be processed. Please try again.', true),
+  '30': entry(FAILED, SYSTEM, 'The payment could not be processed. Please try again.', true),
+  '33': entry(FAILED, DECLINE, 'Your card has expired.'),
+  '34': entry(FAILED, FRAUD, 'Your card was declined. Please contact your bank.'),
+  '41': entry(FAILED, FRAUD, 'Your card was declined. Please contact your bank.'),
+  '43': entry(FAILED, FRAUD, 'Your card was declined. Please contact your bank.'),
+  '51': entry(FAILED, DECLINE, 'Your card has insufficient funds.'),
+  '54': entry(FAILED, DECLINE, 'Your card has expired.'),
+  '55': entry(FAILED, DECLINE, 'The card PIN is incorrect.'),
+  '57': entry(FAILED, DECLINE, 'Your card does not support this type of transaction.'),
+  '58': entry(FAILED, DECLINE, 'Your card does not support this type of transaction.'),
+  '59': entry(FAILED, FRAUD, 'Your card was declined. Please contact your bank.'),
+  '61': entry(FAILED, DECLINE, 'The payment exceeds your card limit.'),
+  '62': entry(FAILED, DECLINE, 'Your card is restricted. Please contact your bank.'),
+  '63': entry(FAILED, FRAUD, 'Your card was declined. Please contact your bank.'),
+  '65': entry(FAILED, DECLINE, 'Your card has exceeded its transaction limit.'),
+  '68': entry(FAILED, SYSTEM, 'Your bank did not respond in time. Please try again.', true),
+  '91': entry(FAILED, SYSTEM, 'Your bank is currently unavailable. Please try again.', true),
+  '92': entry(FAILED, SYSTEM, 'Your bank could not be reached. Please try again.', true),
+  '94': entry(FAILED, SYSTEM, 'The payment was detected as a duplicate.'),
+  '96': entry(FAILED, SYSTEM, 'Your bank encountered an error. Please try again.', true),
+};
+
+export class MigsResponseCodeUtil {
+  /**
+   * Describe a gateway result. The transaction response code decides the
+   * status; a known acquirer code refines category, message and retryable
+   * for non-approved results, which is how "card declined" (05) is told
+   * apart from "bank unavailable" (91) when both arrive as code 2 or 6.
+   */
+  public static describe(
+    txnResponseCode: string | number | null | undefined,
+    acqResponseCode?: string | number | null
+  ): GatewayResultData {
+    const code = txnResponseCode != null ? String(txnResponseCode).trim().toUpperCase() : '';
+    const acquirerCode = acqResponseCode != null && String(acqResponseCode).trim() !== ''
+      ? String(acqResponseCode).trim()
+      : undefined;
+
+    const txnEntry = MIGS_TXN_RESPONSE_CODES[code] ?? UNKNOWN_RESPONSE;
+    const acqEntry = acquirerCode && txnEntry.status === FAILED
+      ? MIGS_ACQ_RESPONSE_CODES[acquirerCode]
+      : undefined;
+    const detail = acqEntry && acqEntry.status === FAILED ? acqEntry : txnEntry;
+
+    return {
+      code,
+      acquirerCode,
+      status: txnEntry.status,
+      category: detail.category,
+      message: detail.message,
+      retryable: detail.retryable,
+    };
+  }
+
+  /**
+   * Local status for a result, taking the payment's capture mode into
+   * account. Returns null while the result is still pending at the gateway.
+   */
+  public static resolveStatus(result: GatewayResultData, captureMode?: CaptureMode): TransactionStatus | null {
+    switch (result.status) {
+      case SUCCESS:
+        return captureMode === CaptureMode.MANUAL
+          ? TransactionStatus.AUTHORIZED
+          : TransactionStatus.SUCCESS;
+      case FAILED:
+        return TransactionStatus.FAILED;
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Describe the result stored on a transaction, if it has one
+   */
+  public static describeStored(
+    responseCode: string | null | undefined,
+    gatewayResponse?: Record<string, any> | null
+  ): GatewayResultData | undefined {
+    if (!responseCode) {
+      return undefined;
+    }
+
+    return this.describe(responseCode, gatewayResponse?.vpc_AcqResponseCode);
+  }
+}
@@ -0,0 +1,43 @@
+import { ApiError } from '../../errors/api-error';
+import { Money } from './money.util';
+
+describe('Money', () => {
+  it('uses the ISO 4217 exponent of each currency', () => {
+    expect(Money.exponent('AED')).toBe(2);
+    expect(Money.exponent('KWD')).toBe(3);
+    expect(Money.exponent('JPY')).toBe(0);
+    expect(() => Money.exponent('aed')).toThrow(ApiError);
+  });
+
+  it('parses decimal amounts exactly', () => {
+    expect(Money.fromDecimal(19.99, 'AED').minorUnits).toBe(1999);
+    expect(Money.fromDecimal('0.29', 'AED').minorUnits).toBe(29);
+    expect(Money.fromDecimal('1.005', 'KWD').minorUnits).toBe(1005);
+    expect(Money.fromDecimal('100.00', 'JPY').minorUnits).toBe(100);
+  });
+
+  it('rejects more decimals than the currency has instead of rounding', () => {
+    expect(() => Money.fromDecimal(10.555, 'AED')).toThrow('AED amounts have at most 2 decimal places');
+    expect(() => Money.fromDecimal('1.5', 'JPY')).toThrow(ApiError);
+    expect(() => Money.fromDecimal('abc', 'AED')).toThrow('Invalid amount');
+  });
+
+  it('adds, subtracts and compares in minor units', () => {
+    const paid = Money.fromDecimal('0.30', 'AED');
+    const refunded = Money.fromDecimal('0.10', 'AED').add(Money.fromDecimal('0.20', 'AED'));
+
+    expect(refunded.equals(paid)).toBe(true);
+    expect(paid.subtract(refunded).isPositive()).toBe(false);
+    expect(Money.fromDecimal(5, 'AED').greaterThan(Money.fromDecimal('4.99', 'AED'))).toBe(true);
+    expect(() => paid.add(Money.zero('KWD'))).toThrow('Currency mismatch');
+  });
+
+  it('converts to vpc_Amount and decimal forms', () => {
+    const amount = Money.fromDecimal('10.5', 'KWD');
+
+    expect(amount.toVpcAmount()).toBe('10500');
+    expect(amount.toDecimalString()).toBe('10.500');
+    expect(Money.fromVpcAmount('4000', 'AED').toNumber()).toBe(40);
+    expect(Money.fromMinorUnits(5, 'AED').toString()).toBe('AED 0.05');
+  });
+});
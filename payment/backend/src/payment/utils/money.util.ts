@@ -0,0 +1,182 @@
+import { ApiError } from '../../errors/api-error';
+import { ErrorCode } from '../../errors/error-catalogue';
+
+/**
+ * ISO 4217 minor-unit exponents that differ from the usual 2. Funds codes
+ * and units of account with four decimals are not accepted for payments.
+ */
+const CURRENCY_EXPONENTS: Readonly<Record<string, number>> = {
+  BIF: 0, CLP: 0, DJF: 0, GNF: 0, ISK: 0, JPY: 0, KMF: 0, KRW: 0, PYG: 0,
+  RWF: 0, UGX: 0, UYI: 0, VND: 0, VUV: 0, XAF: 0, XOF: 0, XPF: 0,
+  BHD: 3, IQD: 3, JOD: 3, KWD: 3, LYD: 3, OMR: 3, TND: 3,
+};
+
+/** Largest exponent in CURRENCY_EXPONENTS */
+export const MAX_CURRENCY_EXPONENT = 3;
+
+const DECIMAL_AMOUNT = /^(-)?(\d+)(?:\.(\d+))?$/;
+
+/**
+ * Money
+ * 
+ * An amount as an integer number of minor units plus its ISO 4217 currency,
+ * so that arithmetic and comparisons are exact. Decimal amounts (as stored
+ * in the database and sent by API clients) are parsed from their string
+ * form, never multiplied as floats.
+ */
+export class Money {
+  private constructor(
+    readonly minorUnits: number,
+    readonly currency: string,
+  ) {}
+
+  /**
+   * Number of decimal places of a currency
+   * 
+   * @param currency - ISO 4217 alphabetic code
+   * @throws {ApiError} INVALID_AMOUNT if the code is malformed
+   */
+  static exponent(currency: string): number {
+    if (!/^[A-Z]{3}$/.test(currency)) {
+      throw new ApiError(ErrorCode.INVALID_AMOUNT, { message: `Invalid currency code: ${currency}` });
+    }
+    return CURRENCY_EXPONENTS[currency] ?? 2;
+  }
+
+  /**
+   * Significant decimal places of a decimal amount, ignoring trailing zeros;
+   * null when the value is not a plain decimal number
+   */
+  static decimalPlaces(amount: number | string): number | null {
+    const match = DECIMAL_AMOUNT.exec(String(amount).trim());
+    return match ? (match[3] ?? '').replace(/0+$/, '').length : null;
+  }
+
+  /**
+   * Creates an amount from minor units, e.g. 1050 for AED 10.50
+   * 
+   * @throws {ApiError} INVALID_AMOUNT if minorUnits is not a safe integer
+   */
+  static fromMinorUnits(minorUnits: number | string, currency: string): Money {
+    const value = typeof minorUnits === 'string' && /^-?\d+$/.test(minorUnits.trim())
+      ? Number(minorUnits.trim())
+      : minorUnits;
+
+    if (typeof value !== 'number' || !Number.isSafeInteger(value)) {
+      throw new ApiError(ErrorCode.INVALID_AMOUNT, { message: `Invalid minor-unit amount: ${minorUnits}` });
+    }
+
+    Money.exponent(currency);
+    return new Money(value, currency);
+  }
+
+  /**
+   * Creates an amount from its decimal form, e.g. "10.50" or 10.5 for AED.
+   * Trailing zeros beyond the currency's exponent are accepted ("100.00"
+   * JPY); any other extra precision is rejected rather than rounded.
+   * 
+   * @throws {ApiError} INVALID_AMOUNT if the amount has more decimals than the currency allows
+   */
+  static fromDecimal(amount: number | string, currency: string): Money {
+    const exponent = Money.exponent(currency);
+    const match = DECIMAL_AMOUNT.exec(String(amount).trim());
+
+    if (!match) {
+      throw new ApiError(ErrorCode.INVALID_AMOUNT, { message: `Invalid amount: ${amount}` });
+    }
+
+    const [, sign, whole, fraction = ''] = match;
+    const significantFraction = fraction.replace(/0+$/, '');
+
+    if (significantFraction.length > exponent) {
+      throw new ApiError(ErrorCode.INVALID_AMOUNT, {
+        message: `${currency} amounts have at most ${exponent} decimal places: ${amount}`,
+      });
+    }
+
+    const minorUnits = Number(`${whole}${significantFraction.padEnd(exponent, '0')}`);
+    if (!Number.isSafeInteger(minorUnits)) {
+      throw new ApiError(ErrorCode.INVALID_AMOUNT, { message: `Amount out of range: ${amount}` });
+    }
+
+    return new Money(sign && minorUnits !== 0 ? -minorUnits : minorUnits, currency);
+  }
+
+  /**
+   * Reads vpc_Amount, which MIGS expresses in minor units
+   */
+  static fromVpcAmount(vpcAmount: string, currency: string): Money {
+    return Money.fromMinorUnits(vpcAmount, currency);
+  }
+
+  static zero(currency: string): Money {
+    return Money.fromMinorUnits(0, currency);
+  }
+
+  add(other: Money): Money {
+    this.assertSameCurrency(other);
+    return Money.fromMinorUnits(this.minorUnits + other.minorUnits, this.currency);
+  }
+
+  subtract(other: Money): Money {
+    this.assertSameCurrency(other);
+    return Money.fromMinorUnits(this.minorUnits - other.minorUnits, this.currency);
+  }
+
+  /**
+   * Negative, zero or positive as this amount is less than, equal to or
+   * greater than the other
+   */
+  compare(other: Money): number {
+    this.assertSameCurrency(other);
+    return Math.sign(this.minorUnits - other.minorUnits);
+  }
+
+  equals(other: Money): boolean {
+    return this.currency === other.currency && this.minorUnits === other.minorUnits;
+  }
+
+  greaterThan(other: Money): boolean {
+    return this.compare(other) > 0;
+  }
+
+  isPositive(): boolean {
+    return this.minorUnits > 0;
+  }
+
+  /**
+   * vpc_Amount value: the amount in minor units, without separators
+   */
+  toVpcAmount(): string {
+    return String(this.minorUnits);
+  }
+
+  /**
+   * Decimal string with exactly the currency's number of decimals, e.g. "10.500" for KWD
+   */
+  toDecimalString(): string {
+    const exponent = Money.exponent(this.currency);
+    const digits = String(Math.abs(this.minorUnits)).padStart(exponent + 1, '0');
+    const whole = digits.slice(0, digits.length - exponent);
+    const fraction = digits.slice(digits.length - exponent);
+
+    return `${this.minorUnits < 0 ? '-' : ''}${whole}${exponent > 0 ? `.${fraction}` : ''}`;
+  }
+
+  /**
+   * Decimal number for JSON responses and DECIMAL columns
+   */
+  toNumber(): number {
+    return Number(this.toDecimalString());
+  }
+
+  toString(): string {
+    return `${this.currency} ${this.toDecimalString()}`;
+  }
+
+  private assertSameCurrency(other: Money): void {
+    if (other.currency !== this.currency) {
+      throw new Error(`Currency mismatch: ${this.currency} and ${other.currency}`);
+    }
+  }
+}
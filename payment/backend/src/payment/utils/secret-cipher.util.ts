@@ -0,0 +1,63 @@
+import * as crypto from 'crypto';
+
+const ENCRYPTED_PREFIX = 'enc:v1:';
+const IV_LENGTH = 12;
+
+export class SecretCipherUtil {
+  /**
+   * Parse the encryption key from env - 64 hex characters or base64 of 32 bytes
+   */
+  public static parseKey(rawKey: string): Buffer {
+    const key = /^[0-9A-Fa-f]{64}$/.test(rawKey)
+      ? Buffer.from(rawKey, 'hex')
+      : Buffer.from(rawKey, 'base64');
+
+    if (key.length !== 32) {
+      throw new Error('Secret encryption key must be 32 bytes (64 hex characters or base64)');
+    }
+
+    return key;
+  }
+
+  /**
+   * Encrypt a secret with AES-256-GCM - "enc:v1:<iv>:<tag>:<ciphertext>" in base64
+   */
+  public static encrypt(plainText: string, key: Buffer): string {
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    const cipherText = Buffer.concat([cipher.update(plainText, 'utf8'), cipher.final()]);
+    const tag = cipher.getAuthTag();
+
+    return `${ENCRYPTED_PREFIX}${[iv, tag, cipherText].map((part) => part.toString('base64')).join(':')}`;
+  }
+
+  /**
+   * Decrypt a value produced by encrypt()
+   */
+  public static decrypt(payload: string, key: Buffer): string {
+    if (!this.isEncrypted(payload)) {
+      throw new Error('Value is not an encrypted secret');
+    }
+
+    const [iv, tag, cipherText] = payload
+      .substring(ENCRYPTED_PREFIX.length)
+      .split(':')
+      .map((part) => Buffer.from(part, 'base64'));
+
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+    decipher.setAuthTag(tag);
+
+    return Buffer.concat([decipher.update(cipherText), decipher.final()]).toString('utf8');
+  }
+
+  public static isEncrypted(value: string | null | undefined): boolean {
+    return !!value && value.startsWith(ENCRYPTED_PREFIX);
+  }
+
+  /**
+   * Short non-reversible identifier of a secret, safe for logs and audit entries
+   */
+  public static fingerprint(secret: string): string {
+    return crypto.createHash('sha256').update(secret, 'utf8').digest('hex').substring(0, 12);
+  }
+}
@@ -0,0 +1,65 @@
+import { ApiError } from '../../errors/api-error';
+import { ErrorCode } from '../../errors/error-catalogue';
+import { TransactionStatus } from '../models/payment-transaction.model';
+
+/**
+ * Allowed TransactionStatus moves. Terminal states map to an empty list.
+ * PARTIALLY_REFUNDED may move to itself so that several partial refunds
+ * can be issued against one payment. EXPIRED still accepts a late approval
+ * so that money taken by the bank after expiry is not lost.
+ */
+export const TRANSACTION_TRANSITIONS: Readonly<Record<TransactionStatus, readonly TransactionStatus[]>> = {
+  [TransactionStatus.PENDING]: [
+    TransactionStatus.AUTHORIZED,
+    TransactionStatus.SUCCESS,
+    TransactionStatus.FAILED,
+    TransactionStatus.CANCELLED,
+    TransactionStatus.EXPIRED,
+  ],
+  [TransactionStatus.AUTHORIZED]: [
+    TransactionStatus.SUCCESS,
+    TransactionStatus.CANCELLED,
+  ],
+  [TransactionStatus.SUCCESS]: [
+    TransactionStatus.PARTIALLY_REFUNDED,
+    TransactionStatus.REFUNDED,
+  ],
+  [TransactionStatus.PARTIALLY_REFUNDED]: [
+    TransactionStatus.PARTIALLY_REFUNDED,
+    TransactionStatus.REFUNDED,
+  ],
+  [TransactionStatus.FAILED]: [],
+  [TransactionStatus.CANCELLED]: [],
+  [TransactionStatus.REFUNDED]: [],
+  [TransactionStatus.EXPIRED]: [
+    TransactionStatus.AUTHORIZED,
+    TransactionStatus.SUCCESS,
+  ],
+};
+
+export class TransactionStateMachine {
+  /**
+   * Check whether a status move is allowed
+   */
+  public static canTransition(from: TransactionStatus, to: TransactionStatus): boolean {
+    return (TRANSACTION_TRANSITIONS[from] ?? []).includes(to);
+  }
+
+  /**
+   * Throw if a status move is not allowed
+   */
+  public static assertTransition(from: TransactionStatus, to: TransactionStatus): void {
+    if (!this.canTransition(from, to)) {
+      throw new ApiError(ErrorCode.INVALID_PAYMENT_STATE, {
+        message: `Illegal payment status transition: ${from} -> ${to}`,
+      });
+    }
+  }
+
+  /**
+   * Check whether a status accepts no further moves
+   */
+  public static isTerminal(status: TransactionStatus): boolean {
+    return (TRANSACTION_TRANSITIONS[status] ?? []).length === 0;
+  }
+}
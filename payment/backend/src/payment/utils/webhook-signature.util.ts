@@ -0,0 +1,20 @@
+import * as crypto from 'crypto';
+
+export class WebhookSignatureUtil {
+  /**
+   * Sign a webhook body - HMAC-SHA256 over "<timestamp>.<body>"
+   */
+  public static sign(body: string, secret: string, timestamp: string): string {
+    return crypto
+      .createHmac('sha256', secret)
+      .update(`${timestamp}.${body}`, 'utf8')
+      .digest('hex');
+  }
+
+  /**
+   * Build the X-Webhook-Signature header value
+   */
+  public static buildHeader(body: string, secret: string, timestamp: string): string {
+    return `t=${timestamp},v1=${this.sign(body, secret, timestamp)}`;
+  }
+}
@@ -0,0 +1,40 @@
+import { ValidateBy, ValidationArguments, ValidationOptions } from 'class-validator';
+import { MAX_CURRENCY_EXPONENT, Money } from '../utils/money.util';
+
+/**
+ * Checks that a decimal amount has no more decimal places than its currency
+ * allows (AED 2, KWD 3, JPY 0). Without a currency property, or while the
+ * currency is not yet known, any currency's precision is accepted and
+ * PaymentService checks the amount against the payment's currency.
+ * 
+ * @param currencyProperty - Sibling property holding the ISO 4217 code
+ */
+export function IsMoneyAmount(currencyProperty?: string, validationOptions?: ValidationOptions): PropertyDecorator {
+  return ValidateBy(
+    {
+      name: 'isMoneyAmount',
+      constraints: [currencyProperty],
+      validator: {
+        validate: (value: unknown, args?: ValidationArguments) => {
+          if (typeof value !== 'number' && typeof value !== 'string') {
+            return false;
+          }
+
+          const places = Money.decimalPlaces(value);
+          return places !== null && places <= maxDecimalPlaces(args, currencyProperty);
+        },
+        defaultMessage: (args?: ValidationArguments) =>
+          `${args?.property} must have at most ${maxDecimalPlaces(args, currencyProperty)} decimal places`,
+      },
+    },
+    validationOptions,
+  );
+}
+
+function maxDecimalPlaces(args: ValidationArguments | undefined, currencyProperty?: string): number {
+  const currency = currencyProperty ? (args?.object as Record<string, unknown>)?.[currencyProperty] : undefined;
+
+  return typeof currency === 'string' && /^[A-Z]{3}$/.test(currency)
+    ? Money.exponent(currency)
+    : MAX_CURRENCY_EXPONENT;
+}
@@ -0,0 +1,194 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Logger,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+
+import { ApiScope } from '../auth/models/api-client.model';
+import { RequireScopes } from '../auth/decorators/auth.decorator';
+import { AuditService } from '../audit/audit.service';
+import { AuditOperation } from '../audit/models/audit-event.model';
+import { AuditActor } from '../audit/decorators/audit-actor.decorator';
+import { AuditContext } from '../audit/interfaces/audit.interface';
+import { CreateWebhookEndpointDto, UpdateWebhookEndpointDto } from './dto/webhook.dto';
+import { WebhookService } from './webhook.service';
+import WebhookEndpoint from './models/webhook-endpoint.model';
+import { PaymentApiResponse, WebhookDeliveryData, WebhookEndpointData } from './interfaces/payment.interface';
+import {
+  CreateWebhookEndpointDocs,
+  DeleteWebhookEndpointDocs,
+  GetWebhookEndpointDocs,
+  ListWebhookDeliveriesDocs,
+  ListWebhookEndpointsDocs,
+  UpdateWebhookEndpointDocs,
+} from './decorators/webhook.decorator';
+
+/**
+ * WebhookController
+ * 
+ * Admin endpoints for registering merchant webhook endpoints and inspecting
+ * their delivery log.
+ */
+@ApiTags('Merchant Webhooks')
+@RequireScopes(ApiScope.ADMIN)
+@Controller('api/payments/admin/webhooks')
+export class WebhookController {
+  private readonly logger = new Logger(WebhookController.name);
+
+  constructor(
+    private readonly webhookService: WebhookService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  @Post()
+  @CreateWebhookEndpointDocs()
+  async createEndpoint(
+    @Body(ValidationPipe) endpointData: CreateWebhookEndpointDto,
+    @AuditActor() audit: AuditContext
+  ): Promise<PaymentApiResponse<WebhookEndpointData>> {
+    const endpoint = await this.webhookService.createEndpoint(endpointData);
+
+    await this.auditService.record(audit, {
+      operation: AuditOperation.WEBHOOK_ENDPOINT_CREATE,
+      targetType: 'webhook_endpoint',
+      targetId: endpoint.dataValues.id,
+      after: this.toEndpointData(endpoint),
+    });
+
+    return {
+      success: true,
+      data: this.toEndpointData(endpoint, true),
+      message: 'Webhook endpoint registered successfully',
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  @Get()
+  @ListWebhookEndpointsDocs()
+  async listEndpoints(): Promise<PaymentApiResponse<WebhookEndpointData[]>> {
+    const endpoints = await this.webhookService.listEndpoints();
+
+    return {
+      success: true,
+      data: endpoints.map((endpoint) => this.toEndpointData(endpoint)),
+      message: 'Webhook endpoints retrieved successfully',
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  @Get(':endpointId')
+  @GetWebhookEndpointDocs()
+  async getEndpoint(
+    @Param('endpointId') endpointId: string
+  ): Promise<PaymentApiResponse<WebhookEndpointData>> {
+    const endpoint = await this.webhookService.getEndpoint(endpointId);
+
+    return {
+      success: true,
+      data: this.toEndpointData(endpoint),
+      message: 'Webhook endpoint retrieved successfully',
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  @Patch(':endpointId')
+  @UpdateWebhookEndpointDocs()
+  async updateEndpoint(
+    @Param('endpointId') endpointId: string,
+    @Body(ValidationPipe) endpointData: UpdateWebhookEndpointDto,
+    @AuditActor() audit: AuditContext
+  ): Promise<PaymentApiResponse<WebhookEndpointData>> {
+    const before = this.toEndpointData(await this.webhookService.getEndpoint(endpointId));
+    const endpoint = await this.webhookService.updateEndpoint(endpointId, endpointData);
+
+    await this.auditService.record(audit, {
+      operation: AuditOperation.WEBHOOK_ENDPOINT_UPDATE,
+      targetType: 'webhook_endpoint',
+      targetId: endpointId,
+      before,
+      after: this.toEndpointData(endpoint),
+    });
+
+    return {
+      success: true,
+      data: this.toEndpointData(endpoint),
+      message: 'Webhook endpoint updated successfully',
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  @Delete(':endpointId')
+  @DeleteWebhookEndpointDocs()
+  async deleteEndpoint(
+    @Param('endpointId') endpointId: string,
+    @AuditActor() audit: AuditContext
+  ): Promise<PaymentApiResponse<void>> {
+    const before = this.toEndpointData(await this.webhookService.getEndpoint(endpointId));
+    await this.webhookService.deleteEndpoint(endpointId);
+
+    await this.auditService.record(audit, {
+      operation: AuditOperation.WEBHOOK_ENDPOINT_DELETE,
+      targetType: 'webhook_endpoint',
+      targetId: endpointId,
+      before,
+    });
+
+    this.logger.log('Webhook endpoint removed via API', { endpointId });
+
+    return {
+      success: true,
+      message: 'Webhook endpoint removed successfully',
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  @Get(':endpointId/deliveries')
+  @ListWebhookDeliveriesDocs()
+  async listDeliveries(
+    @Param('endpointId') endpointId: string
+  ): Promise<PaymentApiResponse<WebhookDeliveryData[]>> {
+    const deliveries = await this.webhookService.listDeliveries(endpointId);
+
+    const responseData: WebhookDeliveryData[] = deliveries.map(({ dataValues }) => ({
+      deliveryId: dataValues.id,
+      eventId: dataValues.eventId,
+      eventType: dataValues.eventType,
+      paymentId: dataValues.paymentId,
+      status: dataValues.status,
+      attempts: dataValues.attempts,
+      responseStatus: dataValues.responseStatus,
+      lastError: dataValues.lastError,
+      lastAttemptAt: dataValues.lastAttemptAt,
+      deliveredAt: dataValues.deliveredAt,
+      createdAt: dataValues.createdAt,
+    }));
+
+    return {
+      success: true,
+      data: responseData,
+      message: 'Webhook deliveries retrieved successfully',
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  private toEndpointData(endpoint: WebhookEndpoint, includeSecret = false): WebhookEndpointData {
+    const { dataValues } = endpoint;
+
+    return {
+      endpointId: dataValues.id,
+      url: dataValues.url,
+      description: dataValues.description,
+      events: dataValues.events,
+      isActive: dataValues.isActive,
+      secret: includeSecret ? dataValues.secret : undefined,
+      createdAt: dataValues.createdAt,
+    };
+  }
+}
@@ -0,0 +1,227 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
+import * as crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+
+import PaymentTransaction, { TransactionStatus } from './models/payment-transaction.model';
+import WebhookEndpoint, { WebhookEvent } from './models/webhook-endpoint.model';
+import WebhookDelivery, { WebhookDeliveryStatus } from './models/webhook-delivery.model';
+import { CreateWebhookEndpointDto, UpdateWebhookEndpointDto } from './dto/webhook.dto';
+import { WebhookDeliveryJobData, WebhookEventPayload } from './interfaces/payment.interface';
+import { RequestContext } from '../request-context/request-context';
+
+const STATUS_EVENTS: Partial<Record<TransactionStatus, WebhookEvent>> = {
+  [TransactionStatus.AUTHORIZED]: WebhookEvent.PAYMENT_AUTHORIZED,
+  [TransactionStatus.SUCCESS]: WebhookEvent.PAYMENT_SUCCEEDED,
+  [TransactionStatus.FAILED]: WebhookEvent.PAYMENT_FAILED,
+  [TransactionStatus.CANCELLED]: WebhookEvent.PAYMENT_CANCELLED,
+  [TransactionStatus.REFUNDED]: WebhookEvent.PAYMENT_REFUNDED,
+  [TransactionStatus.PARTIALLY_REFUNDED]: WebhookEvent.PAYMENT_REFUNDED,
+  [TransactionStatus.EXPIRED]: WebhookEvent.PAYMENT_EXPIRED,
+};
+
+/**
+ * WebhookService
+ * 
+ * Manages merchant webhook endpoints and queues signed event deliveries
+ * whenever a payment transaction changes status.
+ */
+@Injectable()
+export class WebhookService {
+  private readonly logger = new Logger(WebhookService.name);
+
+  constructor(
+    @InjectModel(WebhookEndpoint)
+    private readonly endpointModel: typeof WebhookEndpoint,
+    @InjectModel(WebhookDelivery)
+    private readonly deliveryModel: typeof WebhookDelivery,
+    @InjectQueue('merchant-webhooks')
+    private readonly webhookQueue: Queue<WebhookDeliveryJobData>,
+  ) {}
+
+  /**
+   * Registers a new webhook endpoint, generating a signing secret if none is given
+   * 
+   * @param endpointData - Endpoint registration data
+   * @returns Promise resolving to the created endpoint
+   */
+  async createEndpoint(endpointData: CreateWebhookEndpointDto): Promise<WebhookEndpoint> {
+    const endpoint = await this.endpointModel.create({
+      url: endpointData.url,
+      description: endpointData.description,
+      events: endpointData.events,
+      secret: endpointData.secret || crypto.randomBytes(32).toString('hex'),
+      isActive: true,
+    });
+
+    this.logger.log('Webhook endpoint registered', {
+      endpointId: endpoint.dataValues.id,
+      url: endpointData.url,
+      events: endpointData.events,
+    });
+
+    return endpoint;
+  }
+
+  /**
+   * Lists all registered webhook endpoints
+   * 
+   * @returns Promise resolving to webhook endpoints
+   */
+  async listEndpoints(): Promise<WebhookEndpoint[]> {
+    return this.endpointModel.findAll({ order: [['createdAt', 'DESC']] });
+  }
+
+  /**
+   * Retrieves a webhook endpoint by ID
+   * 
+   * @param endpointId - Webhook endpoint ID
+   * @returns Promise resolving to the endpoint
+   * @throws {NotFoundException} If the endpoint is not found
+   */
+  async getEndpoint(endpointId: string): Promise<WebhookEndpoint> {
+    const endpoint = await this.endpointModel.findByPk(endpointId);
+
+    if (!endpoint) {
+      throw new NotFoundException(`Webhook endpoint not found: ${endpointId}`);
+    }
+
+    return endpoint;
+  }
+
+  /**
+   * Updates a webhook endpoint
+   * 
+   * @param endpointId - Webhook endpoint ID
+   * @param endpointData - Fields to update
+   * @returns Promise resolving to the updated endpoint
+   * @throws {NotFoundException} If the endpoint is not found
+   */
+  async updateEndpoint(endpointId: string, endpointData: UpdateWebhookEndpointDto): Promise<WebhookEndpoint> {
+    const endpoint = await this.getEndpoint(endpointId);
+    await endpoint.update(endpointData);
+
+    this.logger.log('Webhook endpoint updated', { endpointId });
+
+    return endpoint.reload();
+  }
+
+  /**
+   * Removes a webhook endpoint together with its delivery log
+   * 
+   * @param endpointId - Webhook endpoint ID
+   * @throws {NotFoundException} If the endpoint is not found
+   */
+  async deleteEndpoint(endpointId: string): Promise<void> {
+    const endpoint = await this.getEndpoint(endpointId);
+    await this.deliveryModel.destroy({ where: { endpointId } });
+    await endpoint.destroy();
+
+    this.logger.log('Webhook endpoint removed', { endpointId });
+  }
+
+  /**
+   * Lists the most recent deliveries made to an endpoint
+   * 
+   * @param endpointId - Webhook endpoint ID
+   * @param limit - Maximum number of deliveries to return
+   * @returns Promise resolving to delivery log entries
+   * @throws {NotFoundException} If the endpoint is not found
+   */
+  async listDeliveries(endpointId: string, limit = 50): Promise<WebhookDelivery[]> {
+    await this.getEndpoint(endpointId);
+
+    return this.deliveryModel.findAll({
+      where: { endpointId },
+      order: [['createdAt', 'DESC']],
+      limit,
+    });
+  }
+
+  /**
+   * Queues webhook deliveries for the current status of a payment.
+   * Never throws: a delivery problem must not fail the payment operation.
+   * 
+   * @param payment - Payment transaction whose status changed
+   */
+  async notifyStatusChange(payment: PaymentTransaction): Promise<void> {
+    const { dataValues } = payment;
+    const eventType = STATUS_EVENTS[dataValues.status as TransactionStatus];
+
+    if (!eventType) {
+      return;
+    }
+
+    try {
+      await this.dispatch(eventType, payment);
+    } catch (error) {
+      this.logger.error('Failed to queue webhook deliveries', {
+        error: error.message,
+        paymentId: dataValues.id,
+        eventType,
+      });
+    }
+  }
+
+  /**
+   * Creates a delivery record and queue job for every active endpoint
+   * subscribed to the event
+   * 
+   * @private
+   * @param eventType - Event being published
+   * @param payment - Payment transaction the event is about
+   */
+  private async dispatch(eventType: WebhookEvent, payment: PaymentTransaction): Promise<void> {
+    const { dataValues } = payment;
+
+    const endpoints = await this.endpointModel.findAll({ where: { isActive: true } });
+    const subscribed = endpoints.filter(({ dataValues: endpoint }) =>
+      (endpoint.events as WebhookEvent[]).includes(eventType)
+    );
+
+    if (subscribed.length === 0) {
+      return;
+    }
+
+    const payload: WebhookEventPayload = {
+      id: uuidv4(),
+      type: eventType,
+      createdAt: new Date().toISOString(),
+      data: {
+        paymentId: dataValues.id,
+        merchantTxnRef: dataValues.merchantTxnRef,
+        status: dataValues.status,
+        amount: Number(dataValues.amount),
+        currency: dataValues.currency,
+        refundedAmount: Number(dataValues.refundedAmount),
+        responseCode: dataValues.responseCode,
+        transactionId: dataValues.transactionId,
+      },
+    };
+
+    for (const endpoint of subscribed) {
+      const delivery = await this.deliveryModel.create({
+        endpointId: endpoint.dataValues.id,
+        eventId: payload.id,
+        eventType,
+        paymentId: dataValues.id,
+        payload,
+        status: WebhookDeliveryStatus.PENDING,
+      });
+
+      await this.webhookQueue.add('deliver-webhook', {
+        deliveryId: delivery.dataValues.id,
+        requestId: RequestContext.getRequestId(),
+      });
+    }
+
+    this.logger.log('Webhook deliveries queued', {
+      eventId: payload.id,
+      eventType,
+      paymentId: dataValues.id,
+      endpoints: subscribed.length,
+    });
+  }
+}
@@ -0,0 +1,56 @@
+import { ConsoleLogger, Injectable, LogLevel } from '@nestjs/common';
+import { RequestContext } from '../request-context/request-context';
+import { Redactor } from './redaction.util';
+
+/**
+ * RedactingLogger
+ * 
+ * Application logger. Every message and context object goes through the
+ * Redactor before it is written, so services can log gateway payloads
+ * without leaking card numbers, customer contact details or credentials.
+ * Lines written during a request or job carry its request ID.
+ */
+@Injectable()
+export class RedactingLogger extends ConsoleLogger {
+  constructor(private readonly redactor: Redactor) {
+    super();
+  }
+
+  log(message: any, ...optionalParams: any[]): void {
+    super.log(this.redactor.redact(message), ...this.redactor.redact(optionalParams));
+  }
+
+  error(message: any, ...optionalParams: any[]): void {
+    super.error(this.redactor.redact(message), ...this.redactor.redact(optionalParams));
+  }
+
+  warn(message: any, ...optionalParams: any[]): void {
+    super.warn(this.redactor.redact(message), ...this.redactor.redact(optionalParams));
+  }
+
+  debug(message: any, ...optionalParams: any[]): void {
+    super.debug(this.redactor.redact(message), ...this.redactor.redact(optionalParams));
+  }
+
+  verbose(message: any, ...optionalParams: any[]): void {
+    super.verbose(this.redactor.redact(message), ...this.redactor.redact(optionalParams));
+  }
+
+  fatal(message: any, ...optionalParams: any[]): void {
+    super.fatal(this.redactor.redact(message), ...this.redactor.redact(optionalParams));
+  }
+
+  protected formatContext(context: string): string {
+    const requestId = RequestContext.getRequestId();
+    return requestId ? `${super.formatContext(context)}[${requestId}] ` : super.formatContext(context);
+  }
+
+  protected getJsonLogObject(
+    message: unknown,
+    options: { context: string; logLevel: LogLevel; writeStreamType?: 'stdout' | 'stderr'; errorStack?: unknown },
+  ) {
+    const requestId = RequestContext.getRequestId();
+    const logObject = super.getJsonLogObject(message, options);
+    return requestId ? { ...logObject, requestId } : logObject;
+  }
+}
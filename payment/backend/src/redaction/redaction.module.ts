@@ -0,0 +1,25 @@
+import { Global, Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { Redactor, RedactionConfig } from './redaction.util';
+import { RedactingLogger } from './redacting-logger.service';
+
+/**
+ * Shared redaction of sensitive data. Global so that any service can mask
+ * payloads before persisting them; main.ts installs RedactingLogger as the
+ * application logger.
+ */
+@Global()
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    {
+      provide: Redactor,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) =>
+        Redactor.fromConfig(configService.get<RedactionConfig>('redaction')),
+    },
+    RedactingLogger,
+  ],
+  exports: [Redactor, RedactingLogger],
+})
+export class RedactionModule {}
@@ -0,0 +1,111 @@
+import { REDACTED, Redactor } from './redaction.util';
+
+describe('Redactor', () => {
+  const redactor = Redactor.fromConfig();
+
+  describe('card numbers', () => {
+    it('masks card fields, keeping the last four digits', () => {
+      const redacted = redactor.redact({ vpc_CardNum: '5123456789012346', vpc_Card: 'MC' });
+
+      expect(redacted.vpc_CardNum).toBe('************2346');
+      expect(redacted.vpc_Card).toBe('MC');
+    });
+
+    it('keeps the length of numbers the gateway already masked', () => {
+      expect(redactor.redact({ vpc_CardNum: '512345xxxxxx0008' }).vpc_CardNum).toBe('************0008');
+    });
+
+    it('hides security codes and expiry dates entirely', () => {
+      const redacted = redactor.redact({ vpc_CardSecurityCode: '123', vpc_CardExp: '2705' });
+
+      expect(redacted).toEqual({ vpc_CardSecurityCode: '****', vpc_CardExp: '****' });
+    });
+
+    it('masks card numbers inside free text only when they pass the Luhn check', () => {
+      expect(redactor.redactString('paid with 4111 1111 1111 1111 today')).toBe('paid with ************1111 today');
+      expect(redactor.redactString('amount 4111111111111112')).toBe('amount 4111111111111112');
+    });
+
+    it('leaves fields that merely contain the letters "card" alone', () => {
+      expect(redactor.redact({ discardedCount: 3 })).toEqual({ discardedCount: 3 });
+    });
+  });
+
+  describe('contact details', () => {
+    it('masks email fields and addresses inside text', () => {
+      expect(redactor.redact({ customerEmail: 'jane.doe@example.com' }).customerEmail).toBe('j***@example.com');
+      expect(redactor.redactString('receipt sent to jane.doe@example.com')).toBe('receipt sent to j***@example.com');
+    });
+
+    it('masks phone fields and international numbers inside text', () => {
+      expect(redactor.redact({ customerPhone: '+971 50 123 4567' }).customerPhone).toBe('**********67');
+      expect(redactor.redactString('call +971501234567')).toBe('call **********67');
+    });
+  });
+
+  describe('credentials and hashes', () => {
+    it('removes access codes, secrets and secure hashes', () => {
+      const redacted = redactor.redact({
+        vpc_AccessCode: 'ABCD1234',
+        vpc_SecureHash: 'C0FFEE',
+        vpc_SecureHashType: 'SHA256',
+        secureSecret: 'A1B2C3D4E5F60718293A4B5C6D7E8F90',
+      });
+
+      expect(redacted).toEqual({
+        vpc_AccessCode: REDACTED,
+        vpc_SecureHash: REDACTED,
+        vpc_SecureHashType: 'SHA256',
+        secureSecret: REDACTED,
+      });
+    });
+
+    it('removes hex digests inside text', () => {
+      const hash = 'a'.repeat(64);
+      expect(redactor.redactString(`vpc_SecureHash=${hash}&vpc_Amount=100`)).toBe(`vpc_SecureHash=${REDACTED}&vpc_Amount=100`);
+    });
+  });
+
+  describe('structure', () => {
+    it('redacts nested objects and arrays without modifying the input', () => {
+      const input = { payment: { refunds: [{ requestedBy: 'ops@example.com' }] }, amount: 100 };
+      const redacted = redactor.redact(input);
+
+      expect(redacted.payment.refunds[0].requestedBy).toBe('o***@example.com');
+      expect(redacted.amount).toBe(100);
+      expect(input.payment.refunds[0].requestedBy).toBe('ops@example.com');
+    });
+
+    it('replaces circular references', () => {
+      const input: Record<string, any> = { name: 'loop' };
+      input.self = input;
+
+      expect(redactor.redact(input)).toEqual({ name: 'loop', self: '[Circular]' });
+    });
+
+    it('redacts error messages', () => {
+      const redacted = redactor.redact(new Error('No customer for jane@example.com'));
+
+      expect(redacted).toMatchObject({ name: 'Error', message: 'No customer for j***@example.com' });
+    });
+  });
+
+  describe('configuration', () => {
+    it('applies only the configured rules', () => {
+      const emailOnly = Redactor.fromConfig({ rules: ['email'] });
+      const redacted = emailOnly.redact({ customerEmail: 'jane@example.com', vpc_AccessCode: 'ABCD1234' });
+
+      expect(redacted).toEqual({ customerEmail: 'j***@example.com', vpc_AccessCode: 'ABCD1234' });
+    });
+
+    it('removes extra fields by name', () => {
+      const redactorWithExtras = Redactor.fromConfig({ extraFields: ['orderInfo'] });
+
+      expect(redactorWithExtras.redact({ orderInfo: 'Flat 12, Marina Tower' })).toEqual({ orderInfo: REDACTED });
+    });
+
+    it('rejects unknown rule names', () => {
+      expect(() => Redactor.fromConfig({ rules: ['iban'] })).toThrow('Unknown redaction rule: iban');
+    });
+  });
+});
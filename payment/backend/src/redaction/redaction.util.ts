@@ -0,0 +1,187 @@
+import { CardMaskUtil } from '../payment/utils/card-mask.util';
+
+export const REDACTED = '[REDACTED]';
+
+/**
+ * One kind of sensitive data. A rule masks the whole value of fields whose
+ * name matches fieldPattern, and every match of valuePattern inside any
+ * string, wherever it appears. maskMatch defaults to mask.
+ */
+export interface RedactionRule {
+  name: string;
+  fieldPattern?: RegExp;
+  valuePattern?: RegExp;
+  mask: (value: string) => string;
+  maskMatch?: (match: string) => string;
+}
+
+export interface RedactionConfig {
+  /** Names of the built-in rules to apply; all of them when omitted */
+  rules?: string[];
+  /** Additional field names whose values are removed entirely */
+  extraFields?: string[];
+}
+
+/**
+ * Luhn check, so that long numbers which are not card numbers (timestamps,
+ * amounts in minor units) are left alone
+ */
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+export const REDACTION_RULES: Record<string, RedactionRule> = {
+  card: {
+    name: 'card',
+    // vpc_Card and cardType only carry the card brand. Case-sensitive so
+    // that names like discardedCount are not taken for card fields.
+    fieldPattern: /^(?!vpc_Card$|cardType$)(?:card|.*_card|.*Card|.*(?:cvv|cvc|cvn|Cvv|Cvc|CVV|CVC))|^pan$|_pan$|^PAN$/,
+    valuePattern: /\b[2-6](?:[ -]?\d){12,18}\b/g,
+    // Card numbers keep their last four digits; CVV and expiry are hidden entirely
+    mask: (value) => value.replace(/[\s-]/g, '').length >= 12 ? CardMaskUtil.maskPan(value) : '****',
+    maskMatch: (match) => passesLuhn(match.replace(/\D/g, '')) ? CardMaskUtil.maskPan(match) : match,
+  },
+  email: {
+    name: 'email',
+    fieldPattern: /e-?mail/i,
+    valuePattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+    mask: (value) => {
+      const at = value.indexOf('@');
+      return at > 0 ? `${value[0]}***${value.slice(at)}` : '***';
+    },
+  },
+  phone: {
+    name: 'phone',
+    fieldPattern: /phone|mobile|msisdn/i,
+    // Only numbers in international format; bare digit runs are too ambiguous
+    valuePattern: /\+\d[\d\s().-]{6,}\d/g,
+    mask: (value) => {
+      const digits = value.replace(/\D/g, '');
+      return digits.length > 2 ? `${'*'.repeat(digits.length - 2)}${digits.slice(-2)}` : '**';
+    },
+  },
+  credential: {
+    name: 'credential',
+    fieldPattern: /access_?code|secret$|password|api_?key$|token$|authorization/i,
+    mask: () => REDACTED,
+  },
+  hash: {
+    name: 'hash',
+    fieldPattern: /secure_?hash$|hash$|signature$/i,
+    // MD5, SHA-1, SHA-256 and SHA-512 digests in hex
+    valuePattern: /\b(?:[0-9a-f]{128}|[0-9a-f]{64}|[0-9a-f]{40}|[0-9a-f]{32})\b/gi,
+    mask: () => REDACTED,
+  },
+};
+
+/**
+ * Redactor
+ * 
+ * Masks sensitive data in strings and nested objects. Shared by the
+ * application logger and by everything that persists gateway payloads.
+ * Inputs are never modified; redact() returns a copy.
+ */
+export class Redactor {
+  constructor(private readonly rules: RedactionRule[]) {}
+
+  /**
+   * Builds a redactor from the redaction config
+   * 
+   * @param config - Enabled rule names and extra field names
+   * @throws {Error} If a rule name is unknown
+   */
+  static fromConfig(config: RedactionConfig = {}): Redactor {
+    const names = config.rules?.length ? config.rules : Object.keys(REDACTION_RULES);
+
+    const rules = names.map((name) => {
+      const rule = REDACTION_RULES[name];
+      if (!rule) {
+        throw new Error(`Unknown redaction rule: ${name}`);
+      }
+      return rule;
+    });
+
+    const extraFields = (config.extraFields ?? []).map((field) => field.trim().toLowerCase()).filter(Boolean);
+    if (extraFields.length > 0) {
+      rules.push({
+        name: 'extraFields',
+        fieldPattern: new RegExp(`^(?:${extraFields.map(escapeRegExp).join('|')})$`, 'i'),
+        mask: () => REDACTED,
+      });
+    }
+
+    return new Redactor(rules);
+  }
+
+  /**
+   * Returns a copy of a value with every sensitive field and substring masked
+   */
+  redact<T>(value: T): T {
+    return this.redactValue(value, new WeakSet()) as T;
+  }
+
+  /**
+   * Masks every sensitive substring of a string
+   */
+  redactString(value: string): string {
+    return this.rules.reduce(
+      (redacted, rule) => rule.valuePattern
+        ? redacted.replace(rule.valuePattern, rule.maskMatch ?? rule.mask)
+        : redacted,
+      value
+    );
+  }
+
+  private redactValue(value: unknown, ancestors: WeakSet<object>): unknown {
+    if (typeof value === 'string') {
+      return this.redactString(value);
+    }
+
+    if (value === null || typeof value !== 'object' || value instanceof Date || Buffer.isBuffer(value)) {
+      return value;
+    }
+
+    if (value instanceof Error) {
+      return {
+        name: value.name,
+        message: this.redactString(value.message),
+        stack: value.stack ? this.redactString(value.stack) : undefined,
+      };
+    }
+
+    // Only ancestors are tracked, so an object referenced twice is still printed twice
+    if (ancestors.has(value)) {
+      return '[Circular]';
+    }
+    ancestors.add(value);
+
+    const redacted = Array.isArray(value)
+      ? value.map((item) => this.redactValue(item, ancestors))
+      : Object.entries(value).reduce<Record<string, unknown>>((fields, [key, fieldValue]) => {
+        const rule = this.rules.find((candidate) => candidate.fieldPattern?.test(key));
+
+        fields[key] = rule && fieldValue !== null && fieldValue !== undefined && typeof fieldValue !== 'object'
+          ? rule.mask(String(fieldValue))
+          : this.redactValue(fieldValue, ancestors);
+        return fields;
+      }, {});
+
+    ancestors.delete(value);
+    return redacted;
+  }
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,23 @@
+import { Global, MiddlewareConsumer, Module, NestModule } from '@nestjs/common';
+import { APP_INTERCEPTOR } from '@nestjs/core';
+import { RequestIdMiddleware } from './request-id.middleware';
+import { RequestIdInterceptor } from './request-id.interceptor';
+
+/**
+ * Request ID propagation. The middleware runs before guards, so the ID is
+ * already in context when authentication and audit logging happen.
+ */
+@Global()
+@Module({
+  providers: [
+    {
+      provide: APP_INTERCEPTOR,
+      useClass: RequestIdInterceptor,
+    },
+  ],
+})
+export class RequestContextModule implements NestModule {
+  configure(consumer: MiddlewareConsumer): void {
+    consumer.apply(RequestIdMiddleware).forRoutes('*path');
+  }
+}
@@ -0,0 +1,47 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Job } from 'bull';
+
+export const REQUEST_ID_HEADER = 'x-request-id';
+
+interface RequestContextStore {
+  requestId: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContextStore>();
+
+/**
+ * RequestContext
+ * 
+ * Carries the request ID of the current HTTP request or Bull job through
+ * every await, so that log lines, outbound gateway calls and queued jobs can
+ * be tied back to the request that caused them.
+ */
+export class RequestContext {
+  /**
+   * Runs a function with the given request ID as the current one
+   * 
+   * @param requestId - Request ID to expose to everything the function calls
+   * @param fn - Function to run
+   */
+  static run<T>(requestId: string, fn: () => T): T {
+    return storage.run({ requestId }, fn);
+  }
+
+  /**
+   * Runs a Bull job handler under the request ID stored in the job data, or
+   * under "<queue>:<job id>" for jobs no request caused
+   * 
+   * @param job - Job being processed
+   * @param fn - Handler to run
+   */
+  static runForJob<T>(job: Job<{ requestId?: string }>, fn: () => T): T {
+    return this.run(job.data.requestId ?? `${job.queue.name}:${job.id}`, fn);
+  }
+
+  /**
+   * Request ID of the current request or job, if there is one
+   */
+  static getRequestId(): string | undefined {
+    return storage.getStore()?.requestId;
+  }
+}
@@ -0,0 +1,24 @@
+import { CallHandler, ExecutionContext, Injectable, NestInterceptor } from '@nestjs/common';
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { RequestContext } from './request-context';
+
+/**
+ * Adds the request ID to every PaymentApiResponse body. Other payloads
+ * (metrics text, redirects, gateway callbacks) are returned unchanged.
+ */
+@Injectable()
+export class RequestIdInterceptor implements NestInterceptor {
+  intercept(_context: ExecutionContext, next: CallHandler): Observable<any> {
+    return next.handle().pipe(
+      map((body) => {
+        const requestId = RequestContext.getRequestId();
+
+        if (!requestId || !body || typeof body !== 'object' || !('success' in body)) {
+          return body;
+        }
+        return { ...body, requestId };
+      }),
+    );
+  }
+}
@@ -0,0 +1,24 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { NextFunction, Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { REQUEST_ID_HEADER, RequestContext } from './request-context';
+
+// Caller-supplied IDs end up in logs and headers, so only plain tokens are kept
+const VALID_REQUEST_ID = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/**
+ * Accepts the caller's X-Request-Id, or generates one, echoes it on the
+ * response and runs the rest of the request inside its RequestContext.
+ */
+@Injectable()
+export class RequestIdMiddleware implements NestMiddleware {
+  use(request: Request, response: Response, next: NextFunction): void {
+    const incoming = request.header(REQUEST_ID_HEADER);
+    const requestId = incoming && VALID_REQUEST_ID.test(incoming) ? incoming : uuidv4();
+
+    request.headers[REQUEST_ID_HEADER] = requestId;
+    response.setHeader('X-Request-Id', requestId);
+
+    RequestContext.run(requestId, next);
+  }
+}
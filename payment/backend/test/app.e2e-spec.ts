@@ -1,8 +1,12 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { INestApplication } from '@nestjs/common';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
 import * as request from 'supertest';
 import { App } from 'supertest/types';
+import { AddressInfo } from 'net';
 import { AppModule } from './../src/app.module';
+import { MigsSimulatorModule } from './../src/migs-simulator/migs-simulator.module';
+import { SimulatorScenario } from './../src/migs-simulator/dto/simulator-scenario.dto';
+import { PaymentService } from './../src/payment/payment.service';
 
 describe('AppController (e2e)', () => {
   let app: INestApplication<App>;
@@ -23,3 +27,423 @@ describe('AppController (e2e)', () => {
       .expect('Hello World!');
   });
 });
+
+/**
+ * Drives full payment flows against the bundled MIGS simulator. Needs the
+ * Postgres and Redis instances from the DB_* / REDIS_* environment, but no
+ * access to the bank's gateway.
+ */
+describe('Payment flows against the MIGS simulator (e2e)', () => {
+  const SECURE_SECRET = 'A1B2C3D4E5F60718293A4B5C6D7E8F90';
+  const RETURN_URL = 'https://localhost:3001/api/payments/callback';
+  const API_KEY = 'e2e-admin-key';
+
+  let simulator: INestApplication;
+  let app: INestApplication<App>;
+
+  beforeAll(async () => {
+    process.env.MIGS_MERCHANT_ID = 'TESTMERCHANT';
+    process.env.MIGS_ACCESS_CODE = 'ABCD1234';
+    process.env.MIGS_SECURE_SECRET = SECURE_SECRET;
+    process.env.MIGS_RETURN_URL = RETURN_URL;
+    process.env.MIGS_SIMULATOR_TIMEOUT_DELAY_MS = '0';
+    process.env.MIGS_REFUND_TIMEOUT_MS = '300';
+    process.env.API_KEY = API_KEY;
+    process.env.SECRET_ENCRYPTION_KEY = '0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef';
+
+    const simulatorModule = await Test.createTestingModule({
+      imports: [MigsSimulatorModule],
+    }).compile();
+    simulator = simulatorModule.createNestApplication();
+    await simulator.listen(0, '127.0.0.1');
+
+    const { port } = simulator.getHttpServer().address() as AddressInfo;
+    process.env.MIGS_GATEWAY_URL = `http://127.0.0.1:${port}/simulator/vpcpay`;
+    process.env.MIGS_GATEWAY_QUERY_URL = `http://127.0.0.1:${port}/simulator/vpcdps`;
+
+    const moduleFixture = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(new ValidationPipe());
+    await app.init();
+  });
+
+  afterAll(async () => {
+    await app?.close();
+    await simulator?.close();
+  });
+
+  beforeEach(async () => {
+    await request(simulator.getHttpServer()).delete('/simulator/scenarios').expect(200);
+  });
+
+  const setScenario = (scenario: Record<string, unknown>) =>
+    request(simulator.getHttpServer()).post('/simulator/scenarios').send(scenario).expect(201);
+
+  const createPayment = async (amount = 100) => {
+    const response = await request(app.getHttpServer())
+      .post('/api/payments/create')
+      .set('X-API-Key', API_KEY)
+      .send({ orderInfo: 'E2E order', amount, customerEmail: 'buyer@example.com' })
+      .expect(201);
+
+    return response.body.data as { paymentId: string; merchantTxnRef: string; paymentUrl: string };
+  };
+
+  /**
+   * Opens the hosted page and, if the simulator redirects back, delivers the
+   * callback to the API. Returns where the API sent the cardholder.
+   */
+  const completeHostedPayment = async (paymentUrl: string): Promise<string | null> => {
+    const { pathname, search } = new URL(paymentUrl);
+    const hosted = await request(simulator.getHttpServer()).get(`${pathname}${search}`);
+
+    if (hosted.status !== 302) {
+      return null;
+    }
+
+    const callback = new URL(hosted.headers.location);
+    const result = await request(app.getHttpServer())
+      .get(`${callback.pathname}${callback.search}`)
+      .expect(302);
+
+    return result.headers.location;
+  };
+
+  const getStatus = async (paymentId: string) => {
+    const response = await request(app.getHttpServer())
+      .get(`/api/payments/status/${paymentId}`)
+      .set('X-API-Key', API_KEY)
+      .expect(200);
+
+    return response.body.data as { status: string; responseCode?: string; result?: { category: string; retryable: boolean } };
+  };
+
+  it('approves a payment through the hosted page', async () => {
+    const payment = await createPayment();
+
+    const redirect = await completeHostedPayment(payment.paymentUrl);
+
+    expect(redirect).toContain('/payment/success');
+    expect((await getStatus(payment.paymentId)).status).toBe('success');
+  });
+
+  it('acknowledges a gateway notification as a duplicate of the redirect', async () => {
+    const payment = await createPayment();
+    const { pathname, search } = new URL(payment.paymentUrl);
+    const hosted = await request(simulator.getHttpServer()).get(`${pathname}${search}`).expect(302);
+    const callback = new URL(hosted.headers.location);
+
+    const first = await request(app.getHttpServer())
+      .post('/api/payments/notify')
+      .type('form')
+      .send(Object.fromEntries(callback.searchParams))
+      .expect(200);
+    const redirect = await request(app.getHttpServer())
+      .get(`${callback.pathname}${callback.search}`)
+      .expect(302);
+    const second = await request(app.getHttpServer())
+      .post('/api/payments/notify')
+      .type('form')
+      .send(Object.fromEntries(callback.searchParams))
+      .expect(200);
+
+    expect(first.body.data).toMatchObject({ acknowledged: true, status: 'success', duplicate: false });
+    expect(redirect.headers.location).toContain('/payment/success');
+    expect(second.body.data.duplicate).toBe(true);
+  });
+
+  it('records a decline with the chosen response code', async () => {
+    const payment = await createPayment();
+    await setScenario({ scenario: SimulatorScenario.DECLINE, responseCode: '5', merchTxnRef: payment.merchantTxnRef });
+
+    const redirect = await completeHostedPayment(payment.paymentUrl);
+    const status = await getStatus(payment.paymentId);
+
+    expect(redirect).toContain('/payment/failure');
+    expect(status.status).toBe('failed');
+    expect(status.responseCode).toBe('5');
+    expect(status.result).toMatchObject({ category: 'decline', retryable: false });
+  });
+
+  it('rejects a callback with a bad hash', async () => {
+    const payment = await createPayment();
+    await setScenario({ scenario: SimulatorScenario.BAD_HASH });
+
+    const redirect = await completeHostedPayment(payment.paymentUrl);
+
+    expect(redirect).toContain('/payment/error');
+    expect((await getStatus(payment.paymentId)).status).toBe('pending');
+  });
+
+  it('leaves the payment pending when the cardholder never returns', async () => {
+    const payment = await createPayment();
+    await setScenario({ scenario: SimulatorScenario.TIMEOUT });
+
+    const redirect = await completeHostedPayment(payment.paymentUrl);
+
+    expect(redirect).toBeNull();
+    expect((await getStatus(payment.paymentId)).status).toBe('pending');
+  });
+
+  it('rejects API calls without a valid API key', async () => {
+    await request(app.getHttpServer()).get('/api/payments/summary').expect(401);
+    await request(app.getHttpServer())
+      .get('/api/payments/summary')
+      .set('X-API-Key', 'migs_000000000000_unknown')
+      .expect(401);
+  });
+
+  it('reports dependency health on the legacy payments health endpoint', async () => {
+    const response = await request(app.getHttpServer()).get('/api/payments/health').expect(200);
+
+    expect(response.body.components.database).toMatchObject({ status: 'up' });
+    expect(response.body.components.redis).toMatchObject({ status: 'up' });
+  });
+
+  it('echoes the caller\'s X-Request-Id and generates one otherwise', async () => {
+    const echoed = await request(app.getHttpServer())
+      .get('/api/payments/summary')
+      .set('X-API-Key', API_KEY)
+      .set('X-Request-Id', 'e2e-req-42')
+      .expect(200);
+
+    expect(echoed.headers['x-request-id']).toBe('e2e-req-42');
+    expect(echoed.body.requestId).toBe('e2e-req-42');
+
+    const generated = await request(app.getHttpServer())
+      .get('/api/payments/summary')
+      .set('X-API-Key', API_KEY)
+      .set('X-Request-Id', 'not a valid id')
+      .expect(200);
+
+    expect(generated.headers['x-request-id']).toMatch(/^[0-9a-f-]{36}$/);
+    expect(generated.body.requestId).toBe(generated.headers['x-request-id']);
+  });
+
+  it('queries the gateway with queryDR', async () => {
+    const payment = await createPayment();
+    await completeHostedPayment(payment.paymentUrl);
+
+    const response = await request(app.getHttpServer())
+      .get(`/api/payments/query/${payment.merchantTxnRef}`)
+      .set('X-API-Key', API_KEY)
+      .expect(200);
+
+    expect(response.body.data.vpc_DRExists).toBe('Y');
+    expect(response.body.data.vpc_TxnResponseCode).toBe('0');
+  });
+
+  it('refunds a payment in full', async () => {
+    const payment = await createPayment(100);
+    await completeHostedPayment(payment.paymentUrl);
+
+    const response = await request(app.getHttpServer())
+      .post('/api/payments/refund')
+      .set('X-API-Key', API_KEY)
+      .send({ paymentId: payment.paymentId, amount: 100, reason: 'E2E full refund' })
+      .expect(201);
+
+    expect(response.body.data.status).toBe('refunded');
+
+    const audit = await request(app.getHttpServer())
+      .get('/api/payments/admin/audit-events')
+      .set('X-API-Key', API_KEY)
+      .query({ paymentId: payment.paymentId, operation: 'payment.refund' })
+      .expect(200);
+
+    expect(audit.body.data.total).toBe(1);
+    expect(audit.body.data.items[0].outcome).toBe('success');
+    expect(audit.body.data.items[0].actorId).toBe('bootstrap');
+    expect(audit.body.data.items[0].after.status).toBe('refunded');
+  });
+
+  it('serialises concurrent refunds of the same payment', async () => {
+    const payment = await createPayment(100);
+    await completeHostedPayment(payment.paymentUrl);
+
+    const refund = () => request(app.getHttpServer())
+      .post('/api/payments/refund')
+      .set('X-API-Key', API_KEY)
+      .send({ paymentId: payment.paymentId, amount: 60 });
+    const responses = await Promise.all([refund(), refund()]);
+
+    expect(responses.map((response) => response.status).sort()).toEqual([201, 400]);
+    expect(responses.find((response) => response.status === 400)?.body.error.code).toBe('REFUND_EXCEEDS_AVAILABLE');
+
+    const refunds = await request(app.getHttpServer())
+      .get(`/api/payments/${payment.paymentId}/refunds`)
+      .set('X-API-Key', API_KEY)
+      .expect(200);
+
+    expect(refunds.body.data).toHaveLength(1);
+    expect(refunds.body.data[0].status).toBe('success');
+  });
+
+  it('keeps Idempotency-Keys apart per API client and records the client as the refund requester', async () => {
+    const payment = await createPayment(100);
+    await completeHostedPayment(payment.paymentUrl);
+
+    const client = await request(app.getHttpServer())
+      .post('/api/payments/admin/api-clients')
+      .set('X-API-Key', API_KEY)
+      .send({ name: 'e2e-refunds', scopes: ['refund', 'read'] })
+      .expect(201);
+
+    const refund = (apiKey: string) => request(app.getHttpServer())
+      .post('/api/payments/refund')
+      .set('X-API-Key', apiKey)
+      .set('Idempotency-Key', `e2e-shared-key-${payment.paymentId}`)
+      .send({ paymentId: payment.paymentId, amount: 40, requestedBy: 'someone-else@example.com' });
+
+    const first = await refund(API_KEY).expect(201);
+    const second = await refund(client.body.data.apiKey).expect(201);
+    const replayed = await refund(client.body.data.apiKey).expect(201);
+
+    expect(first.headers['idempotent-replayed']).toBeUndefined();
+    expect(second.headers['idempotent-replayed']).toBeUndefined();
+    expect(replayed.headers['idempotent-replayed']).toBe('true');
+
+    const refunds = await request(app.getHttpServer())
+      .get(`/api/payments/${payment.paymentId}/refunds`)
+      .set('X-API-Key', API_KEY)
+      .expect(200);
+
+    expect(refunds.body.data.map((record: { requestedBy: string }) => record.requestedBy).sort())
+      .toEqual(['bootstrap', client.body.data.clientId].sort());
+  });
+
+  it('rejects a refund above the available amount with a catalogue error', async () => {
+    const payment = await createPayment(100);
+    await completeHostedPayment(payment.paymentUrl);
+
+    const response = await request(app.getHttpServer())
+      .post('/api/payments/refund')
+      .set('X-API-Key', API_KEY)
+      .set('X-Request-Id', 'e2e-refund-too-much')
+      .send({ paymentId: payment.paymentId, amount: 150 })
+      .expect(400);
+
+    expect(response.body).toMatchObject({
+      success: false,
+      error: { code: 'REFUND_EXCEEDS_AVAILABLE', retryable: false },
+      requestId: 'e2e-refund-too-much',
+    });
+  });
+
+  it('rejects amounts with more decimals than the currency has', async () => {
+    await request(app.getHttpServer())
+      .post('/api/payments/create')
+      .set('X-API-Key', API_KEY)
+      .send({ orderInfo: 'E2E order', amount: 10.555, currency: 'AED', customerEmail: 'buyer@example.com' })
+      .expect(400);
+  });
+
+  it('rejects currencies the merchant does not accept', async () => {
+    const response = await request(app.getHttpServer())
+      .post('/api/payments/create')
+      .set('X-API-Key', API_KEY)
+      .send({ orderInfo: 'E2E order', amount: 10.555, currency: 'KWD', customerEmail: 'buyer@example.com' })
+      .expect(400);
+
+    expect(response.body.error).toMatchObject({
+      code: 'CURRENCY_NOT_ALLOWED',
+      details: { currency: 'KWD', allowedCurrencies: ['AED'] },
+    });
+  });
+
+  it('sends the payment currency to the gateway', async () => {
+    const payment = await createPayment(100);
+
+    expect(new URL(payment.paymentUrl).searchParams.get('vpc_Currency')).toBe('AED');
+  });
+
+  it('reports totals per currency', async () => {
+    await createPayment(100);
+
+    const response = await request(app.getHttpServer())
+      .get('/api/payments/summary')
+      .set('X-API-Key', API_KEY)
+      .expect(200);
+
+    expect(response.body.data.byCurrency.map((row: { currency: string }) => row.currency)).toContain('AED');
+    expect(response.body.data.byStatus[0]).toHaveProperty('currency');
+  });
+
+  it('records only the amount the gateway actually refunded', async () => {
+    const payment = await createPayment(100);
+    await completeHostedPayment(payment.paymentUrl);
+    await setScenario({
+      scenario: SimulatorScenario.PARTIAL_REFUND,
+      partialRefundAmount: 4000,
+      merchTxnRef: payment.merchantTxnRef,
+    });
+
+    const response = await request(app.getHttpServer())
+      .post('/api/payments/refund')
+      .set('X-API-Key', API_KEY)
+      .send({ paymentId: payment.paymentId, amount: 100, reason: 'E2E partial refund' })
+      .expect(201);
+
+    expect(response.body.data.status).toBe('partially_refunded');
+    expect(Number(response.body.data.refundedAmount)).toBe(40);
+  });
+
+  it('keeps a timed-out refund pending until queryDR settles it', async () => {
+    const payment = await createPayment(100);
+    await completeHostedPayment(payment.paymentUrl);
+    await setScenario({ scenario: SimulatorScenario.TIMEOUT, delayMs: 600, merchTxnRef: payment.merchantTxnRef });
+
+    const response = await request(app.getHttpServer())
+      .post('/api/payments/refund')
+      .set('X-API-Key', API_KEY)
+      .send({ paymentId: payment.paymentId, amount: 30 })
+      .expect(504);
+    const listRefunds = async () => (await request(app.getHttpServer())
+      .get(`/api/payments/${payment.paymentId}/refunds`)
+      .set('X-API-Key', API_KEY)
+      .expect(200)).body.data as Array<{ refundId: string; status: string }>;
+
+    expect(response.body.error.code).toBe('GATEWAY_TIMEOUT');
+    const [pending] = await listRefunds();
+    expect(pending.status).toBe('pending');
+    expect(await getStatus(payment.paymentId)).toMatchObject({ status: 'success' });
+
+    // The pending refund still reserves its amount
+    const overRefund = await request(app.getHttpServer())
+      .post('/api/payments/refund')
+      .set('X-API-Key', API_KEY)
+      .send({ paymentId: payment.paymentId, amount: 80 })
+      .expect(400);
+    expect(overRefund.body.error.code).toBe('REFUND_EXCEEDS_AVAILABLE');
+
+    // The simulator carries out the refund once its delay has passed
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    await expect(app.get(PaymentService).resolveRefund(pending.refundId)).resolves.toBe('success');
+
+    expect((await listRefunds())[0].status).toBe('success');
+    expect(await getStatus(payment.paymentId)).toMatchObject({ status: 'partially_refunded' });
+  });
+
+  it('keeps the refund ledger when the gateway declines', async () => {
+    const payment = await createPayment(100);
+    await completeHostedPayment(payment.paymentUrl);
+    await setScenario({ scenario: SimulatorScenario.DECLINE, merchTxnRef: payment.merchantTxnRef });
+
+    const response = await request(app.getHttpServer())
+      .post('/api/payments/refund')
+      .set('X-API-Key', API_KEY)
+      .send({ paymentId: payment.paymentId, amount: 50 })
+      .expect(400);
+    const refunds = await request(app.getHttpServer())
+      .get(`/api/payments/${payment.paymentId}/refunds`)
+      .set('X-API-Key', API_KEY)
+      .expect(200);
+
+    expect(response.body.error.code).toBe('GATEWAY_DECLINED');
+    expect(response.body.error.details).toMatchObject({ category: 'decline', retryable: false });
+    expect(refunds.body.data[0].status).toBe('failed');
+    expect(await getStatus(payment.paymentId)).toMatchObject({ status: 'success' });
+  });
+});
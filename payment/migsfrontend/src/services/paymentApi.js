@@ -41,6 +41,19 @@ export const paymentService = {
     return response.data;
   },
 
+  // Search payments (filters: status, from, to, minAmount, maxAmount, currency,
+  // customerEmail, responseCode, orderInfo, cursor, limit)
+  listPayments: async (params = {}) => {
+    const response = await paymentApi.get('/api/payments', { params });
+    return response.data;
+  },
+
+  // Per-status counts and totals for the same filters
+  getPaymentSummary: async (params = {}) => {
+    const response = await paymentApi.get('/api/payments/summary', { params });
+    return response.data;
+  },
+
   // Get payment status
   getPaymentStatus: async (paymentId) => {
     const response = await paymentApi.get(`/api/payments/status/${paymentId}`);